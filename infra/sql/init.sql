@@ -35,9 +35,12 @@ CREATE TABLE IF NOT EXISTS Aluno (
 );
 
 -- Criar a função gerar_ra apenas se não existir
+-- O RA informado no cadastro (ex.: importação da lista de alunos da turma) é mantido
 CREATE OR REPLACE FUNCTION gerar_ra() RETURNS TRIGGER AS $$
 BEGIN
-    NEW.ra := 'AAA' || TO_CHAR(nextval('seq_ra'), 'FM0000');
+    IF NEW.ra IS NULL OR NEW.ra = '' THEN
+        NEW.ra := 'AAA' || TO_CHAR(nextval('seq_ra'), 'FM0000');
+    END IF;
     RETURN NEW;
 END;
 $$ LANGUAGE plpgsql;
@@ -83,35 +86,357 @@ CREATE TABLE IF NOT EXISTS Usuario (
     nome VARCHAR(70) NOT NULL,
     username VARCHAR(50) UNIQUE NOT NULL,
     email VARCHAR(50) UNIQUE NOT NULL,
-    senha VARCHAR(50) NOT NULL,
-    imagem_perfil VARCHAR(100)
+    senha VARCHAR(255) NOT NULL,
+    imagem_perfil VARCHAR(100),
+    troca_senha_obrigatoria BOOLEAN DEFAULT FALSE
+);
+
+-- A senha agora é gravada pela API como hash (scrypt), a trigger que sobrescrevia a senha
+-- com username || '1234' foi removida
+DROP TRIGGER IF EXISTS trigger_gerar_senha ON Usuario;
+DROP FUNCTION IF EXISTS gerar_senha_padrao();
+
+-- CREATE REDEFINICAO_SENHA
+-- Tokens de redefinição de senha (somente o hash SHA-256 do token é armazenado)
+CREATE TABLE IF NOT EXISTS Redefinicao_Senha (
+    id_redefinicao SERIAL PRIMARY KEY,
+    id_usuario INT NOT NULL REFERENCES Usuario(id_usuario),
+    token_hash CHAR(64) UNIQUE NOT NULL,
+    data_expiracao TIMESTAMP NOT NULL,
+    data_uso TIMESTAMP,
+    data_criacao TIMESTAMP NOT NULL DEFAULT NOW()
 );
 
--- Criar a função gerar_senha_padrao apenas se não existir
-CREATE OR REPLACE FUNCTION gerar_senha_padrao()
-RETURNS TRIGGER AS $$
+-- CREATE SESSAO
+-- Sessões abertas no login, o token de acesso guarda o uuid da sessão
+CREATE TABLE IF NOT EXISTS Sessao (
+    id_sessao SERIAL PRIMARY KEY,
+    uuid UUID DEFAULT gen_random_uuid() UNIQUE NOT NULL,
+    id_usuario INT NOT NULL REFERENCES Usuario(id_usuario),
+    data_criacao TIMESTAMP NOT NULL DEFAULT NOW(),
+    data_revogacao TIMESTAMP,
+    motivo_revogacao VARCHAR(50)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sessao_usuario ON Sessao (id_usuario) WHERE data_revogacao IS NULL;
+
+-- CREATE REFRESH_TOKEN
+-- Refresh tokens das sessões (somente o hash SHA-256 é armazenado), substituídos a cada uso
+CREATE TABLE IF NOT EXISTS Refresh_Token (
+    id_refresh_token SERIAL PRIMARY KEY,
+    id_sessao INT NOT NULL REFERENCES Sessao(id_sessao),
+    token_hash CHAR(64) UNIQUE NOT NULL,
+    data_expiracao TIMESTAMP NOT NULL,
+    data_uso TIMESTAMP,
+    data_criacao TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- CREATE EMAIL_OUTBOX
+-- Caixa de saída dos e-mails quando MAIL_TRANSPORT=banco
+CREATE TABLE IF NOT EXISTS Email_Outbox (
+    id_email SERIAL PRIMARY KEY,
+    destinatario VARCHAR(100) NOT NULL,
+    assunto VARCHAR(200) NOT NULL,
+    corpo TEXT NOT NULL,
+    data_criacao TIMESTAMP NOT NULL DEFAULT NOW(),
+    data_envio TIMESTAMP
+);
+
+-- CREATE EXEMPLAR
+-- Cópias físicas dos livros, identificadas pelo número de tombo e pelo código de barras
+CREATE SEQUENCE IF NOT EXISTS seq_numero_tombo START 1;
+
+CREATE TABLE IF NOT EXISTS Exemplar (
+    id_exemplar SERIAL PRIMARY KEY,
+    id_livro INT NOT NULL REFERENCES Livro(id_livro),
+    numero_tombo VARCHAR(30) UNIQUE NOT NULL DEFAULT 'TB' || LPAD(nextval('seq_numero_tombo')::text, 6, '0'),
+    codigo_barras VARCHAR(50) UNIQUE,
+    localizacao VARCHAR(100),
+    estado_conservacao VARCHAR(20) NOT NULL DEFAULT 'bom'
+        CHECK (estado_conservacao IN ('novo', 'bom', 'regular', 'danificado')),
+    situacao VARCHAR(20) NOT NULL DEFAULT 'disponivel'
+        CHECK (situacao IN ('disponivel', 'emprestado', 'reservado', 'manutencao', 'extraviado', 'baixado')),
+    data_aquisicao DATE NOT NULL DEFAULT CURRENT_DATE
+);
+
+CREATE INDEX IF NOT EXISTS idx_exemplar_livro_situacao ON Exemplar (id_livro, situacao);
+
+-- As quantidades total e disponível do livro são calculadas a partir da situação dos exemplares:
+-- total = exemplares no acervo (exceto extraviados e baixados); disponível = exemplares na estante
+CREATE OR REPLACE FUNCTION atualizar_quantidades_livro() RETURNS TRIGGER AS $$
+DECLARE
+    livros INT[];
 BEGIN
-    NEW.senha := NEW.username || '1234';
-    RETURN NEW;
+    IF TG_OP = 'INSERT' THEN
+        livros := ARRAY[NEW.id_livro];
+    ELSIF TG_OP = 'DELETE' THEN
+        livros := ARRAY[OLD.id_livro];
+    ELSE
+        livros := ARRAY[OLD.id_livro, NEW.id_livro];
+    END IF;
+
+    UPDATE Livro l
+    SET quant_total = c.total,
+        quant_disponivel = c.disponivel,
+        status_livro_emprestado = CASE WHEN c.disponivel > 0 THEN 'Disponível' ELSE 'Emprestado' END
+    FROM (
+        SELECT lv.id_livro,
+               COUNT(e.id_exemplar) FILTER (WHERE e.situacao NOT IN ('extraviado', 'baixado')) AS total,
+               COUNT(e.id_exemplar) FILTER (WHERE e.situacao = 'disponivel') AS disponivel
+        FROM Livro lv
+        LEFT JOIN Exemplar e ON e.id_livro = lv.id_livro
+        WHERE lv.id_livro = ANY(livros)
+        GROUP BY lv.id_livro
+    ) c
+    WHERE l.id_livro = c.id_livro;
+
+    RETURN NULL;
 END;
 $$ LANGUAGE plpgsql;
 
--- Criar a trigger trigger_gerar_senha apenas se não existir
 DO $$
 BEGIN
-    IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'trigger_gerar_senha') THEN
-        CREATE TRIGGER trigger_gerar_senha
-        BEFORE INSERT ON Usuario
-        FOR EACH ROW
-        EXECUTE FUNCTION gerar_senha_padrao();
+    IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'trg_atualizar_quantidades_livro') THEN
+        CREATE TRIGGER trg_atualizar_quantidades_livro
+        AFTER INSERT OR DELETE OR UPDATE OF situacao, id_livro ON Exemplar
+        FOR EACH ROW EXECUTE FUNCTION atualizar_quantidades_livro();
     END IF;
 END $$;
 
+-- CREATE MULTA_LANCAMENTO
+-- Extrato de multas por atraso dos alunos: cobranças, pagamentos e isenções
+CREATE TABLE IF NOT EXISTS Multa_Lancamento (
+    id_lancamento SERIAL PRIMARY KEY,
+    id_aluno INT NOT NULL REFERENCES Aluno(id_aluno),
+    id_emprestimo INT REFERENCES Emprestimo(id_emprestimo),
+    tipo VARCHAR(20) NOT NULL CHECK (tipo IN ('cobranca', 'pagamento', 'isencao')),
+    valor DECIMAL(10,2) NOT NULL CHECK (valor > 0),
+    dias_atraso INT,
+    descricao VARCHAR(255),
+    id_usuario INT REFERENCES Usuario(id_usuario),
+    data_lancamento TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_multa_lancamento_aluno ON Multa_Lancamento (id_aluno);
+CREATE INDEX IF NOT EXISTS idx_multa_lancamento_emprestimo ON Multa_Lancamento (id_emprestimo);
+
+-- CREATE RENOVACAO_EMPRESTIMO
+-- Histórico das renovações dos empréstimos
+CREATE TABLE IF NOT EXISTS Renovacao_Emprestimo (
+    id_renovacao SERIAL PRIMARY KEY,
+    id_emprestimo INT NOT NULL REFERENCES Emprestimo(id_emprestimo),
+    data_devolucao_anterior DATE NOT NULL,
+    data_devolucao_nova DATE NOT NULL,
+    id_usuario INT REFERENCES Usuario(id_usuario),
+    data_renovacao TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_renovacao_emprestimo ON Renovacao_Emprestimo (id_emprestimo);
+
+-- CREATE RESERVA
+-- Fila de reservas dos livros sem exemplares disponíveis (ordem de chegada)
+CREATE TABLE IF NOT EXISTS Reserva (
+    id_reserva SERIAL PRIMARY KEY,
+    id_aluno INT NOT NULL REFERENCES Aluno(id_aluno),
+    id_livro INT NOT NULL REFERENCES Livro(id_livro),
+    status_reserva VARCHAR(20) NOT NULL DEFAULT 'aguardando'
+        CHECK (status_reserva IN ('aguardando', 'disponivel', 'atendida', 'expirada', 'cancelada')),
+    data_reserva TIMESTAMP NOT NULL DEFAULT NOW(),
+    data_disponibilidade TIMESTAMP,
+    data_expiracao TIMESTAMP,
+    data_encerramento TIMESTAMP,
+    id_emprestimo INT REFERENCES Emprestimo(id_emprestimo)
+);
+
+-- Cada aluno pode ter apenas uma reserva ativa por livro
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reserva_ativa_aluno_livro ON Reserva (id_aluno, id_livro)
+    WHERE status_reserva IN ('aguardando', 'disponivel');
+CREATE INDEX IF NOT EXISTS idx_reserva_fila ON Reserva (id_livro, status_reserva, data_reserva);
+
+-- CREATE AUTOR
+-- Autores dos livros; a coluna Livro.autor guarda os nomes já formatados para exibição e busca
+CREATE TABLE IF NOT EXISTS Autor (
+    id_autor SERIAL PRIMARY KEY,
+    nome VARCHAR (150) NOT NULL,
+    data_cadastro TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_autor_nome ON Autor (UPPER(nome));
+
+-- Autores de cada livro, na ordem em que aparecem na obra (posicao começa em 1)
+CREATE TABLE IF NOT EXISTS Livro_Autor (
+    id_livro INT NOT NULL REFERENCES Livro(id_livro),
+    id_autor INT NOT NULL REFERENCES Autor(id_autor),
+    posicao SMALLINT NOT NULL CHECK (posicao > 0),
+    PRIMARY KEY (id_livro, id_autor),
+    UNIQUE (id_livro, posicao)
+);
+
+CREATE INDEX IF NOT EXISTS idx_livro_autor_autor ON Livro_Autor (id_autor);
+
+-- CREATE EDITORA
+-- Editoras dos livros; a coluna Livro.editora guarda o nome para exibição e busca
+CREATE TABLE IF NOT EXISTS Editora (
+    id_editora SERIAL PRIMARY KEY,
+    nome VARCHAR (100) NOT NULL,
+    data_cadastro TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_editora_nome ON Editora (UPPER(nome));
+
+-- CREATE CATEGORIA
+-- Assuntos dos livros, organizados em árvore (id_categoria_pai nulo para as categorias principais)
+CREATE TABLE IF NOT EXISTS Categoria (
+    id_categoria SERIAL PRIMARY KEY,
+    nome VARCHAR (100) NOT NULL,
+    descricao VARCHAR (255),
+    id_categoria_pai INT REFERENCES Categoria(id_categoria),
+    CHECK (id_categoria_pai IS NULL OR id_categoria_pai <> id_categoria)
+);
+
+-- O mesmo nome não pode se repetir entre as subcategorias de uma mesma categoria
+CREATE UNIQUE INDEX IF NOT EXISTS uq_categoria_nome ON Categoria (COALESCE(id_categoria_pai, 0), UPPER(nome));
+CREATE INDEX IF NOT EXISTS idx_categoria_pai ON Categoria (id_categoria_pai);
+
+-- Assuntos de cada livro
+CREATE TABLE IF NOT EXISTS Livro_Categoria (
+    id_livro INT NOT NULL REFERENCES Livro(id_livro),
+    id_categoria INT NOT NULL REFERENCES Categoria(id_categoria),
+    PRIMARY KEY (id_livro, id_categoria)
+);
+
+CREATE INDEX IF NOT EXISTS idx_livro_categoria_categoria ON Livro_Categoria (id_categoria);
+
+-- Turmas dos alunos (ex.: 3º ano A - 2025/1), atribuídas na importação da lista de alunos
+CREATE TABLE IF NOT EXISTS Turma (
+    id_turma SERIAL PRIMARY KEY,
+    codigo VARCHAR(30) NOT NULL,
+    nome VARCHAR(100) NOT NULL,
+    periodo VARCHAR(20)
+);
+
+-- O código identifica a turma nos arquivos importados, sem diferenciar maiúsculas de minúsculas
+CREATE UNIQUE INDEX IF NOT EXISTS uq_turma_codigo ON Turma ((UPPER(codigo)));
+
 -- Criar as colunas na tabela Aluno, Emprestimo e Livro, se ainda não existirem
 ALTER TABLE IF EXISTS Aluno ADD COLUMN IF NOT EXISTS status_aluno BOOLEAN DEFAULT TRUE;
 ALTER TABLE IF EXISTS Emprestimo ADD COLUMN IF NOT EXISTS status_emprestimo_registro BOOLEAN DEFAULT TRUE;
 ALTER TABLE IF EXISTS Livro ADD COLUMN IF NOT EXISTS status_livro BOOLEAN DEFAULT TRUE;
 
+-- Nome do arquivo da capa do livro (uploads/cover), as miniaturas usam o mesmo nome com a largura como sufixo
+ALTER TABLE IF EXISTS Livro ADD COLUMN IF NOT EXISTS capa VARCHAR(100);
+
+-- Data e hora real da devolução (data_devolucao guarda a data prevista)
+ALTER TABLE IF EXISTS Emprestimo ADD COLUMN IF NOT EXISTS data_devolucao_real TIMESTAMP;
+
+-- Quantidade de renovações do empréstimo
+ALTER TABLE IF EXISTS Emprestimo ADD COLUMN IF NOT EXISTS quant_renovacoes INT NOT NULL DEFAULT 0;
+
+-- Índices da busca no catálogo (/lista/livros): trigram para as buscas por trecho de texto (ILIKE),
+-- ano de publicação numérico para o filtro por período e disponibilidade para o filtro de disponíveis
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS idx_livro_titulo_trgm ON Livro USING GIN (titulo gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_livro_autor_trgm ON Livro USING GIN (autor gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_livro_editora_trgm ON Livro USING GIN (editora gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_livro_isbn_trgm ON Livro USING GIN (isbn gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_livro_ano_publicacao
+    ON Livro ((NULLIF(regexp_replace(ano_publicacao, '[^0-9]', '', 'g'), '')::int))
+    WHERE status_livro = TRUE;
+CREATE INDEX IF NOT EXISTS idx_livro_titulo ON Livro (titulo) WHERE status_livro = TRUE;
+CREATE INDEX IF NOT EXISTS idx_livro_disponiveis ON Livro (quant_disponivel) WHERE status_livro = TRUE;
+
+-- Busca textual no catálogo (/busca/livros): configuração que ignora acentos e maiúsculas, sem stemming,
+-- pois o acervo tem títulos em vários idiomas
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_ts_config WHERE cfgname = 'busca_catalogo') THEN
+        CREATE TEXT SEARCH CONFIGURATION busca_catalogo (COPY = simple);
+        ALTER TEXT SEARCH CONFIGURATION busca_catalogo
+            ALTER MAPPING FOR hword, hword_part, word WITH unaccent, simple;
+    END IF;
+END $$;
+
+-- Documento de busca do livro: título com peso maior que autor e editora
+ALTER TABLE IF EXISTS Livro ADD COLUMN IF NOT EXISTS busca_documento tsvector;
+
+CREATE OR REPLACE FUNCTION gerar_documento_busca_livro(_titulo TEXT, _autor TEXT, _editora TEXT)
+RETURNS tsvector AS $$
+    SELECT setweight(to_tsvector('busca_catalogo', COALESCE(_titulo, '')), 'A') ||
+           setweight(to_tsvector('busca_catalogo', COALESCE(_autor, '')), 'B') ||
+           setweight(to_tsvector('busca_catalogo', COALESCE(_editora, '')), 'C');
+$$ LANGUAGE sql STABLE;
+
+-- Mantém o documento de busca atualizado a cada cadastro ou alteração do livro
+CREATE OR REPLACE FUNCTION atualizar_documento_busca_livro() RETURNS TRIGGER AS $$
+BEGIN
+    NEW.busca_documento := gerar_documento_busca_livro(NEW.titulo, NEW.autor, NEW.editora);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'trg_livro_documento_busca') THEN
+        CREATE TRIGGER trg_livro_documento_busca
+        BEFORE INSERT OR UPDATE OF titulo, autor, editora ON Livro
+        FOR EACH ROW EXECUTE FUNCTION atualizar_documento_busca_livro();
+    END IF;
+END $$;
+
+-- Gera o documento de busca dos livros cadastrados antes da busca textual
+UPDATE Livro SET busca_documento = gerar_documento_busca_livro(titulo, autor, editora)
+WHERE busca_documento IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_livro_busca_documento ON Livro USING GIN (busca_documento);
+
+-- Editora do livro
+ALTER TABLE IF EXISTS Livro ADD COLUMN IF NOT EXISTS id_editora INT REFERENCES Editora(id_editora);
+CREATE INDEX IF NOT EXISTS idx_livro_editora ON Livro (id_editora);
+
+-- Classificação do livro para a organização das estantes: código e sistema (CDD - Dewey ou CDU - Decimal Universal)
+ALTER TABLE IF EXISTS Livro ADD COLUMN IF NOT EXISTS classificacao VARCHAR(50);
+ALTER TABLE IF EXISTS Livro ADD COLUMN IF NOT EXISTS sistema_classificacao VARCHAR(3);
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'chk_livro_sistema_classificacao') THEN
+        ALTER TABLE Livro ADD CONSTRAINT chk_livro_sistema_classificacao
+            CHECK ((sistema_classificacao IN ('CDD', 'CDU') AND classificacao IS NOT NULL)
+                   OR (sistema_classificacao IS NULL AND classificacao IS NULL));
+    END IF;
+END $$;
+
+-- Exemplar retirado no empréstimo e exemplar separado para a reserva
+ALTER TABLE IF EXISTS Emprestimo ADD COLUMN IF NOT EXISTS id_exemplar INT REFERENCES Exemplar(id_exemplar);
+ALTER TABLE IF EXISTS Reserva ADD COLUMN IF NOT EXISTS id_exemplar INT REFERENCES Exemplar(id_exemplar);
+
+-- Turma do aluno e RA com o tamanho dos registros acadêmicos da instituição (informados na importação)
+ALTER TABLE IF EXISTS Aluno ADD COLUMN IF NOT EXISTS id_turma INT REFERENCES Turma(id_turma);
+CREATE INDEX IF NOT EXISTS idx_aluno_turma ON Aluno (id_turma);
+ALTER TABLE IF EXISTS Aluno ALTER COLUMN ra TYPE VARCHAR(20);
+CREATE INDEX IF NOT EXISTS idx_aluno_email ON Aluno (LOWER(email));
+
+-- Migração das senhas dos usuários: aumenta a coluna para comportar o hash e obriga
+-- os usuários com senha legada (texto puro) a definirem uma nova senha no próximo login
+ALTER TABLE IF EXISTS Usuario ALTER COLUMN senha TYPE VARCHAR(255);
+ALTER TABLE IF EXISTS Usuario ADD COLUMN IF NOT EXISTS troca_senha_obrigatoria BOOLEAN DEFAULT FALSE;
+UPDATE Usuario SET troca_senha_obrigatoria = TRUE WHERE senha NOT LIKE 'scrypt$%';
+
+-- Status do usuário no sistema (usuários desativados não conseguem realizar login)
+ALTER TABLE IF EXISTS Usuario ADD COLUMN IF NOT EXISTS status_usuario BOOLEAN DEFAULT TRUE;
+
+-- Perfil de acesso dos usuários (admin, bibliotecario ou aluno)
+ALTER TABLE IF EXISTS Usuario ADD COLUMN IF NOT EXISTS perfil VARCHAR(20) NOT NULL DEFAULT 'aluno';
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'chk_usuario_perfil') THEN
+        ALTER TABLE Usuario ADD CONSTRAINT chk_usuario_perfil CHECK (perfil IN ('admin', 'bibliotecario', 'aluno'));
+    END IF;
+END $$;
+
 -- ALUNO
 INSERT INTO Aluno (nome, sobrenome, data_nascimento, endereco, email, celular) 
 VALUES 
@@ -143,27 +468,28 @@ VALUES
 -- Inserindo Emprestimos
 INSERT INTO Emprestimo (id_aluno, id_livro, data_emprestimo, data_devolucao, status_emprestimo) 
 VALUES 
-(1, 2, '2024-09-01', '2024-09-15', 'Em andamento'),
-(2, 1, '2024-09-02', '2024-09-16', 'Em andamento'),
-(3, 5, '2024-09-03', '2024-09-17', 'Em andamento'),
-(5, 3, '2024-09-04', '2024-09-18', 'Em andamento'),
-(4, 6, '2024-09-05', '2024-09-19', 'Em andamento'),
-(6, 4, '2024-09-06', '2024-09-20', 'Em andamento'),
-(7, 8, '2024-09-07', '2024-09-21', 'Em andamento'),
-(8, 7, '2024-09-08', '2024-09-22', 'Em andamento'),
-(10, 9, '2024-09-09', '2024-09-23', 'Em andamento'),
-(9, 10, '2024-09-10', '2024-09-24', 'Em andamento'),
-(1, 10, '2024-09-11', '2024-09-25', 'Em andamento'),
-(2, 3, '2024-09-11', '2024-09-25', 'Em andamento'),
-(4, 5, '2024-09-11', '2024-09-25', 'Em andamento'),
-(6, 2, '2024-09-11', '2024-09-25', 'Em andamento');
+(1, 2, '2024-09-01', '2024-09-15', 'ativo'),
+(2, 1, '2024-09-02', '2024-09-16', 'ativo'),
+(3, 5, '2024-09-03', '2024-09-17', 'ativo'),
+(5, 3, '2024-09-04', '2024-09-18', 'ativo'),
+(4, 6, '2024-09-05', '2024-09-19', 'ativo'),
+(6, 4, '2024-09-06', '2024-09-20', 'ativo'),
+(7, 8, '2024-09-07', '2024-09-21', 'ativo'),
+(8, 7, '2024-09-08', '2024-09-22', 'ativo'),
+(10, 9, '2024-09-09', '2024-09-23', 'ativo'),
+(9, 10, '2024-09-10', '2024-09-24', 'ativo'),
+(1, 10, '2024-09-11', '2024-09-25', 'ativo'),
+(2, 3, '2024-09-11', '2024-09-25', 'ativo'),
+(4, 5, '2024-09-11', '2024-09-25', 'ativo'),
+(6, 2, '2024-09-11', '2024-09-25', 'ativo');
 
 -- Inserindo usuarios
-INSERT INTO usuario (nome, username, email) 
+-- A senha inicial (username || '1234') é temporária: no primeiro login o usuário deve definir uma nova senha
+INSERT INTO usuario (nome, username, email, senha, troca_senha_obrigatoria, perfil) 
 VALUES
-('João Silva', 'joao.silva', 'joao.silva@email.com'),
-('Maria Oliveira', 'maria.oliveira', 'maria.oliveira@email.com'),
-('Carlos Souza', 'carlos.souza', 'carlos.souza@email.com');
+('João Silva', 'joao.silva', 'joao.silva@email.com', 'joao.silva1234', TRUE, 'admin'),
+('Maria Oliveira', 'maria.oliveira', 'maria.oliveira@email.com', 'maria.oliveira1234', TRUE, 'bibliotecario'),
+('Carlos Souza', 'carlos.souza', 'carlos.souza@email.com', 'carlos.souza1234', TRUE, 'aluno');
 
 -- Aluno
 INSERT INTO Aluno (nome, sobrenome, data_nascimento, endereco, email, celular) 
@@ -196,17 +522,185 @@ VALUES
 --Empréstimo 
 INSERT INTO Emprestimo (id_aluno, id_livro, data_emprestimo, data_devolucao, status_emprestimo) 
 VALUES 
-(11, 12, '2024-09-01', '2024-09-15', 'Concluído'),
-(13, 14, '2024-09-02', '2024-09-16', 'Concluído'),
-(15, 11, '2024-09-03', '2024-09-17', 'Atrasado'),
-(17, 13, '2024-09-04', '2024-09-18', 'Atrasado'),
-(19, 15, '2024-09-05', '2024-09-19', 'Concluído'),
-(12, 16, '2024-09-06', '2024-09-20', 'Em andamento'),
-(14, 18, '2024-09-07', '2024-09-21', 'Em andamento'),
-(16, 17, '2024-09-08', '2024-09-22', 'Atrasado'),
-(18, 20, '2024-09-09', '2024-09-23', 'Concluído'),
-(20, 19, '2024-09-10', '2024-09-24', 'Em andamento'),
-(11, 18, '2024-09-11', '2024-09-25', 'Concluído'),
-(13, 17, '2024-09-11', '2024-09-25', 'Atrasado'),
-(15, 16, '2024-09-11', '2024-09-25', 'Em andamento'),
-(17, 14, '2024-09-11', '2024-09-25', 'Concluído');
\ No newline at end of file
+(11, 12, '2024-09-01', '2024-09-15', 'devolvido'),
+(13, 14, '2024-09-02', '2024-09-16', 'devolvido'),
+(15, 11, '2024-09-03', '2024-09-17', 'atrasado'),
+(17, 13, '2024-09-04', '2024-09-18', 'atrasado'),
+(19, 15, '2024-09-05', '2024-09-19', 'devolvido'),
+(12, 16, '2024-09-06', '2024-09-20', 'ativo'),
+(14, 18, '2024-09-07', '2024-09-21', 'ativo'),
+(16, 17, '2024-09-08', '2024-09-22', 'atrasado'),
+(18, 20, '2024-09-09', '2024-09-23', 'devolvido'),
+(20, 19, '2024-09-10', '2024-09-24', 'ativo'),
+(11, 18, '2024-09-11', '2024-09-25', 'devolvido'),
+(13, 17, '2024-09-11', '2024-09-25', 'atrasado'),
+(15, 16, '2024-09-11', '2024-09-25', 'ativo'),
+(17, 14, '2024-09-11', '2024-09-25', 'devolvido');
+
+-- Migração do status dos empréstimos: o texto livre é substituído pelos status ativo, atrasado e devolvido.
+-- Valores antigos ('Em andamento', 'Atrasado', 'Concluído') são convertidos e valores desconhecidos
+-- são calculados a partir das datas de devolução
+UPDATE Emprestimo
+SET status_emprestimo = CASE
+        WHEN status_emprestimo IN ('Concluído', 'Concluido', 'devolvido') OR data_devolucao_real IS NOT NULL THEN 'devolvido'
+        WHEN status_emprestimo IN ('Atrasado', 'atrasado') OR data_devolucao < CURRENT_DATE THEN 'atrasado'
+        ELSE 'ativo'
+    END
+WHERE status_emprestimo IS NULL OR status_emprestimo NOT IN ('ativo', 'atrasado', 'devolvido');
+
+ALTER TABLE IF EXISTS Emprestimo ALTER COLUMN status_emprestimo SET DEFAULT 'ativo';
+ALTER TABLE IF EXISTS Emprestimo ALTER COLUMN status_emprestimo SET NOT NULL;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'chk_emprestimo_status') THEN
+        ALTER TABLE Emprestimo ADD CONSTRAINT chk_emprestimo_status
+            CHECK (status_emprestimo IN ('ativo', 'atrasado', 'devolvido'));
+    END IF;
+END $$;
+
+-- Empréstimos devolvidos antes do registro da devolução real assumem a data prevista
+UPDATE Emprestimo SET data_devolucao_real = data_devolucao
+WHERE status_emprestimo = 'devolvido' AND data_devolucao_real IS NULL;
+
+-- Migração para o controle de exemplares: cada livro sem exemplares recebe quant_total exemplares
+INSERT INTO Exemplar (id_livro)
+SELECT l.id_livro
+FROM Livro l
+CROSS JOIN LATERAL generate_series(1, GREATEST(l.quant_total, 0))
+WHERE NOT EXISTS (SELECT 1 FROM Exemplar e WHERE e.id_livro = l.id_livro)
+ORDER BY l.id_livro;
+
+-- Vincula os empréstimos em aberto aos exemplares disponíveis do livro
+WITH emprestimos AS (
+    SELECT id_emprestimo, id_livro, ROW_NUMBER() OVER (PARTITION BY id_livro ORDER BY id_emprestimo) AS ordem
+    FROM Emprestimo
+    WHERE id_exemplar IS NULL AND status_emprestimo <> 'devolvido' AND status_emprestimo_registro = TRUE
+), exemplares AS (
+    SELECT id_exemplar, id_livro, ROW_NUMBER() OVER (PARTITION BY id_livro ORDER BY id_exemplar) AS ordem
+    FROM Exemplar
+    WHERE situacao = 'disponivel'
+)
+UPDATE Emprestimo em
+SET id_exemplar = ex.id_exemplar
+FROM emprestimos e
+JOIN exemplares ex ON ex.id_livro = e.id_livro AND ex.ordem = e.ordem
+WHERE em.id_emprestimo = e.id_emprestimo;
+
+UPDATE Exemplar x SET situacao = 'emprestado'
+WHERE x.situacao = 'disponivel'
+AND EXISTS (
+    SELECT 1 FROM Emprestimo e
+    WHERE e.id_exemplar = x.id_exemplar AND e.status_emprestimo <> 'devolvido' AND e.status_emprestimo_registro = TRUE
+);
+
+-- Vincula as reservas com exemplar separado aos exemplares ainda disponíveis
+WITH reservas AS (
+    SELECT id_reserva, id_livro, ROW_NUMBER() OVER (PARTITION BY id_livro ORDER BY id_reserva) AS ordem
+    FROM Reserva
+    WHERE id_exemplar IS NULL AND status_reserva = 'disponivel'
+), exemplares AS (
+    SELECT id_exemplar, id_livro, ROW_NUMBER() OVER (PARTITION BY id_livro ORDER BY id_exemplar) AS ordem
+    FROM Exemplar
+    WHERE situacao = 'disponivel'
+)
+UPDATE Reserva r
+SET id_exemplar = ex.id_exemplar
+FROM reservas rs
+JOIN exemplares ex ON ex.id_livro = rs.id_livro AND ex.ordem = rs.ordem
+WHERE r.id_reserva = rs.id_reserva;
+
+UPDATE Exemplar x SET situacao = 'reservado'
+WHERE x.situacao = 'disponivel'
+AND EXISTS (SELECT 1 FROM Reserva r WHERE r.id_exemplar = x.id_exemplar AND r.status_reserva = 'disponivel');
+
+-- Recalcula as quantidades dos livros a partir da situação dos exemplares
+UPDATE Livro l
+SET quant_total = c.total,
+    quant_disponivel = c.disponivel,
+    status_livro_emprestado = CASE WHEN c.disponivel > 0 THEN 'Disponível' ELSE 'Emprestado' END
+FROM (
+    SELECT lv.id_livro,
+           COUNT(e.id_exemplar) FILTER (WHERE e.situacao NOT IN ('extraviado', 'baixado')) AS total,
+           COUNT(e.id_exemplar) FILTER (WHERE e.situacao = 'disponivel') AS disponivel
+    FROM Livro lv
+    LEFT JOIN Exemplar e ON e.id_livro = lv.id_livro
+    GROUP BY lv.id_livro
+) c
+WHERE l.id_livro = c.id_livro;
+
+-- Migração dos ISBNs para o formato canônico (ISBN-13 somente com dígitos): remove hífens e espaços,
+-- converte os ISBN-10 para ISBN-13 e troca os ISBNs vazios por NULL
+CREATE OR REPLACE FUNCTION normalizar_isbn(_isbn TEXT) RETURNS TEXT AS $$
+DECLARE
+    digitos TEXT := upper(regexp_replace(COALESCE(_isbn, ''), '[^0-9Xx]', '', 'g'));
+    soma INT := 0;
+BEGIN
+    IF digitos = '' THEN
+        RETURN NULL;
+    END IF;
+
+    IF digitos ~ '^[0-9]{9}[0-9X]$' THEN
+        digitos := '978' || substr(digitos, 1, 9);
+        FOR i IN 1..12 LOOP
+            soma := soma + substr(digitos, i, 1)::int * CASE WHEN i % 2 = 1 THEN 1 ELSE 3 END;
+        END LOOP;
+        RETURN digitos || ((10 - soma % 10) % 10)::text;
+    END IF;
+
+    RETURN digitos;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+UPDATE Livro SET isbn = normalizar_isbn(isbn)
+WHERE isbn IS DISTINCT FROM normalizar_isbn(isbn);
+
+-- ISBN único entre os livros ativos; o índice só é criado quando não há duplicados já cadastrados,
+-- que precisam ser corrigidos manualmente
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'uq_livro_isbn') THEN
+        IF EXISTS (
+            SELECT isbn FROM Livro
+            WHERE isbn IS NOT NULL AND status_livro = TRUE
+            GROUP BY isbn HAVING COUNT(*) > 1
+        ) THEN
+            RAISE NOTICE 'Existem livros ativos com o mesmo ISBN: o índice uq_livro_isbn não foi criado.';
+        ELSE
+            CREATE UNIQUE INDEX uq_livro_isbn ON Livro (isbn) WHERE isbn IS NOT NULL AND status_livro = TRUE;
+        END IF;
+    END IF;
+END $$;
+
+-- Migração dos autores e editoras: cria os autores separando os nomes da coluna Livro.autor
+-- (separados por vírgula ou ponto e vírgula), mantendo a ordem, e as editoras a partir de Livro.editora
+INSERT INTO Autor (nome)
+SELECT DISTINCT ON (UPPER(TRIM(nomes.nome))) TRIM(nomes.nome)
+FROM Livro l
+CROSS JOIN LATERAL regexp_split_to_table(l.autor, '\s*[,;]\s*') AS nomes(nome)
+WHERE TRIM(nomes.nome) <> ''
+ORDER BY UPPER(TRIM(nomes.nome)), l.id_livro
+ON CONFLICT ((UPPER(nome))) DO NOTHING;
+
+INSERT INTO Livro_Autor (id_livro, id_autor, posicao)
+SELECT l.id_livro, a.id_autor, MIN(nomes.posicao)
+FROM Livro l
+CROSS JOIN LATERAL (
+    SELECT TRIM(nome) AS nome, ROW_NUMBER() OVER (ORDER BY ordem) AS posicao
+    FROM regexp_split_to_table(l.autor, '\s*[,;]\s*') WITH ORDINALITY AS partes(nome, ordem)
+    WHERE TRIM(nome) <> ''
+) nomes
+JOIN Autor a ON UPPER(a.nome) = UPPER(nomes.nome)
+WHERE NOT EXISTS (SELECT 1 FROM Livro_Autor la WHERE la.id_livro = l.id_livro)
+GROUP BY l.id_livro, a.id_autor;
+
+INSERT INTO Editora (nome)
+SELECT DISTINCT ON (UPPER(TRIM(editora))) TRIM(editora)
+FROM Livro
+WHERE TRIM(editora) <> ''
+ORDER BY UPPER(TRIM(editora)), id_livro
+ON CONFLICT ((UPPER(nome))) DO NOTHING;
+
+UPDATE Livro l SET id_editora = e.id_editora
+FROM Editora e
+WHERE l.id_editora IS NULL AND UPPER(e.nome) = UPPER(TRIM(l.editora));
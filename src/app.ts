@@ -1,6 +1,8 @@
 import { server } from "./server";
 import { DataBaseModel } from "./model/DataBaseModel";
 import dotenv from 'dotenv';
+import { VerificacaoAtrasos } from "./jobs/VerificacaoAtrasos";
+import { LimpezaCapas } from "./jobs/LimpezaCapas";
 
 dotenv.config();
 
@@ -15,6 +17,10 @@ new DataBaseModel().testeConexao().then((resdb) => {
         server.listen(port, () => {
             console.log(`Servidor iniciado no endereço ${process.env.SERVER_URL}:${port}`);
         });
+        // inicia a verificação periódica de empréstimos atrasados
+        VerificacaoAtrasos.iniciar();
+        // inicia a limpeza periódica dos arquivos de capa sem livro
+        LimpezaCapas.iniciar();
     } else {
         console.log("Erro ao conectar com o banco de dados");
     }
@@ -1,22 +1,92 @@
 const SERVER_ROUTES = {
     LOGIN: '/login',
+    RENOVAR_TOKEN: '/renova/token',
+    LOGOUT: '/logout',
+    LOGOUT_TODAS: '/logout/todas',
 
     NOVO_ALUNO: '/novo/aluno',
     ATUALIZAR_ALUNO: '/atualiza/aluno',
     REMOVER_ALUNO: '/remove/aluno',
     LISTAR_ALUNOS: '/lista/alunos',
+    CONSULTAR_ALUNO: '/consulta/aluno',
+    IMPORTAR_ALUNOS: '/importa/alunos',
+
+    LISTAR_TURMAS: '/lista/turmas',
+    NOVA_TURMA: '/nova/turma',
+    ATUALIZAR_TURMA: '/atualiza/turma',
+    REMOVER_TURMA: '/remove/turma',
 
     NOVO_LIVRO: '/novo/livro',
     ATUALIZAR_LIVRO: '/atualiza/livro',
     REMOVER_LIVRO: '/remove/livro',
     LISTAR_LIVROS: '/lista/livros',
+    CONSULTAR_LIVRO: '/consulta/livro',
+    BUSCAR_LIVROS: '/busca/livros',
+    ATUALIZAR_CAPA: '/atualiza/capa',
+    REMOVER_CAPA: '/remove/capa',
+    LIMPAR_CAPAS: '/limpa/capas',
+    EXPORTAR_MARC: '/exporta/marc',
+    IMPORTAR_MARC: '/importa/marc',
+    IMPORTAR_LIVROS: '/importa/livros',
+
+    LISTAR_EXEMPLARES: '/lista/exemplares',
+    NOVO_EXEMPLAR: '/novo/exemplar',
+    ATUALIZAR_EXEMPLAR: '/atualiza/exemplar',
+
+    LISTAR_AUTORES: '/lista/autores',
+    NOVO_AUTOR: '/novo/autor',
+    ATUALIZAR_AUTOR: '/atualiza/autor',
+    REMOVER_AUTOR: '/remove/autor',
+
+    LISTAR_EDITORAS: '/lista/editoras',
+    NOVA_EDITORA: '/nova/editora',
+    ATUALIZAR_EDITORA: '/atualiza/editora',
+    REMOVER_EDITORA: '/remove/editora',
+
+    LISTAR_CATEGORIAS: '/lista/categorias',
+    NOVA_CATEGORIA: '/nova/categoria',
+    ATUALIZAR_CATEGORIA: '/atualiza/categoria',
+    REMOVER_CATEGORIA: '/remove/categoria',
 
     NOVO_EMPRESTIMO: '/novo/emprestimo',
     ATUALIZAR_EMPRESTIMO: '/atualiza/emprestimo',
     LISTAR_EMPRESTIMOS: '/lista/emprestimos',
+    CONSULTAR_EMPRESTIMO: '/consulta/emprestimo',
     REMOVER_EMPRESTIMO: '/remove/emprestimo',
+    DEVOLVER_EMPRESTIMO: '/devolve/emprestimo',
+    RENOVAR_EMPRESTIMO: '/renova/emprestimo',
+    LISTAR_RENOVACOES: '/lista/renovacoes',
+    VERIFICAR_ATRASOS: '/verifica/atrasos',
+    RELATORIO_ATRASOS: '/relatorio/atrasos',
+
+    NOVA_RESERVA: '/nova/reserva',
+    LISTAR_RESERVAS: '/lista/reservas',
+    CANCELAR_RESERVA: '/cancela/reserva',
+
+    SALDO_MULTA: '/saldo/multa',
+    PAGAMENTO_MULTA: '/pagamento/multa',
+    ISENCAO_MULTA: '/isencao/multa',
     
-    NOVO_USUARIO: '/novo/usuario'
+    NOVO_USUARIO: '/novo/usuario',
+    LISTAR_USUARIOS: '/lista/usuarios',
+    CONSULTAR_USUARIO: '/consulta/usuario',
+    ATUALIZAR_USUARIO: '/atualiza/usuario',
+    DESATIVAR_USUARIO: '/desativa/usuario',
+    REATIVAR_USUARIO: '/reativa/usuario',
+    ATUALIZAR_SENHA: '/atualiza/senha',
+    SOLICITAR_REDEFINICAO_SENHA: '/solicita/redefinicao/senha',
+    CONFIRMAR_REDEFINICAO_SENHA: '/redefine/senha'
 }
 
-export { SERVER_ROUTES }
\ No newline at end of file
+/**
+ * Perfis de acesso dos usuários do sistema
+ */
+const PERFIS_USUARIO = {
+    ADMIN: 'admin',
+    BIBLIOTECARIO: 'bibliotecario',
+    ALUNO: 'aluno'
+} as const;
+
+type PerfilUsuario = typeof PERFIS_USUARIO[keyof typeof PERFIS_USUARIO];
+
+export { SERVER_ROUTES, PERFIS_USUARIO, PerfilUsuario }
\ No newline at end of file
@@ -0,0 +1,38 @@
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+/**
+ * Converte uma variável de ambiente numérica, utilizando o valor padrão caso não seja informada ou seja inválida
+ *
+ * @param nome Nome da variável de ambiente
+ * @param padrao Valor padrão
+ * @returns Valor numérico da variável
+ */
+function numeroAmbiente(nome: string, padrao: number): number {
+    const valor = Number(process.env[nome]);
+    return process.env[nome] && !isNaN(valor) ? valor : padrao;
+}
+
+/**
+ * Regras de empréstimo da biblioteca, configuráveis pelas variáveis de ambiente
+ */
+export const POLITICA_EMPRESTIMO = {
+    // Intervalo, em minutos, entre as verificações automáticas de empréstimos atrasados
+    INTERVALO_VERIFICACAO_ATRASOS_MIN: numeroAmbiente('INTERVALO_VERIFICACAO_ATRASOS_MIN', 60),
+
+    // Valor da multa cobrada por dia de atraso na devolução
+    MULTA_VALOR_DIARIO: numeroAmbiente('MULTA_VALOR_DIARIO', 1.00),
+
+    // Quantidade de dias acrescentados à data de devolução a cada renovação
+    PRAZO_RENOVACAO_DIAS: numeroAmbiente('PRAZO_RENOVACAO_DIAS', 7),
+
+    // Quantidade máxima de renovações permitidas por empréstimo
+    MAX_RENOVACOES: numeroAmbiente('MAX_RENOVACOES', 2),
+
+    // Quantidade de dias que o aluno tem para retirar o exemplar separado por reserva
+    RESERVA_VALIDADE_DIAS: numeroAmbiente('RESERVA_VALIDADE_DIAS', 3),
+
+    // Quantidade máxima de empréstimos em aberto por aluno
+    LIMITE_EMPRESTIMOS_ALUNO: numeroAmbiente('LIMITE_EMPRESTIMOS_ALUNO', 3)
+};
@@ -1,7 +1,6 @@
 import multer from 'multer'; // Importa o Multer, responsável por lidar com uploads
 import path from 'path'; // Módulo para trabalhar com caminhos de arquivos
 import crypto from 'crypto'; // Módulo para gerar valores aleatórios
-import { customAlphabet } from 'nanoid';
 
 // Define a configuração de armazenamento dos arquivos
 const storage = multer.diskStorage({
@@ -28,20 +27,25 @@ const storage = multer.diskStorage({
 // Cria o middleware de upload com a configuração de armazenamento definida
 export const upload = multer({ storage });
 
-// Define a configuração de armazenamento dos arquivos
-const gerarNomeAleatorio = customAlphabet('ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789', 16);
-
-const storageCapa = multer.diskStorage({
-  destination: (req, file, cb) => {
-    cb(null, path.resolve(__dirname, '..', '..', 'uploads/cover'));
-  },
+/**
+ * Tamanho máximo das imagens de capa dos livros, em MB (padrão: 5)
+ */
+const TAMANHO_MAXIMO_CAPA_MB = parseInt(process.env.CAPA_TAMANHO_MAXIMO_MB ?? '5');
 
-  filename: (req, file, cb) => {
-    const ext = path.extname(file.originalname); // mantém a extensão original
-    const nomeAleatorio = gerarNomeAleatorio();  // exemplo: A9fKj23LZxTqW1Gh
-    const filename = `${nomeAleatorio}${ext}`;   // exemplo final: A9fKj23LZxTqW1Gh.jpg
-    cb(null, filename);
-  }
+// As capas ficam em memória até a validação do conteúdo: somente a imagem convertida e as miniaturas
+// são gravadas em uploads/cover (ver CapaLivro)
+export const uploadCapa = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: TAMANHO_MAXIMO_CAPA_MB * 1024 * 1024, files: 1 }
 });
 
-export const uploadCapa = multer({ storage: storageCapa });
+/**
+ * Tamanho máximo dos arquivos de importação do catálogo, em MB (padrão: 10)
+ */
+const TAMANHO_MAXIMO_IMPORTACAO_MB = parseInt(process.env.IMPORTACAO_TAMANHO_MAXIMO_MB ?? '10');
+
+// Arquivos de importação (MARC, CSV) são processados em memória e não ficam gravados no servidor
+export const uploadImportacao = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: TAMANHO_MAXIMO_IMPORTACAO_MB * 1024 * 1024 }
+});
@@ -21,13 +21,15 @@ class AlunoController extends Aluno {
 
     /**
      * Lista todos os alunos.
+     * O parâmetro idTurma pode ser informado na query string para listar somente os alunos da turma.
      * @param req Objeto de requisição HTTP.
      * @param res Objeto de resposta HTTP.
      * @returns Lista de alunos em formato JSON.
      */
     static async todos(req: Request, res: Response) {
         try {
-            const listaDeAlunos = await Aluno.listarAlunos();
+            const idTurma = parseInt(req.query.idTurma as string) || undefined;
+            const listaDeAlunos = await Aluno.listarAlunos(idTurma);
 
             res.status(200).json(listaDeAlunos);
         } catch (error) {
@@ -37,6 +39,35 @@ class AlunoController extends Aluno {
         }
     }
 
+    /**
+     * Consulta um aluno, com a turma e os empréstimos em andamento.
+     * O aluno é informado na query string pelo ID (idAluno) ou pelo RA (ra).
+     * @param req Objeto de requisição HTTP.
+     * @param res Objeto de resposta HTTP.
+     * @returns Detalhes do aluno em formato JSON.
+     */
+    static async aluno(req: Request, res: Response): Promise<Response> {
+        try {
+            const idAluno = parseInt(req.query.idAluno as string) || undefined;
+            const ra = (req.query.ra as string | undefined)?.trim() || undefined;
+
+            if (!idAluno && !ra) {
+                return res.status(400).json({ mensagem: 'Informe o ID ou o RA do aluno.' });
+            }
+
+            const aluno = await Aluno.consultarAluno({ idAluno, ra });
+
+            if (!aluno) {
+                return res.status(404).json({ mensagem: 'Aluno não encontrado.', codigo: 'ALUNO_NAO_ENCONTRADO' });
+            }
+
+            return res.status(200).json(aluno);
+        } catch (error) {
+            console.log(`Erro ao consultar o aluno: ${error}`);
+            return res.status(500).json({ mensagem: 'Erro ao consultar o aluno.' });
+        }
+    }
+
    /**
      * Cadastra um novo aluno.
      * @param req Objeto de requisição HTTP com os dados do aluno.
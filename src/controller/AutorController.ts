@@ -0,0 +1,133 @@
+import { Autor } from "../model/Autor";
+import { Request, Response } from "express";
+import { ErroRegraNegocio } from "../util/ErroRegraNegocio";
+
+/**
+ * Interface AutorDTO
+ * Define os atributos que devem ser recebidos do cliente nas requisições
+ */
+interface AutorDTO {
+    nome: string;
+}
+
+/**
+ * Controlador para operações relacionadas aos autores.
+ * Os livros de um autor são consultados na listagem de livros, com o filtro idAutor.
+ */
+class AutorController extends Autor {
+
+    /**
+     * Lista os autores cadastrados.
+     * O parâmetro busca (trecho do nome) pode ser informado na query string.
+     *
+     * @param req Objeto de requisição HTTP.
+     * @param res Objeto de resposta HTTP.
+     * @returns Lista de autores em formato JSON.
+     */
+    static async todos(req: Request, res: Response): Promise<Response> {
+        try {
+            const busca = (req.query.busca as string | undefined)?.trim();
+            const listaDeAutores = await Autor.listarAutores(busca);
+
+            return res.status(200).json(listaDeAutores);
+        } catch (error) {
+            console.error('Erro ao listar autores:', error);
+            return res.status(500).json({ mensagem: 'Erro ao listar os autores.' });
+        }
+    }
+
+    /**
+     * Cadastra um novo autor.
+     *
+     * @param req Objeto de requisição HTTP com o nome do autor.
+     * @param res Objeto de resposta HTTP.
+     * @returns Autor cadastrado ou mensagem de erro.
+     */
+    static async cadastrar(req: Request, res: Response): Promise<Response> {
+        try {
+            const dadosRecebidos: AutorDTO = req.body;
+
+            if (!dadosRecebidos.nome?.trim()) {
+                return res.status(400).json({ mensagem: 'Informe o nome do autor.' });
+            }
+
+            const autor = await Autor.cadastrarAutor(dadosRecebidos.nome);
+
+            return res.status(201).json({ mensagem: 'Autor cadastrado com sucesso', autor });
+        } catch (error) {
+            // autor já cadastrado
+            if (error instanceof ErroRegraNegocio) {
+                return res.status(error.status).json({ mensagem: error.message, codigo: error.codigo });
+            }
+
+            console.error('Erro ao cadastrar autor:', error);
+            return res.status(500).json({ mensagem: 'Erro ao cadastrar o autor.' });
+        }
+    }
+
+    /**
+     * Altera o nome de um autor.
+     * O ID do autor deve ser informado na query string.
+     *
+     * @param req Objeto de requisição HTTP com o novo nome.
+     * @param res Objeto de resposta HTTP.
+     * @returns Mensagem de sucesso ou de erro.
+     */
+    static async atualizar(req: Request, res: Response): Promise<Response> {
+        try {
+            const idAutor = parseInt(req.query.idAutor as string);
+            const dadosRecebidos: AutorDTO = req.body;
+
+            if (!idAutor) {
+                return res.status(400).json({ mensagem: 'Informe o ID do autor.' });
+            }
+            if (!dadosRecebidos.nome?.trim()) {
+                return res.status(400).json({ mensagem: 'Informe o nome do autor.' });
+            }
+
+            await Autor.atualizarAutor(idAutor, dadosRecebidos.nome);
+
+            return res.status(200).json({ mensagem: 'Autor atualizado com sucesso' });
+        } catch (error) {
+            // autor inexistente ou nome já cadastrado
+            if (error instanceof ErroRegraNegocio) {
+                return res.status(error.status).json({ mensagem: error.message, codigo: error.codigo });
+            }
+
+            console.error('Erro ao atualizar autor:', error);
+            return res.status(500).json({ mensagem: 'Erro ao atualizar o autor.' });
+        }
+    }
+
+    /**
+     * Remove um autor sem livros ativos.
+     * O ID do autor deve ser informado na query string.
+     *
+     * @param req Objeto de requisição HTTP.
+     * @param res Objeto de resposta HTTP.
+     * @returns Mensagem de sucesso ou de erro.
+     */
+    static async remover(req: Request, res: Response): Promise<Response> {
+        try {
+            const idAutor = parseInt(req.query.idAutor as string);
+
+            if (!idAutor) {
+                return res.status(400).json({ mensagem: 'Informe o ID do autor.' });
+            }
+
+            await Autor.removerAutor(idAutor);
+
+            return res.status(200).json({ mensagem: 'Autor removido com sucesso' });
+        } catch (error) {
+            // autor inexistente ou com livros ativos
+            if (error instanceof ErroRegraNegocio) {
+                return res.status(error.status).json({ mensagem: error.message, codigo: error.codigo });
+            }
+
+            console.error('Erro ao remover autor:', error);
+            return res.status(500).json({ mensagem: 'Erro ao remover o autor.' });
+        }
+    }
+}
+
+export default AutorController;
@@ -0,0 +1,85 @@
+import { CatalogoMarc } from "../model/CatalogoMarc";
+import { Marc } from "../util/Marc";
+import { Request, Response } from "express";
+
+/**
+ * Formatos de exportação e os tipos de conteúdo correspondentes
+ */
+const FORMATOS_EXPORTACAO = {
+    marc21: { tipoConteudo: 'application/marc', extensao: 'mrc' },
+    marcxml: { tipoConteudo: 'application/marcxml+xml; charset=utf-8', extensao: 'xml' }
+} as const;
+
+/**
+ * Controlador para o intercâmbio do catálogo com outras bibliotecas no formato MARC 21.
+ */
+class CatalogoMarcController extends CatalogoMarc {
+
+    /**
+     * Exporta os livros ativos como arquivo MARC 21 (ISO 2709) ou MARCXML.
+     * Parâmetros da query string: formato (marc21 ou marcxml, padrão: marc21) e idLivro
+     * (IDs separados por vírgula; todos os livros quando não informado).
+     *
+     * @param req Objeto de requisição HTTP.
+     * @param res Objeto de resposta HTTP.
+     * @returns Arquivo com os registros MARC.
+     */
+    static async exportar(req: Request, res: Response): Promise<Response> {
+        try {
+            const formato = ((req.query.formato as string) || 'marc21').toLowerCase();
+
+            if (!(formato in FORMATOS_EXPORTACAO)) {
+                return res.status(400).json({ mensagem: `O parâmetro formato deve ser um destes valores: ${Object.keys(FORMATOS_EXPORTACAO).join(', ')}.` });
+            }
+
+            let idsLivros: number[] | undefined = undefined;
+            if (req.query.idLivro) {
+                idsLivros = String(req.query.idLivro).split(',').map((id) => Number(id.trim()));
+
+                if (idsLivros.some((id) => !Number.isInteger(id) || id < 1)) {
+                    return res.status(400).json({ mensagem: 'O parâmetro idLivro deve conter IDs de livros separados por vírgula.' });
+                }
+            }
+
+            const registros = await CatalogoMarc.exportarLivros(idsLivros);
+            const { tipoConteudo, extensao } = FORMATOS_EXPORTACAO[formato as keyof typeof FORMATOS_EXPORTACAO];
+            const conteudo = formato === 'marcxml' ? Buffer.from(Marc.gerarMARCXML(registros), 'utf8') : Marc.gerarISO2709(registros);
+
+            res.setHeader('Content-Type', tipoConteudo);
+            res.setHeader('Content-Disposition', `attachment; filename="catalogo.${extensao}"`);
+            return res.status(200).send(conteudo);
+        } catch (error) {
+            console.error('Erro ao exportar catálogo MARC:', error);
+            return res.status(500).json({ mensagem: 'Erro ao exportar o catálogo.' });
+        }
+    }
+
+    /**
+     * Importa os livros de um arquivo MARC 21 (ISO 2709) ou MARCXML enviado no campo "arquivo".
+     * O formato é identificado pelo conteúdo do arquivo.
+     *
+     * @param req Objeto de requisição HTTP com o arquivo.
+     * @param res Objeto de resposta HTTP.
+     * @returns Relatório com os registros criados, atualizados e rejeitados.
+     */
+    static async importar(req: Request, res: Response): Promise<Response> {
+        try {
+            if (!req.file || req.file.size === 0) {
+                return res.status(400).json({ mensagem: 'Envie o arquivo MARC no campo arquivo.' });
+            }
+
+            const relatorio = await CatalogoMarc.importarArquivo(req.file.buffer);
+
+            if (relatorio.total === 0) {
+                return res.status(400).json({ mensagem: 'Nenhum registro MARC encontrado no arquivo.' });
+            }
+
+            return res.status(200).json(relatorio);
+        } catch (error) {
+            console.error('Erro ao importar catálogo MARC:', error);
+            return res.status(500).json({ mensagem: 'Erro ao importar o arquivo.' });
+        }
+    }
+}
+
+export default CatalogoMarcController;
@@ -0,0 +1,153 @@
+import { Categoria, DadosCategoria } from "../model/Categoria";
+import { Request, Response } from "express";
+import { ErroRegraNegocio } from "../util/ErroRegraNegocio";
+
+/**
+ * Interface CategoriaDTO
+ * Define os atributos que devem ser recebidos do cliente nas requisições
+ */
+interface CategoriaDTO {
+    nome: string;
+    descricao?: string;
+    idCategoriaPai?: number | null;     // omitido ou nulo para as categorias principais
+}
+
+/**
+ * Controlador para operações relacionadas às categorias (assuntos) dos livros.
+ * Os livros de uma categoria são consultados na listagem de livros, com o filtro idCategoria.
+ */
+class CategoriaController extends Categoria {
+
+    /**
+     * Retorna a árvore de categorias com a quantidade de títulos e de títulos disponíveis de cada uma.
+     *
+     * @param req Objeto de requisição HTTP.
+     * @param res Objeto de resposta HTTP.
+     * @returns Árvore de categorias em formato JSON.
+     */
+    static async arvore(req: Request, res: Response): Promise<Response> {
+        try {
+            const arvoreDeCategorias = await Categoria.listarArvore();
+
+            return res.status(200).json(arvoreDeCategorias);
+        } catch (error) {
+            console.error('Erro ao listar categorias:', error);
+            return res.status(500).json({ mensagem: 'Erro ao listar as categorias.' });
+        }
+    }
+
+    /**
+     * Cadastra uma nova categoria.
+     *
+     * @param req Objeto de requisição HTTP com os dados da categoria.
+     * @param res Objeto de resposta HTTP.
+     * @returns ID da categoria cadastrada ou mensagem de erro.
+     */
+    static async cadastrar(req: Request, res: Response): Promise<Response> {
+        try {
+            const dadosRecebidos: CategoriaDTO = req.body;
+
+            const erroValidacao = CategoriaController.validar(dadosRecebidos);
+            if (erroValidacao) {
+                return res.status(400).json({ mensagem: erroValidacao });
+            }
+
+            const idCategoria = await Categoria.cadastrarCategoria(dadosRecebidos as DadosCategoria);
+
+            return res.status(201).json({ mensagem: 'Categoria cadastrada com sucesso', idCategoria });
+        } catch (error) {
+            // categoria superior inexistente ou nome repetido
+            if (error instanceof ErroRegraNegocio) {
+                return res.status(error.status).json({ mensagem: error.message, codigo: error.codigo });
+            }
+
+            console.error('Erro ao cadastrar categoria:', error);
+            return res.status(500).json({ mensagem: 'Erro ao cadastrar a categoria.' });
+        }
+    }
+
+    /**
+     * Altera o nome, a descrição ou a categoria superior de uma categoria.
+     * O ID da categoria deve ser informado na query string.
+     *
+     * @param req Objeto de requisição HTTP com os novos dados.
+     * @param res Objeto de resposta HTTP.
+     * @returns Mensagem de sucesso ou de erro.
+     */
+    static async atualizar(req: Request, res: Response): Promise<Response> {
+        try {
+            const idCategoria = parseInt(req.query.idCategoria as string);
+            const dadosRecebidos: CategoriaDTO = req.body;
+
+            if (!idCategoria) {
+                return res.status(400).json({ mensagem: 'Informe o ID da categoria.' });
+            }
+
+            const erroValidacao = CategoriaController.validar(dadosRecebidos);
+            if (erroValidacao) {
+                return res.status(400).json({ mensagem: erroValidacao });
+            }
+
+            await Categoria.atualizarCategoria(idCategoria, dadosRecebidos as DadosCategoria);
+
+            return res.status(200).json({ mensagem: 'Categoria atualizada com sucesso' });
+        } catch (error) {
+            // categoria inexistente, nome repetido ou ciclo na árvore
+            if (error instanceof ErroRegraNegocio) {
+                return res.status(error.status).json({ mensagem: error.message, codigo: error.codigo });
+            }
+
+            console.error('Erro ao atualizar categoria:', error);
+            return res.status(500).json({ mensagem: 'Erro ao atualizar a categoria.' });
+        }
+    }
+
+    /**
+     * Remove uma categoria sem subcategorias e sem livros ativos.
+     * O ID da categoria deve ser informado na query string.
+     *
+     * @param req Objeto de requisição HTTP.
+     * @param res Objeto de resposta HTTP.
+     * @returns Mensagem de sucesso ou de erro.
+     */
+    static async remover(req: Request, res: Response): Promise<Response> {
+        try {
+            const idCategoria = parseInt(req.query.idCategoria as string);
+
+            if (!idCategoria) {
+                return res.status(400).json({ mensagem: 'Informe o ID da categoria.' });
+            }
+
+            await Categoria.removerCategoria(idCategoria);
+
+            return res.status(200).json({ mensagem: 'Categoria removida com sucesso' });
+        } catch (error) {
+            // categoria inexistente, com subcategorias ou com livros ativos
+            if (error instanceof ErroRegraNegocio) {
+                return res.status(error.status).json({ mensagem: error.message, codigo: error.codigo });
+            }
+
+            console.error('Erro ao remover categoria:', error);
+            return res.status(500).json({ mensagem: 'Erro ao remover a categoria.' });
+        }
+    }
+
+    /**
+     * Valida o nome e a categoria superior informados
+     *
+     * @returns Mensagem de erro ou null caso os dados sejam válidos
+     */
+    private static validar(dados: CategoriaDTO): string | null {
+        if (!dados.nome?.trim()) {
+            return 'Informe o nome da categoria.';
+        }
+
+        if (dados.idCategoriaPai !== undefined && dados.idCategoriaPai !== null && !(Number.isInteger(dados.idCategoriaPai) && dados.idCategoriaPai > 0)) {
+            return 'O campo idCategoriaPai deve ser o ID de uma categoria.';
+        }
+
+        return null;
+    }
+}
+
+export default CategoriaController;
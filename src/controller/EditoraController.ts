@@ -0,0 +1,133 @@
+import { Editora } from "../model/Editora";
+import { Request, Response } from "express";
+import { ErroRegraNegocio } from "../util/ErroRegraNegocio";
+
+/**
+ * Interface EditoraDTO
+ * Define os atributos que devem ser recebidos do cliente nas requisições
+ */
+interface EditoraDTO {
+    nome: string;
+}
+
+/**
+ * Controlador para operações relacionadas às editoras.
+ * Os livros de uma editora são consultados na listagem de livros, com o filtro idEditora.
+ */
+class EditoraController extends Editora {
+
+    /**
+     * Lista as editoras cadastradas.
+     * O parâmetro busca (trecho do nome) pode ser informado na query string.
+     *
+     * @param req Objeto de requisição HTTP.
+     * @param res Objeto de resposta HTTP.
+     * @returns Lista de editoras em formato JSON.
+     */
+    static async todos(req: Request, res: Response): Promise<Response> {
+        try {
+            const busca = (req.query.busca as string | undefined)?.trim();
+            const listaDeEditoras = await Editora.listarEditoras(busca);
+
+            return res.status(200).json(listaDeEditoras);
+        } catch (error) {
+            console.error('Erro ao listar editoras:', error);
+            return res.status(500).json({ mensagem: 'Erro ao listar as editoras.' });
+        }
+    }
+
+    /**
+     * Cadastra uma nova editora.
+     *
+     * @param req Objeto de requisição HTTP com o nome da editora.
+     * @param res Objeto de resposta HTTP.
+     * @returns Editora cadastrada ou mensagem de erro.
+     */
+    static async cadastrar(req: Request, res: Response): Promise<Response> {
+        try {
+            const dadosRecebidos: EditoraDTO = req.body;
+
+            if (!dadosRecebidos.nome?.trim()) {
+                return res.status(400).json({ mensagem: 'Informe o nome da editora.' });
+            }
+
+            const editora = await Editora.cadastrarEditora(dadosRecebidos.nome);
+
+            return res.status(201).json({ mensagem: 'Editora cadastrada com sucesso', editora });
+        } catch (error) {
+            // editora já cadastrada
+            if (error instanceof ErroRegraNegocio) {
+                return res.status(error.status).json({ mensagem: error.message, codigo: error.codigo });
+            }
+
+            console.error('Erro ao cadastrar editora:', error);
+            return res.status(500).json({ mensagem: 'Erro ao cadastrar a editora.' });
+        }
+    }
+
+    /**
+     * Altera o nome de uma editora.
+     * O ID da editora deve ser informado na query string.
+     *
+     * @param req Objeto de requisição HTTP com o novo nome.
+     * @param res Objeto de resposta HTTP.
+     * @returns Mensagem de sucesso ou de erro.
+     */
+    static async atualizar(req: Request, res: Response): Promise<Response> {
+        try {
+            const idEditora = parseInt(req.query.idEditora as string);
+            const dadosRecebidos: EditoraDTO = req.body;
+
+            if (!idEditora) {
+                return res.status(400).json({ mensagem: 'Informe o ID da editora.' });
+            }
+            if (!dadosRecebidos.nome?.trim()) {
+                return res.status(400).json({ mensagem: 'Informe o nome da editora.' });
+            }
+
+            await Editora.atualizarEditora(idEditora, dadosRecebidos.nome);
+
+            return res.status(200).json({ mensagem: 'Editora atualizada com sucesso' });
+        } catch (error) {
+            // editora inexistente ou nome já cadastrado
+            if (error instanceof ErroRegraNegocio) {
+                return res.status(error.status).json({ mensagem: error.message, codigo: error.codigo });
+            }
+
+            console.error('Erro ao atualizar editora:', error);
+            return res.status(500).json({ mensagem: 'Erro ao atualizar a editora.' });
+        }
+    }
+
+    /**
+     * Remove uma editora sem livros ativos.
+     * O ID da editora deve ser informado na query string.
+     *
+     * @param req Objeto de requisição HTTP.
+     * @param res Objeto de resposta HTTP.
+     * @returns Mensagem de sucesso ou de erro.
+     */
+    static async remover(req: Request, res: Response): Promise<Response> {
+        try {
+            const idEditora = parseInt(req.query.idEditora as string);
+
+            if (!idEditora) {
+                return res.status(400).json({ mensagem: 'Informe o ID da editora.' });
+            }
+
+            await Editora.removerEditora(idEditora);
+
+            return res.status(200).json({ mensagem: 'Editora removida com sucesso' });
+        } catch (error) {
+            // editora inexistente ou com livros ativos
+            if (error instanceof ErroRegraNegocio) {
+                return res.status(error.status).json({ mensagem: error.message, codigo: error.codigo });
+            }
+
+            console.error('Erro ao remover editora:', error);
+            return res.status(500).json({ mensagem: 'Erro ao remover a editora.' });
+        }
+    }
+}
+
+export default EditoraController;
@@ -1,5 +1,9 @@
-import { Emprestimo } from "../model/Emprestimo";
+import { Emprestimo, STATUS_EMPRESTIMO } from "../model/Emprestimo";
+import { Exemplar, ESTADO_CONSERVACAO } from "../model/Exemplar";
 import { Request, Response } from "express";
+import { ErroRegraNegocio } from "../util/ErroRegraNegocio";
+import { UsuarioAutenticado } from "../util/Auth";
+import { VerificacaoAtrasos } from "../jobs/VerificacaoAtrasos";
 
 /**
  * Interface EmprestimoDTO
@@ -10,7 +14,16 @@ interface EmprestimoDTO {
     idLivro: number;
     dataEmprestimo: string;
     dataDevolucao: string;
-    statusEmprestimo: string;
+    statusEmprestimo?: string; // opcional: o status é definido pelo servidor
+    codigoExemplar?: string;   // opcional: código de barras ou tombo do exemplar retirado
+}
+
+/**
+ * Interface DevolucaoDTO
+ * Define os atributos que podem ser recebidos do cliente na devolução
+ */
+interface DevolucaoDTO {
+    estadoConservacao?: string; // estado de conservação do exemplar devolvido
 }
 
 class EmprestimoController extends Emprestimo {
@@ -37,6 +50,36 @@ class EmprestimoController extends Emprestimo {
         }
     }
 
+    /**
+     * Consulta um empréstimo, com os dados completos do aluno e do livro.
+     * O ID do empréstimo deve ser informado na query string.
+     *
+     * @param req Objeto de requisição HTTP.
+     * @param res Objeto de resposta HTTP.
+     * @returns Detalhes do empréstimo em formato JSON.
+     */
+    static async emprestimo(req: Request, res: Response): Promise<Response> {
+        try {
+            const idEmprestimo = parseInt(req.query.idEmprestimo as string);
+
+            // Verifica se o ID do empréstimo foi informado
+            if (!idEmprestimo) {
+                return res.status(400).json({ message: 'Informe o ID do empréstimo.' });
+            }
+
+            const emprestimo = await Emprestimo.consultarEmprestimo(idEmprestimo);
+
+            if (!emprestimo) {
+                return res.status(404).json({ message: 'Empréstimo não encontrado.', codigo: 'EMPRESTIMO_NAO_ENCONTRADO' });
+            }
+
+            return res.status(200).json(emprestimo);
+        } catch (error) {
+            console.error('Erro ao consultar empréstimo:', error);
+            return res.status(500).json({ message: 'Erro ao consultar o empréstimo.' });
+        }
+    }
+
     /**
      * Cadastra um novo empréstimo.
      * Recebe os dados do empréstimo a partir da requisição e passa para o serviço.
@@ -46,19 +89,36 @@ class EmprestimoController extends Emprestimo {
             const dadosRecebidos: EmprestimoDTO = req.body;
 
             // Verifica se todos os campos obrigatórios foram fornecidos
-            if (!dadosRecebidos.idAluno || !dadosRecebidos.idLivro || !dadosRecebidos.dataEmprestimo || !dadosRecebidos.dataDevolucao || !dadosRecebidos.statusEmprestimo) {
+            if (!dadosRecebidos.idAluno || !dadosRecebidos.idLivro || !dadosRecebidos.dataEmprestimo || !dadosRecebidos.dataDevolucao) {
                 return res.status(400).json({ message: 'Todos os campos são obrigatórios.' });
             }
 
+            // O status é definido pelo servidor, um valor informado pelo cliente só é validado
+            if (dadosRecebidos.statusEmprestimo !== undefined && !Emprestimo.statusValido(dadosRecebidos.statusEmprestimo)) {
+                return res.status(400).json({ message: `Status inválido. Valores permitidos: ${Object.values(STATUS_EMPRESTIMO).join(', ')}.` });
+            }
+
+            // Verifica se as datas são válidas e estão em ordem
+            const datas = EmprestimoController.lerDatas(dadosRecebidos);
+            if (typeof datas === 'string') {
+                return res.status(400).json({ message: datas });
+            }
+
             // Chama o serviço para cadastrar o empréstimo
             const novoIdEmprestimo = await Emprestimo.cadastrarEmprestimo(
-                dadosRecebidos.idAluno, dadosRecebidos.idLivro, new Date(dadosRecebidos.dataEmprestimo), new Date(dadosRecebidos.dataDevolucao), dadosRecebidos.statusEmprestimo
+                dadosRecebidos.idAluno, dadosRecebidos.idLivro, datas.dataEmprestimo, datas.dataDevolucao,
+                dadosRecebidos.codigoExemplar
             );
 
             // Retorna a resposta de sucesso com o ID do novo empréstimo
             return res.status(201).json({ message: 'Empréstimo cadastrado com sucesso', idEmprestimo: novoIdEmprestimo });
 
         } catch (error) {
+            // livro inexistente ou sem exemplares disponíveis
+            if (error instanceof ErroRegraNegocio) {
+                return res.status(error.status).json({ message: error.message, codigo: error.codigo });
+            }
+
             console.error('Erro ao cadastrar empréstimo:', error);
             return res.status(500).json({ message: 'Erro ao cadastrar o empréstimo.' });
         }
@@ -74,24 +134,163 @@ class EmprestimoController extends Emprestimo {
             const idEmprestimo = parseInt(req.query.idEmprestimo as string);
 
             // Verifica se todos os campos obrigatórios foram fornecidos
-            if (!idEmprestimo || !dadosRecebidos.idAluno || !dadosRecebidos.idLivro || !dadosRecebidos.dataEmprestimo || !dadosRecebidos.dataDevolucao || !dadosRecebidos.statusEmprestimo) {
+            if (!idEmprestimo || !dadosRecebidos.idAluno || !dadosRecebidos.idLivro || !dadosRecebidos.dataEmprestimo || !dadosRecebidos.dataDevolucao) {
                 return res.status(400).json({ message: 'Todos os campos são obrigatórios.' });
             }
 
+            // Verifica se o status informado é um dos status permitidos
+            const statusSolicitado = dadosRecebidos.statusEmprestimo;
+            if (statusSolicitado !== undefined && !Emprestimo.statusValido(statusSolicitado)) {
+                return res.status(400).json({ message: `Status inválido. Valores permitidos: ${Object.values(STATUS_EMPRESTIMO).join(', ')}.` });
+            }
+
+            // Verifica se as datas são válidas e estão em ordem
+            const datas = EmprestimoController.lerDatas(dadosRecebidos);
+            if (typeof datas === 'string') {
+                return res.status(400).json({ message: datas });
+            }
+
             // Chama o MODEL para atualizar o empréstimo/ Number(idEmprestimo) converte o idEmprestimo de string para number
             const emprestimoAtualizado = await Emprestimo.atualizarEmprestimo(
-                idEmprestimo, dadosRecebidos.idAluno, dadosRecebidos.idLivro, new Date(dadosRecebidos.dataEmprestimo), new Date(dadosRecebidos.dataDevolucao), dadosRecebidos.statusEmprestimo
+                idEmprestimo, dadosRecebidos.idAluno, dadosRecebidos.idLivro, datas.dataEmprestimo, datas.dataDevolucao, statusSolicitado
             );
 
             // Retorna a resposta de sucesso com o ID do empréstimo atualizado
             return res.status(200).json({ message: 'Empréstimo atualizado com sucesso', idEmprestimo: emprestimoAtualizado });
 
         } catch (error) {
+            // empréstimo inexistente ou transição de status não permitida
+            if (error instanceof ErroRegraNegocio) {
+                return res.status(error.status).json({ message: error.message, codigo: error.codigo });
+            }
+
             console.error('Erro ao atualizar empréstimo:', error);
             return res.status(500).json({ message: 'Erro ao atualizar o empréstimo.' });
         }
     }
 
+    /**
+     * Registra a devolução de um empréstimo.
+     * O ID do empréstimo deve ser informado na query string.
+     */
+    static async devolver(req: Request, res: Response): Promise<Response> {
+        try {
+            const idEmprestimo = parseInt(req.query.idEmprestimo as string);
+            const dadosRecebidos: DevolucaoDTO = req.body ?? {};
+
+            // Verifica se o ID do empréstimo foi informado
+            if (!idEmprestimo) {
+                return res.status(400).json({ message: 'Informe o ID do empréstimo.' });
+            }
+
+            // Verifica se o estado de conservação informado é válido
+            const estadoConservacao = dadosRecebidos.estadoConservacao;
+            if (estadoConservacao !== undefined && !Exemplar.estadoConservacaoValido(estadoConservacao)) {
+                return res.status(400).json({ message: `Estado de conservação inválido. Valores permitidos: ${Object.values(ESTADO_CONSERVACAO).join(', ')}.` });
+            }
+
+            // Chama o MODEL para registrar a devolução
+            const dataDevolucaoReal = await Emprestimo.devolverEmprestimo(idEmprestimo, estadoConservacao);
+
+            return res.status(200).json({ message: 'Devolução registrada com sucesso', idEmprestimo, dataDevolucaoReal });
+        } catch (error) {
+            // empréstimo inexistente ou já devolvido
+            if (error instanceof ErroRegraNegocio) {
+                return res.status(error.status).json({ message: error.message, codigo: error.codigo });
+            }
+
+            console.error('Erro ao registrar devolução:', error);
+            return res.status(500).json({ message: 'Erro ao registrar a devolução.' });
+        }
+    }
+
+    /**
+     * Renova um empréstimo, estendendo a data de devolução pelo prazo da política de empréstimos.
+     * O ID do empréstimo deve ser informado na query string.
+     *
+     * @param req Objeto de requisição HTTP.
+     * @param res Objeto de resposta HTTP.
+     * @returns Nova data de devolução e quantidade de renovações ou mensagem de erro.
+     */
+    static async renovar(req: Request, res: Response): Promise<Response> {
+        try {
+            const idEmprestimo = parseInt(req.query.idEmprestimo as string);
+            const usuario: UsuarioAutenticado = res.locals.usuario;
+
+            // Verifica se o ID do empréstimo foi informado
+            if (!idEmprestimo) {
+                return res.status(400).json({ message: 'Informe o ID do empréstimo.' });
+            }
+
+            // Chama o MODEL para renovar o empréstimo
+            const renovacao = await Emprestimo.renovarEmprestimo(idEmprestimo, usuario.idUsuario);
+
+            return res.status(200).json({ message: 'Empréstimo renovado com sucesso', idEmprestimo, ...renovacao });
+        } catch (error) {
+            // empréstimo inexistente, devolvido, atrasado ou sem renovações disponíveis
+            if (error instanceof ErroRegraNegocio) {
+                return res.status(error.status).json({ message: error.message, codigo: error.codigo });
+            }
+
+            console.error('Erro ao renovar empréstimo:', error);
+            return res.status(500).json({ message: 'Erro ao renovar o empréstimo.' });
+        }
+    }
+
+    /**
+     * Retorna o histórico de renovações de um empréstimo.
+     * O ID do empréstimo deve ser informado na query string.
+     *
+     * @param req Objeto de requisição HTTP.
+     * @param res Objeto de resposta HTTP.
+     * @returns Lista de renovações do empréstimo em formato JSON.
+     */
+    static async renovacoes(req: Request, res: Response): Promise<Response> {
+        try {
+            const idEmprestimo = parseInt(req.query.idEmprestimo as string);
+
+            // Verifica se o ID do empréstimo foi informado
+            if (!idEmprestimo) {
+                return res.status(400).json({ message: 'Informe o ID do empréstimo.' });
+            }
+
+            const listaDeRenovacoes = await Emprestimo.listarRenovacoes(idEmprestimo);
+
+            return res.status(200).json(listaDeRenovacoes);
+        } catch (error) {
+            console.error('Erro ao listar renovações:', error);
+            return res.status(500).json({ message: 'Erro ao listar as renovações do empréstimo.' });
+        }
+    }
+
+    /**
+     * Executa manualmente a verificação de empréstimos atrasados.
+     * Retorna o relatório com os empréstimos que tiveram o status alterado.
+     */
+    static async verificarAtrasos(req: Request, res: Response): Promise<Response> {
+        try {
+            const relatorio = await VerificacaoAtrasos.executar('manual');
+
+            return res.status(200).json(relatorio);
+        } catch (error) {
+            console.error('Erro ao verificar empréstimos atrasados:', error);
+            return res.status(500).json({ message: 'Erro ao verificar os empréstimos atrasados.' });
+        }
+    }
+
+    /**
+     * Retorna o relatório da última verificação de empréstimos atrasados (agendada ou manual).
+     */
+    static async relatorioAtrasos(req: Request, res: Response): Promise<Response> {
+        const relatorio = VerificacaoAtrasos.getUltimoRelatorio();
+
+        if (!relatorio) {
+            return res.status(404).json({ message: 'A verificação de atrasos ainda não foi executada.' });
+        }
+
+        return res.status(200).json(relatorio);
+    }
+
     /**
      * Método para remover um empréstimo do banco de dados
      * 
@@ -124,6 +323,25 @@ class EmprestimoController extends Emprestimo {
             return res.status(500).send("error");
         }
     }
+
+    /**
+     * Converte as datas do empréstimo e da devolução prevista recebidas do cliente
+     *
+     * @returns Datas convertidas ou a mensagem de erro
+     */
+    private static lerDatas(dados: EmprestimoDTO): { dataEmprestimo: Date, dataDevolucao: Date } | string {
+        const dataEmprestimo = new Date(dados.dataEmprestimo);
+        const dataDevolucao = new Date(dados.dataDevolucao);
+
+        if (isNaN(dataEmprestimo.getTime()) || isNaN(dataDevolucao.getTime())) {
+            return 'Data inválida. Informe as datas no formato AAAA-MM-DD.';
+        }
+        if (dataDevolucao < dataEmprestimo) {
+            return 'A data de devolução não pode ser anterior à data do empréstimo.';
+        }
+
+        return { dataEmprestimo, dataDevolucao };
+    }
 }
 
 export default EmprestimoController;
\ No newline at end of file
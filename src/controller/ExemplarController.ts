@@ -0,0 +1,136 @@
+import { Exemplar, DadosExemplar, SITUACAO_EXEMPLAR, ESTADO_CONSERVACAO } from "../model/Exemplar";
+import { Request, Response } from "express";
+import { ErroRegraNegocio } from "../util/ErroRegraNegocio";
+
+/**
+ * Interface ExemplarDTO
+ * Define os atributos que devem ser recebidos do cliente nas requisições
+ */
+interface ExemplarDTO {
+    idLivro?: number;           // obrigatório no cadastro
+    numeroTombo?: string;
+    codigoBarras?: string;
+    localizacao?: string;
+    estadoConservacao?: string;
+    situacao?: string;          // apenas na atualização
+}
+
+/**
+ * Controlador para operações relacionadas aos exemplares (cópias físicas) dos livros.
+ */
+class ExemplarController extends Exemplar {
+
+    /**
+     * Lista os exemplares de um livro.
+     * O ID do livro deve ser informado na query string.
+     *
+     * @param req Objeto de requisição HTTP.
+     * @param res Objeto de resposta HTTP.
+     * @returns Lista de exemplares em formato JSON.
+     */
+    static async todos(req: Request, res: Response): Promise<Response> {
+        try {
+            const idLivro = parseInt(req.query.idLivro as string);
+
+            if (!idLivro) {
+                return res.status(400).json({ mensagem: 'Informe o ID do livro.' });
+            }
+
+            const listaDeExemplares = await Exemplar.listarExemplares(idLivro);
+
+            return res.status(200).json(listaDeExemplares);
+        } catch (error) {
+            console.error('Erro ao listar exemplares:', error);
+            return res.status(500).json({ mensagem: 'Erro ao listar os exemplares.' });
+        }
+    }
+
+    /**
+     * Cadastra um novo exemplar para um livro.
+     *
+     * @param req Objeto de requisição HTTP com os dados do exemplar.
+     * @param res Objeto de resposta HTTP.
+     * @returns Exemplar cadastrado ou mensagem de erro.
+     */
+    static async cadastrar(req: Request, res: Response): Promise<Response> {
+        try {
+            const dadosRecebidos: ExemplarDTO = req.body;
+
+            if (!dadosRecebidos.idLivro) {
+                return res.status(400).json({ mensagem: 'Informe o ID do livro.' });
+            }
+
+            const erroValidacao = ExemplarController.validar(dadosRecebidos);
+            if (erroValidacao) {
+                return res.status(400).json({ mensagem: erroValidacao });
+            }
+
+            const exemplar = await Exemplar.cadastrarExemplar(dadosRecebidos.idLivro, dadosRecebidos as DadosExemplar);
+
+            return res.status(201).json({ mensagem: 'Exemplar cadastrado com sucesso', exemplar });
+        } catch (error) {
+            // livro inexistente ou tombo/código de barras duplicado
+            if (error instanceof ErroRegraNegocio) {
+                return res.status(error.status).json({ mensagem: error.message, codigo: error.codigo });
+            }
+
+            console.error('Erro ao cadastrar exemplar:', error);
+            return res.status(500).json({ mensagem: 'Erro ao cadastrar o exemplar.' });
+        }
+    }
+
+    /**
+     * Atualiza a localização, o estado de conservação ou a situação de um exemplar.
+     * O ID do exemplar deve ser informado na query string.
+     *
+     * @param req Objeto de requisição HTTP com os dados a serem alterados.
+     * @param res Objeto de resposta HTTP.
+     * @returns Mensagem de sucesso ou de erro.
+     */
+    static async atualizar(req: Request, res: Response): Promise<Response> {
+        try {
+            const idExemplar = parseInt(req.query.idExemplar as string);
+            const dadosRecebidos: ExemplarDTO = req.body;
+
+            if (!idExemplar) {
+                return res.status(400).json({ mensagem: 'Informe o ID do exemplar.' });
+            }
+
+            const erroValidacao = ExemplarController.validar(dadosRecebidos);
+            if (erroValidacao) {
+                return res.status(400).json({ mensagem: erroValidacao });
+            }
+
+            await Exemplar.atualizarExemplar(idExemplar, dadosRecebidos as DadosExemplar);
+
+            return res.status(200).json({ mensagem: 'Exemplar atualizado com sucesso' });
+        } catch (error) {
+            // exemplar inexistente, em uso ou tombo/código de barras duplicado
+            if (error instanceof ErroRegraNegocio) {
+                return res.status(error.status).json({ mensagem: error.message, codigo: error.codigo });
+            }
+
+            console.error('Erro ao atualizar exemplar:', error);
+            return res.status(500).json({ mensagem: 'Erro ao atualizar o exemplar.' });
+        }
+    }
+
+    /**
+     * Valida o estado de conservação e a situação informados
+     *
+     * @returns Mensagem de erro ou null caso os dados sejam válidos
+     */
+    private static validar(dados: ExemplarDTO): string | null {
+        if (dados.estadoConservacao !== undefined && !Exemplar.estadoConservacaoValido(dados.estadoConservacao)) {
+            return `Estado de conservação inválido. Valores permitidos: ${Object.values(ESTADO_CONSERVACAO).join(', ')}.`;
+        }
+
+        if (dados.situacao !== undefined && !Exemplar.situacaoValida(dados.situacao)) {
+            return `Situação inválida. Valores permitidos: ${Object.values(SITUACAO_EXEMPLAR).join(', ')}.`;
+        }
+
+        return null;
+    }
+}
+
+export default ExemplarController;
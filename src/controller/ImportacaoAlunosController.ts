@@ -0,0 +1,54 @@
+import { ImportacaoAlunos } from "../model/ImportacaoAlunos";
+import { Importacao, MODO_IMPORTACAO } from "../util/Importacao";
+import { ErroRegraNegocio } from "../util/ErroRegraNegocio";
+import { Request, Response } from "express";
+
+/**
+ * Controlador para a importação da lista de alunos das turmas (arquivo CSV).
+ */
+class ImportacaoAlunosController extends ImportacaoAlunos {
+
+    /**
+     * Importa os alunos do arquivo CSV enviado no campo "arquivo".
+     * Parâmetros da query string: modo (simulacao ou gravacao, padrão: simulacao), turma (código da turma
+     * das linhas sem a coluna turma) e desativarAusentes (true para desativar os alunos das turmas que
+     * não estão na lista).
+     *
+     * @param req Objeto de requisição HTTP com o arquivo.
+     * @param res Objeto de resposta HTTP.
+     * @returns Relatório com as diferenças entre a lista e o cadastro dos alunos.
+     */
+    static async importar(req: Request, res: Response): Promise<Response> {
+        try {
+            const modo = ((req.query.modo as string) || MODO_IMPORTACAO.SIMULACAO).toLowerCase();
+            const turma = (req.query.turma as string | undefined)?.trim();
+            const desativarAusentes = ['true', '1', 'sim'].includes(String(req.query.desativarAusentes ?? '').toLowerCase());
+
+            if (!Importacao.modoValido(modo)) {
+                return res.status(400).json({ mensagem: `O parâmetro modo deve ser um destes valores: ${Object.values(MODO_IMPORTACAO).join(', ')}.` });
+            }
+
+            if (!req.file || req.file.size === 0) {
+                return res.status(400).json({ mensagem: 'Envie o arquivo CSV no campo arquivo.' });
+            }
+
+            const relatorio = await ImportacaoAlunos.importarCsv(req.file.buffer, { modo, turma, desativarAusentes });
+
+            // na gravação, qualquer linha inválida impede todas as alterações
+            if (modo === MODO_IMPORTACAO.GRAVACAO) {
+                return res.status(relatorio.gravado ? 200 : 422).json(relatorio);
+            }
+
+            return res.status(200).json(relatorio);
+        } catch (error) {
+            if (error instanceof ErroRegraNegocio) {
+                return res.status(error.status).json({ mensagem: error.message, codigo: error.codigo, ...error.detalhes });
+            }
+
+            console.error('Erro ao importar alunos:', error);
+            return res.status(500).json({ mensagem: 'Erro ao importar o arquivo.' });
+        }
+    }
+}
+
+export default ImportacaoAlunosController;
@@ -0,0 +1,50 @@
+import { ImportacaoLivros } from "../model/ImportacaoLivros";
+import { Importacao, MODO_IMPORTACAO } from "../util/Importacao";
+import { ErroRegraNegocio } from "../util/ErroRegraNegocio";
+import { Request, Response } from "express";
+
+/**
+ * Controlador para a importação de livros em lote (arquivo CSV).
+ */
+class ImportacaoLivrosController extends ImportacaoLivros {
+
+    /**
+     * Importa os livros do arquivo CSV enviado no campo "arquivo".
+     * Parâmetro da query string: modo (simulacao ou gravacao, padrão: simulacao).
+     *
+     * @param req Objeto de requisição HTTP com o arquivo.
+     * @param res Objeto de resposta HTTP.
+     * @returns Relatório com os erros de cada linha e os livros válidos ou cadastrados.
+     */
+    static async importar(req: Request, res: Response): Promise<Response> {
+        try {
+            const modo = ((req.query.modo as string) || MODO_IMPORTACAO.SIMULACAO).toLowerCase();
+
+            if (!Importacao.modoValido(modo)) {
+                return res.status(400).json({ mensagem: `O parâmetro modo deve ser um destes valores: ${Object.values(MODO_IMPORTACAO).join(', ')}.` });
+            }
+
+            if (!req.file || req.file.size === 0) {
+                return res.status(400).json({ mensagem: 'Envie o arquivo CSV no campo arquivo.' });
+            }
+
+            const relatorio = await ImportacaoLivros.importarCsv(req.file.buffer, modo);
+
+            // na gravação, qualquer linha inválida impede o cadastro de todos os livros
+            if (modo === MODO_IMPORTACAO.GRAVACAO) {
+                return res.status(relatorio.gravado ? 201 : 422).json(relatorio);
+            }
+
+            return res.status(200).json(relatorio);
+        } catch (error) {
+            if (error instanceof ErroRegraNegocio) {
+                return res.status(error.status).json({ mensagem: error.message, codigo: error.codigo, ...error.detalhes });
+            }
+
+            console.error('Erro ao importar livros:', error);
+            return res.status(500).json({ mensagem: 'Erro ao importar o arquivo.' });
+        }
+    }
+}
+
+export default ImportacaoLivrosController;
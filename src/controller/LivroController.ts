@@ -1,7 +1,10 @@
-import { Livro } from "../model/Livro";
+import { Livro, FiltroLivros, ORDENACAO_LIVROS, SISTEMA_CLASSIFICACAO, SistemaClassificacao } from "../model/Livro";
 import { Request, Response} from "express";
-import fs from 'fs';
-import path from 'path';
+import { ErroRegraNegocio } from "../util/ErroRegraNegocio";
+import { SERVER_ROUTES } from "../appConfig";
+import { CapaLivro } from "../model/CapaLivro";
+import { QUANT_MAXIMA_EXEMPLARES_CADASTRO } from "../model/Exemplar";
+import { LimpezaCapas } from "../jobs/LimpezaCapas";
 
 /**
  * Interface LivroDTO
@@ -10,28 +13,48 @@ import path from 'path';
 interface LivroDTO {
     titulo: string;
     autor: string;
+    autores?: string[];         // autores na ordem da obra; quando informado, substitui o campo autor
     editora: string;
     anoPublicacao?: number;
     isbn?: string;
     quantTotal: number;
     quantDisponivel: number;
     valorAquisicao?: number;
-    statusLivroEmprestado?: string
+    statusLivroEmprestado?: string;
+    categorias?: number[] | string;     // IDs das categorias (no formulário multipart, separados por vírgula)
+    classificacao?: string;             // código de classificação, ex.: 869.3
+    sistemaClassificacao?: string;      // CDD ou CDU
 }
 
+/**
+ * Quantidade de livros por página na listagem (padrão e máximo)
+ */
+const LIMITE_PADRAO_PAGINA = 20;
+const LIMITE_MAXIMO_PAGINA = 100;
+
 /**
  * Controlador para operações relacionadas aos Livros.
 */
 class LivroController extends Livro {
     /**
-     * Lista todos os livros.
+     * Lista os livros com busca, filtros, ordenação e paginação informados na query string:
+     * busca, titulo, autor, editora, isbn, idAutor, idEditora, idCategoria, anoInicio, anoFim, disponiveis (true/false),
+     * ordenarPor (titulo, autor, editora, anoPublicacao, quantDisponivel, idLivro), ordem (asc/desc),
+     * pagina e limite.
      * @param req Objeto de requisição HTTP.
      * @param res Objeto de resposta HTTP.
-     * @returns Lista de livros em formato JSON.
+     * @returns Página da lista de livros e as informações de paginação em formato JSON.
      */
     static async todos(req: Request, res: Response) {
         try {
-            const listaDeLivros = await Livro.listarLivros();
+            const filtro = LivroController.montarFiltro(req.query as Record<string, string | undefined>);
+
+            // parâmetros inválidos
+            if (typeof filtro === 'string') {
+                return res.status(400).json({ mensagem: filtro });
+            }
+
+            const listaDeLivros = await Livro.listarLivros(filtro);
 
             res.status(200).json(listaDeLivros);
         } catch (error) {
@@ -41,6 +64,64 @@ class LivroController extends Livro {
         }
     }
 
+    /**
+     * Consulta um livro, com autores, categorias, capa, exemplares, disponibilidade e quantidade de empréstimos.
+     * O ID do livro deve ser informado na query string (idLivro).
+     * @param req Objeto de requisição HTTP.
+     * @param res Objeto de resposta HTTP.
+     * @returns Detalhes do livro em formato JSON.
+     */
+    static async livro(req: Request, res: Response): Promise<Response> {
+        try {
+            const idLivro = parseInt(req.query.idLivro as string);
+
+            if (!idLivro) {
+                return res.status(400).json({ mensagem: 'Informe o ID do livro.' });
+            }
+
+            const livro = await Livro.consultarLivro(idLivro);
+
+            if (!livro) {
+                return res.status(404).json({ mensagem: 'Livro não encontrado.', codigo: 'LIVRO_NAO_ENCONTRADO' });
+            }
+
+            return res.status(200).json(livro);
+        } catch (error) {
+            console.log(`Erro ao consultar o livro: ${error}`);
+            return res.status(500).json({ mensagem: 'Erro ao consultar o livro.' });
+        }
+    }
+
+    /**
+     * Busca textual no catálogo, sem diferenciar acentos, com os resultados ordenados por relevância.
+     * Parâmetros da query string: q (texto da busca, obrigatório), pagina e limite.
+     * @param req Objeto de requisição HTTP.
+     * @param res Objeto de resposta HTTP.
+     * @returns Página dos livros encontrados, com os trechos destacados, e as informações de paginação em formato JSON.
+     */
+    static async buscar(req: Request, res: Response): Promise<Response> {
+        try {
+            const query = req.query as Record<string, string | undefined>;
+            const termos = query.q?.trim();
+
+            if (!termos) {
+                return res.status(400).json({ mensagem: 'Informe o texto da busca no parâmetro q.' });
+            }
+
+            const paginacao = LivroController.lerPaginacao(query);
+            if (typeof paginacao === 'string') {
+                return res.status(400).json({ mensagem: paginacao });
+            }
+
+            const resultado = await Livro.buscarLivros(termos, paginacao.pagina, paginacao.limite);
+
+            return res.status(200).json(resultado);
+        } catch (error) {
+            console.error('Erro ao buscar livros:', error);
+            return res.status(500).json({ mensagem: 'Erro ao buscar os livros.' });
+        }
+    }
+
     /**
      * Cadastra um novo livro.
      * @param req Objeto de requisição HTTP com os dados do aluno.
@@ -51,21 +132,40 @@ class LivroController extends Livro {
         try {
             const dadosRecebidos: LivroDTO = req.body;
 
+            const complemento = LivroController.lerComplemento(dadosRecebidos);
+            if (typeof complemento === 'string') {
+                return res.status(400).json({ mensagem: complemento });
+            }
+
+            // um exemplar é gerado para cada unidade da quantidade total
+            const quantTotal = Number(dadosRecebidos.quantTotal ?? 0);
+            if (!Number.isInteger(quantTotal) || quantTotal < 0 || quantTotal > QUANT_MAXIMA_EXEMPLARES_CADASTRO) {
+                return res.status(400).json({ mensagem: `A quantidade de exemplares deve ser um número inteiro entre 0 e ${QUANT_MAXIMA_EXEMPLARES_CADASTRO}.` });
+            }
+
+            // a capa é validada antes do cadastro, para que uma imagem inválida não deixe o livro sem capa
+            if (req.file) {
+                await CapaLivro.validarImagem(req.file.buffer);
+            }
+
             // Instanciando objeto Livro
             const novoLivro = new Livro(
                 dadosRecebidos.titulo,
-                dadosRecebidos.autor,
+                LivroController.textoAutores(dadosRecebidos),
                 dadosRecebidos.editora,
                 (dadosRecebidos.anoPublicacao ?? 0).toString(),
                 dadosRecebidos.isbn ?? '',
-                dadosRecebidos.quantTotal,
+                quantTotal,
                 dadosRecebidos.quantDisponivel,
                 dadosRecebidos.valorAquisicao ?? 0,
                 dadosRecebidos.statusLivroEmprestado ?? 'Disponível'
             );
 
             // Chama o método para persistir o livro no banco de dados
-            const result = await Livro.cadastrarLivro(novoLivro);
+            novoLivro.setClassificacao(complemento.classificacao);
+            novoLivro.setSistemaClassificacao(complemento.sistemaClassificacao);
+
+            const result = await Livro.cadastrarLivro(novoLivro, complemento.categorias ?? []);
             console.log(novoLivro);
 
             // Verifica se o cadastro foi bem-sucedido
@@ -74,12 +174,7 @@ class LivroController extends Livro {
 
                 // Inserindo capa do livro, se informada
                 if (req.file) {
-                    const ext = path.extname(req.file.originalname);
-                    const sanitize = (texto: string) => texto
-                        .replace(/[^a-zA-Z0-9-_ ]/g, '') // remove caracteres especiais (exceto espaço, hífen e underscore)
-                        .replace(/ /g, "_");             // troca espaços por underscores
-
-                    await Livro.atualizarImagemCapa(req.file.filename, novoLivro.getIdLivro());
+                    await CapaLivro.salvarCapa(novoLivro.getIdLivro(), req.file.buffer);
                 }
 
                 // Retorno de sucesso com o ID do livro
@@ -88,6 +183,11 @@ class LivroController extends Livro {
                 return res.status(400).json({mensagem: 'Não foi possível cadastrar o livro no banco de dados'});
             }
         } catch (error) {
+            // ISBN inválido ou já cadastrado, categoria inexistente
+            if (error instanceof ErroRegraNegocio) {
+                return res.status(error.status).json(LivroController.respostaErroISBN(error));
+            }
+
             console.error(`Erro ao cadastrar o livro: ${error}`);
             return res.status(500).json({
                 mensagem: 'Erro ao cadastrar o livro'
@@ -112,6 +212,11 @@ class LivroController extends Livro {
                 return res.status(401).json('Erro ao deletar livro');
             }
         } catch (error) {
+            // livro com empréstimos em andamento
+            if (error instanceof ErroRegraNegocio) {
+                return res.status(error.status).json({ mensagem: error.message, codigo: error.codigo });
+            }
+
             console.log("Erro ao remover o Livro");
             console.log(error);
             return res.status(500).send("error");
@@ -128,11 +233,21 @@ class LivroController extends Livro {
     static async atualizar(req: Request, res: Response): Promise<Response> {
         try {
             const dadosRecebidos: LivroDTO = req.body;
+
+            const complemento = LivroController.lerComplemento(dadosRecebidos);
+            if (typeof complemento === 'string') {
+                return res.status(400).json({ mensagem: complemento });
+            }
+
+            // nova capa (opcional), validada antes da alteração dos dados
+            if (req.file) {
+                await CapaLivro.validarImagem(req.file.buffer);
+            }
             
             // Cria uma nova instância de Livro com os dados atualizados
             const livro = new Livro(
                 dadosRecebidos.titulo,
-                dadosRecebidos.autor, 
+                LivroController.textoAutores(dadosRecebidos),
                 dadosRecebidos.editora,
                 (dadosRecebidos.anoPublicacao ?? 0).toString(),
                 dadosRecebidos.isbn ?? '',
@@ -144,20 +259,253 @@ class LivroController extends Livro {
 
             // Define o ID do livro, que deve ser passado na query string
             livro.setIdLivro(parseInt(req.query.idLivro as string));
+            livro.setClassificacao(complemento.classificacao);
+            livro.setSistemaClassificacao(complemento.sistemaClassificacao);
 
             // Chama o método para atualizar o cadastro do livro no banco de dados
-            if (await Livro.atualizarCadastroLivro(livro)) {
+            if (await Livro.atualizarCadastroLivro(livro, complemento.categorias)) {
+                if (req.file) {
+                    await CapaLivro.salvarCapa(livro.getIdLivro(), req.file.buffer);
+                }
+
                 return res.status(200).json({ mensagem: "Cadastro atualizado com sucesso!" });
             } else {
                 return res.status(400).json('Não foi possível atualizar o livro no banco de dados');
             }
         } catch (error) {
+            // ISBN inválido ou pertencente a outro livro, categoria inexistente
+            if (error instanceof ErroRegraNegocio) {
+                return res.status(error.status).json({ mensagem: error.message, codigo: error.codigo, ...error.detalhes });
+            }
+
             // Caso ocorra algum erro, este é registrado nos logs do servidor
             console.error(`Erro no modelo: ${error}`);
             // Retorna uma resposta com uma mensagem de erro
             return res.json({ mensagem: "Erro ao atualizar aluno." });
         }
     }
+
+    /**
+     * Substitui a capa do livro pela imagem enviada no campo "capa" (JPEG, PNG ou WebP).
+     * O ID do livro deve ser informado na query string.
+     *
+     * @param req Objeto de requisição HTTP com a imagem.
+     * @param res Objeto de resposta HTTP.
+     * @returns Endereços da nova capa e das miniaturas.
+     */
+    static async atualizarCapa(req: Request, res: Response): Promise<Response> {
+        try {
+            const idLivro = parseInt(req.query.idLivro as string);
+
+            if (!idLivro) {
+                return res.status(400).json({ mensagem: 'Informe o ID do livro.' });
+            }
+            if (!req.file || req.file.size === 0) {
+                return res.status(400).json({ mensagem: 'Envie a imagem da capa no campo capa.' });
+            }
+
+            const capa = await CapaLivro.salvarCapa(idLivro, req.file.buffer);
+
+            return res.status(200).json({ mensagem: 'Capa atualizada com sucesso', capa });
+        } catch (error) {
+            // imagem inválida ou livro inexistente
+            if (error instanceof ErroRegraNegocio) {
+                return res.status(error.status).json({ mensagem: error.message, codigo: error.codigo });
+            }
+
+            console.error('Erro ao atualizar a capa do livro:', error);
+            return res.status(500).json({ mensagem: 'Erro ao atualizar a capa do livro.' });
+        }
+    }
+
+    /**
+     * Remove a capa do livro e apaga os arquivos da imagem e das miniaturas.
+     * O ID do livro deve ser informado na query string.
+     *
+     * @param req Objeto de requisição HTTP.
+     * @param res Objeto de resposta HTTP.
+     * @returns Mensagem de sucesso ou de erro.
+     */
+    static async removerCapa(req: Request, res: Response): Promise<Response> {
+        try {
+            const idLivro = parseInt(req.query.idLivro as string);
+
+            if (!idLivro) {
+                return res.status(400).json({ mensagem: 'Informe o ID do livro.' });
+            }
+
+            if (!await CapaLivro.removerCapa(idLivro)) {
+                return res.status(404).json({ mensagem: 'O livro não possui capa.', codigo: 'CAPA_NAO_ENCONTRADA' });
+            }
+
+            return res.status(200).json({ mensagem: 'Capa removida com sucesso' });
+        } catch (error) {
+            // livro inexistente
+            if (error instanceof ErroRegraNegocio) {
+                return res.status(error.status).json({ mensagem: error.message, codigo: error.codigo });
+            }
+
+            console.error('Erro ao remover a capa do livro:', error);
+            return res.status(500).json({ mensagem: 'Erro ao remover a capa do livro.' });
+        }
+    }
+
+    /**
+     * Executa manualmente a limpeza dos arquivos de capa que nenhum livro referencia.
+     */
+    static async limparCapas(req: Request, res: Response): Promise<Response> {
+        try {
+            const relatorio = await LimpezaCapas.executar('manual');
+
+            return res.status(200).json(relatorio);
+        } catch (error) {
+            console.error('Erro ao limpar os arquivos de capa:', error);
+            return res.status(500).json({ mensagem: 'Erro ao limpar os arquivos de capa.' });
+        }
+    }
+
+    /**
+     * Monta a resposta de erro do cadastro. Quando o ISBN já está cadastrado, em vez de criar um livro
+     * duplicado, a resposta indica como adicionar exemplares ao livro existente.
+     */
+    private static respostaErroISBN(error: ErroRegraNegocio): object {
+        const resposta = { mensagem: error.message, codigo: error.codigo, ...error.detalhes };
+
+        if (error.codigo === 'ISBN_DUPLICADO') {
+            const { livroExistente } = error.detalhes as { livroExistente: { idLivro: number } };
+
+            return {
+                ...resposta,
+                mensagem: `${error.message} Para aumentar o acervo, cadastre novos exemplares no livro existente.`,
+                adicionarExemplares: {
+                    metodo: 'POST',
+                    rota: SERVER_ROUTES.NOVO_EXEMPLAR,
+                    corpo: { idLivro: livroExistente.idLivro }
+                }
+            };
+        }
+
+        return resposta;
+    }
+
+    /**
+     * Converte os parâmetros da query string nos filtros da listagem de livros
+     *
+     * @param query Parâmetros recebidos na query string
+     * @returns Filtros da listagem ou a mensagem de erro caso algum parâmetro seja inválido
+     */
+    private static montarFiltro(query: Record<string, string | undefined>): FiltroLivros | string {
+        const paginacao = LivroController.lerPaginacao(query);
+        if (typeof paginacao === 'string') {
+            return paginacao;
+        }
+
+        const idAutor = LivroController.numero(query.idAutor);
+        const idEditora = LivroController.numero(query.idEditora);
+        const idCategoria = LivroController.numero(query.idCategoria);
+        const anoInicio = LivroController.numero(query.anoInicio);
+        const anoFim = LivroController.numero(query.anoFim);
+        const ordenarPor = query.ordenarPor ?? 'titulo';
+        const ordem = (query.ordem ?? 'asc').toLowerCase();
+
+        if ([idAutor, idEditora, idCategoria].some((id) => id !== undefined && !Number.isInteger(id))) {
+            return 'Os parâmetros idAutor, idEditora e idCategoria devem ser números inteiros.';
+        }
+        if ((anoInicio !== undefined && !Number.isInteger(anoInicio)) || (anoFim !== undefined && !Number.isInteger(anoFim))) {
+            return 'Os parâmetros anoInicio e anoFim devem ser anos válidos.';
+        }
+        if (!(ordenarPor in ORDENACAO_LIVROS)) {
+            return `O parâmetro ordenarPor deve ser um destes valores: ${Object.keys(ORDENACAO_LIVROS).join(', ')}.`;
+        }
+        if (ordem !== 'asc' && ordem !== 'desc') {
+            return 'O parâmetro ordem deve ser asc ou desc.';
+        }
+
+        return {
+            busca: query.busca?.trim() || undefined,
+            titulo: query.titulo?.trim() || undefined,
+            autor: query.autor?.trim() || undefined,
+            editora: query.editora?.trim() || undefined,
+            isbn: query.isbn?.trim() || undefined,
+            idAutor,
+            idEditora,
+            idCategoria,
+            anoInicio,
+            anoFim,
+            apenasDisponiveis: query.disponiveis === 'true',
+            ordenarPor: ordenarPor as FiltroLivros['ordenarPor'],
+            ordem,
+            ...paginacao
+        };
+    }
+
+    /**
+     * Lê e valida os parâmetros de paginação (pagina e limite) da query string
+     *
+     * @param query Parâmetros recebidos na query string
+     * @returns Página e limite ou a mensagem de erro caso algum parâmetro seja inválido
+     */
+    private static lerPaginacao(query: Record<string, string | undefined>): { pagina: number, limite: number } | string {
+        const pagina = LivroController.numero(query.pagina) ?? 1;
+        const limite = LivroController.numero(query.limite) ?? LIMITE_PADRAO_PAGINA;
+
+        if (!Number.isInteger(pagina) || pagina < 1) {
+            return 'O parâmetro pagina deve ser um número inteiro maior que zero.';
+        }
+        if (!Number.isInteger(limite) || limite < 1 || limite > LIMITE_MAXIMO_PAGINA) {
+            return `O parâmetro limite deve ser um número inteiro entre 1 e ${LIMITE_MAXIMO_PAGINA}.`;
+        }
+
+        return { pagina, limite };
+    }
+
+    /**
+     * Lê e valida as categorias e a classificação do livro
+     *
+     * @param dados Dados recebidos no cadastro ou na atualização
+     * @returns Categorias e classificação ou a mensagem de erro caso algum valor seja inválido
+     */
+    private static lerComplemento(dados: LivroDTO): { categorias?: number[], classificacao: string | null, sistemaClassificacao: SistemaClassificacao | null } | string {
+        let categorias: number[] | undefined = undefined;
+
+        if (dados.categorias !== undefined) {
+            const valores = Array.isArray(dados.categorias) ? dados.categorias : String(dados.categorias).split(',').filter((valor) => valor.trim() !== '');
+            categorias = valores.map((valor) => Number(valor));
+
+            if (categorias.some((id) => !Number.isInteger(id) || id < 1)) {
+                return 'O campo categorias deve conter os IDs das categorias.';
+            }
+        }
+
+        const classificacao = dados.classificacao?.trim() || null;
+        if (!classificacao) {
+            return { categorias, classificacao: null, sistemaClassificacao: null };
+        }
+
+        const sistema = (dados.sistemaClassificacao ?? '').toUpperCase();
+        if (!Livro.sistemaClassificacaoValido(sistema)) {
+            return `Informe o sistema de classificação: ${Object.values(SISTEMA_CLASSIFICACAO).join(' ou ')}.`;
+        }
+        if (!Livro.classificacaoValida(sistema, classificacao)) {
+            return `Código de classificação inválido para o sistema ${sistema}.`;
+        }
+
+        return { categorias, classificacao, sistemaClassificacao: sistema };
+    }
+
+    /**
+     * Monta o texto dos autores do livro: a lista de autores, quando informada, ou o campo autor
+     */
+    private static textoAutores(dados: LivroDTO): string {
+        return Array.isArray(dados.autores) ? dados.autores.join(', ') : dados.autor;
+    }
+
+    /**
+     * Converte o parâmetro da query string em número (undefined quando não informado)
+     */
+    private static numero(valor?: string): number | undefined {
+        return valor === undefined || valor === '' ? undefined : Number(valor);
+    }
 }
 
 export default LivroController;
@@ -0,0 +1,121 @@
+import { Multa, TIPO_LANCAMENTO_MULTA } from "../model/Multa";
+import { Request, Response } from "express";
+import { ErroRegraNegocio } from "../util/ErroRegraNegocio";
+import { UsuarioAutenticado } from "../util/Auth";
+
+/**
+ * Interface LancamentoMultaDTO
+ * Define os atributos que devem ser recebidos do cliente nos pagamentos e isenções
+ */
+interface LancamentoMultaDTO {
+    idAluno: number;
+    valor: number;
+    idEmprestimo?: number;
+    descricao?: string; // descrição do pagamento (opcional)
+    motivo?: string;    // motivo da isenção (obrigatório na isenção)
+}
+
+/**
+ * Controlador para operações relacionadas às multas por atraso.
+ */
+class MultaController extends Multa {
+
+    /**
+     * Retorna o saldo devedor e o extrato de multas de um aluno.
+     * O ID do aluno deve ser informado na query string.
+     *
+     * @param req Objeto de requisição HTTP.
+     * @param res Objeto de resposta HTTP.
+     * @returns Saldo e lançamentos do aluno em formato JSON.
+     */
+    static async saldo(req: Request, res: Response): Promise<Response> {
+        try {
+            const idAluno = parseInt(req.query.idAluno as string);
+
+            if (!idAluno) {
+                return res.status(400).json({ mensagem: 'Informe o ID do aluno.' });
+            }
+
+            const extrato = await Multa.consultarSaldo(idAluno);
+
+            return res.status(200).json(extrato);
+        } catch (error) {
+            console.error('Erro ao consultar saldo de multas:', error);
+            return res.status(500).json({ mensagem: 'Erro ao consultar o saldo de multas.' });
+        }
+    }
+
+    /**
+     * Registra o pagamento de multa de um aluno.
+     *
+     * @param req Objeto de requisição HTTP com o ID do aluno e o valor pago.
+     * @param res Objeto de resposta HTTP.
+     * @returns Mensagem de sucesso com o novo saldo ou mensagem de erro.
+     */
+    static async pagar(req: Request, res: Response): Promise<Response> {
+        const dadosRecebidos: LancamentoMultaDTO = req.body;
+
+        return MultaController.registrar(req, res, TIPO_LANCAMENTO_MULTA.PAGAMENTO, dadosRecebidos.descricao ?? null);
+    }
+
+    /**
+     * Registra a isenção (perdão) de multa de um aluno.
+     * O motivo é obrigatório e o usuário que concedeu a isenção fica registrado no extrato.
+     *
+     * @param req Objeto de requisição HTTP com o ID do aluno, o valor e o motivo da isenção.
+     * @param res Objeto de resposta HTTP.
+     * @returns Mensagem de sucesso com o novo saldo ou mensagem de erro.
+     */
+    static async isentar(req: Request, res: Response): Promise<Response> {
+        const dadosRecebidos: LancamentoMultaDTO = req.body;
+
+        if (typeof dadosRecebidos.motivo !== 'string' || !dadosRecebidos.motivo.trim()) {
+            return res.status(400).json({ mensagem: 'Informe o motivo da isenção.' });
+        }
+
+        return MultaController.registrar(req, res, TIPO_LANCAMENTO_MULTA.ISENCAO, dadosRecebidos.motivo.trim());
+    }
+
+    /**
+     * Valida os dados e registra o lançamento no extrato do aluno
+     */
+    private static async registrar(req: Request, res: Response, tipo: 'pagamento' | 'isencao', descricao: string | null): Promise<Response> {
+        try {
+            const dadosRecebidos: LancamentoMultaDTO = req.body;
+            const usuario: UsuarioAutenticado = res.locals.usuario;
+            // valor arredondado para centavos antes da validação (ex.: 0.001 seria gravado como zero)
+            const valor = Math.round(Number(dadosRecebidos.valor) * 100) / 100;
+
+            // Verifica se os campos obrigatórios foram informados
+            if (!dadosRecebidos.idAluno || !Number.isFinite(valor) || valor <= 0) {
+                return res.status(400).json({ mensagem: 'Informe o ID do aluno e um valor maior que zero.' });
+            }
+
+            // O empréstimo relacionado é opcional, mas se informado deve ser um ID válido
+            const idEmprestimo = dadosRecebidos.idEmprestimo ?? null;
+            if (idEmprestimo !== null && !(Number.isInteger(Number(idEmprestimo)) && Number(idEmprestimo) > 0)) {
+                return res.status(400).json({ mensagem: 'ID do empréstimo inválido.' });
+            }
+
+            const resultado = await Multa.registrarLancamento(
+                dadosRecebidos.idAluno, tipo, valor, usuario.idUsuario, descricao, idEmprestimo
+            );
+
+            return res.status(201).json({
+                mensagem: tipo === TIPO_LANCAMENTO_MULTA.PAGAMENTO ? 'Pagamento registrado com sucesso' : 'Isenção registrada com sucesso',
+                idLancamento: resultado.idLancamento,
+                saldo: resultado.saldo
+            });
+        } catch (error) {
+            // aluno ou empréstimo inexistente, empréstimo de outro aluno ou valor maior que o saldo
+            if (error instanceof ErroRegraNegocio) {
+                return res.status(error.status).json({ mensagem: error.message, codigo: error.codigo });
+            }
+
+            console.error('Erro ao registrar lançamento de multa:', error);
+            return res.status(500).json({ mensagem: 'Erro ao registrar o lançamento de multa.' });
+        }
+    }
+}
+
+export default MultaController;
@@ -0,0 +1,142 @@
+import { Reserva } from "../model/Reserva";
+import { Aluno } from "../model/Aluno";
+import { Request, Response } from "express";
+import { ErroRegraNegocio } from "../util/ErroRegraNegocio";
+import { UsuarioAutenticado } from "../util/Auth";
+import { PERFIS_USUARIO } from "../appConfig";
+
+/**
+ * Interface ReservaDTO
+ * Define os atributos que devem ser recebidos do cliente nas requisições de reserva
+ */
+interface ReservaDTO {
+    idLivro: number;
+    idAluno?: number; // obrigatório para a equipe da biblioteca, ignorado para o perfil aluno
+}
+
+/**
+ * Controlador para operações relacionadas às reservas de livros.
+ *
+ * Usuários com perfil aluno reservam e cancelam apenas as próprias reservas; o aluno é identificado
+ * pelo e-mail do usuário. A equipe da biblioteca informa o aluno e gerencia a fila de cada livro.
+ */
+class ReservaController extends Reserva {
+
+    /**
+     * Coloca um aluno na fila de reservas de um livro.
+     *
+     * @param req Objeto de requisição HTTP com o ID do livro (e o ID do aluno, para a equipe da biblioteca).
+     * @param res Objeto de resposta HTTP.
+     * @returns ID da reserva e a posição na fila ou mensagem de erro.
+     */
+    static async cadastrar(req: Request, res: Response): Promise<Response> {
+        try {
+            const dadosRecebidos: ReservaDTO = req.body;
+
+            if (!dadosRecebidos.idLivro) {
+                return res.status(400).json({ mensagem: 'Informe o ID do livro.' });
+            }
+
+            const idAluno = await ReservaController.identificarAluno(res, dadosRecebidos.idAluno);
+
+            if (!idAluno) {
+                return res.status(400).json({ mensagem: 'Informe o ID do aluno.' });
+            }
+
+            const reserva = await Reserva.cadastrarReserva(idAluno, dadosRecebidos.idLivro);
+
+            return res.status(201).json({ mensagem: 'Reserva cadastrada com sucesso', ...reserva });
+        } catch (error) {
+            // livro disponível, reserva duplicada, aluno ou livro inexistente
+            if (error instanceof ErroRegraNegocio) {
+                return res.status(error.status).json({ mensagem: error.message, codigo: error.codigo });
+            }
+
+            console.error('Erro ao cadastrar reserva:', error);
+            return res.status(500).json({ mensagem: 'Erro ao cadastrar a reserva.' });
+        }
+    }
+
+    /**
+     * Retorna a fila de reservas ativas de um livro.
+     * O ID do livro deve ser informado na query string.
+     *
+     * @param req Objeto de requisição HTTP.
+     * @param res Objeto de resposta HTTP.
+     * @returns Fila de reservas do livro em formato JSON.
+     */
+    static async fila(req: Request, res: Response): Promise<Response> {
+        try {
+            const idLivro = parseInt(req.query.idLivro as string);
+
+            if (!idLivro) {
+                return res.status(400).json({ mensagem: 'Informe o ID do livro.' });
+            }
+
+            const filaDeReservas = await Reserva.listarFila(idLivro);
+
+            return res.status(200).json(filaDeReservas);
+        } catch (error) {
+            console.error('Erro ao listar fila de reservas:', error);
+            return res.status(500).json({ mensagem: 'Erro ao listar a fila de reservas.' });
+        }
+    }
+
+    /**
+     * Cancela uma reserva ativa.
+     * O ID da reserva deve ser informado na query string.
+     *
+     * @param req Objeto de requisição HTTP.
+     * @param res Objeto de resposta HTTP.
+     * @returns Mensagem de sucesso ou de erro.
+     */
+    static async cancelar(req: Request, res: Response): Promise<Response> {
+        try {
+            const idReserva = parseInt(req.query.idReserva as string);
+            const usuario: UsuarioAutenticado = res.locals.usuario;
+
+            if (!idReserva) {
+                return res.status(400).json({ mensagem: 'Informe o ID da reserva.' });
+            }
+
+            // alunos só podem cancelar as próprias reservas
+            let idAluno: number | undefined = undefined;
+            if (usuario.perfil === PERFIS_USUARIO.ALUNO) {
+                idAluno = (await Aluno.buscarIdAlunoPorEmail(usuario.email)) ?? 0;
+            }
+
+            await Reserva.cancelarReserva(idReserva, idAluno);
+
+            return res.status(200).json({ mensagem: 'Reserva cancelada com sucesso' });
+        } catch (error) {
+            // reserva inexistente ou já encerrada
+            if (error instanceof ErroRegraNegocio) {
+                return res.status(error.status).json({ mensagem: error.message, codigo: error.codigo });
+            }
+
+            console.error('Erro ao cancelar reserva:', error);
+            return res.status(500).json({ mensagem: 'Erro ao cancelar a reserva.' });
+        }
+    }
+
+    /**
+     * Identifica o aluno da reserva: o aluno do próprio usuário (perfil aluno) ou o aluno informado
+     */
+    private static async identificarAluno(res: Response, idAlunoInformado?: number): Promise<number | null> {
+        const usuario: UsuarioAutenticado = res.locals.usuario;
+
+        if (usuario.perfil === PERFIS_USUARIO.ALUNO) {
+            const idAluno = await Aluno.buscarIdAlunoPorEmail(usuario.email);
+
+            if (!idAluno) {
+                throw new ErroRegraNegocio('Nenhum aluno ativo cadastrado com o e-mail deste usuário.', 404, 'ALUNO_NAO_ENCONTRADO');
+            }
+
+            return idAluno;
+        }
+
+        return idAlunoInformado ?? null;
+    }
+}
+
+export default ReservaController;
@@ -0,0 +1,157 @@
+import { Turma, DadosTurma } from "../model/Turma";
+import { Request, Response } from "express";
+import { ErroRegraNegocio } from "../util/ErroRegraNegocio";
+
+/**
+ * Tamanho máximo das colunas da turma
+ */
+const TAMANHO_CODIGO = 30;
+const TAMANHO_NOME = 100;
+const TAMANHO_PERIODO = 20;
+
+/**
+ * Controlador para operações relacionadas às turmas.
+ * Os alunos de uma turma são consultados na listagem de alunos, com o filtro idTurma.
+ */
+class TurmaController extends Turma {
+
+    /**
+     * Lista as turmas cadastradas.
+     * O parâmetro busca (trecho do código ou do nome) pode ser informado na query string.
+     *
+     * @param req Objeto de requisição HTTP.
+     * @param res Objeto de resposta HTTP.
+     * @returns Lista de turmas em formato JSON.
+     */
+    static async todos(req: Request, res: Response): Promise<Response> {
+        try {
+            const busca = (req.query.busca as string | undefined)?.trim();
+            const listaDeTurmas = await Turma.listarTurmas(busca);
+
+            return res.status(200).json(listaDeTurmas);
+        } catch (error) {
+            console.error('Erro ao listar turmas:', error);
+            return res.status(500).json({ mensagem: 'Erro ao listar as turmas.' });
+        }
+    }
+
+    /**
+     * Cadastra uma nova turma.
+     *
+     * @param req Objeto de requisição HTTP com o código, o nome e o período da turma.
+     * @param res Objeto de resposta HTTP.
+     * @returns Turma cadastrada ou mensagem de erro.
+     */
+    static async cadastrar(req: Request, res: Response): Promise<Response> {
+        try {
+            const dadosRecebidos: DadosTurma = req.body;
+
+            const erroValidacao = TurmaController.validarDados(dadosRecebidos);
+            if (erroValidacao) {
+                return res.status(400).json({ mensagem: erroValidacao });
+            }
+
+            const turma = await Turma.cadastrarTurma(dadosRecebidos);
+
+            return res.status(201).json({ mensagem: 'Turma cadastrada com sucesso', turma });
+        } catch (error) {
+            // turma já cadastrada
+            if (error instanceof ErroRegraNegocio) {
+                return res.status(error.status).json({ mensagem: error.message, codigo: error.codigo });
+            }
+
+            console.error('Erro ao cadastrar turma:', error);
+            return res.status(500).json({ mensagem: 'Erro ao cadastrar a turma.' });
+        }
+    }
+
+    /**
+     * Altera o código, o nome ou o período de uma turma.
+     * O ID da turma deve ser informado na query string.
+     *
+     * @param req Objeto de requisição HTTP com os novos dados.
+     * @param res Objeto de resposta HTTP.
+     * @returns Mensagem de sucesso ou de erro.
+     */
+    static async atualizar(req: Request, res: Response): Promise<Response> {
+        try {
+            const idTurma = parseInt(req.query.idTurma as string);
+            const dadosRecebidos: DadosTurma = req.body;
+
+            if (!idTurma) {
+                return res.status(400).json({ mensagem: 'Informe o ID da turma.' });
+            }
+
+            const erroValidacao = TurmaController.validarDados(dadosRecebidos);
+            if (erroValidacao) {
+                return res.status(400).json({ mensagem: erroValidacao });
+            }
+
+            await Turma.atualizarTurma(idTurma, dadosRecebidos);
+
+            return res.status(200).json({ mensagem: 'Turma atualizada com sucesso' });
+        } catch (error) {
+            // turma inexistente ou código já cadastrado
+            if (error instanceof ErroRegraNegocio) {
+                return res.status(error.status).json({ mensagem: error.message, codigo: error.codigo });
+            }
+
+            console.error('Erro ao atualizar turma:', error);
+            return res.status(500).json({ mensagem: 'Erro ao atualizar a turma.' });
+        }
+    }
+
+    /**
+     * Remove uma turma sem alunos ativos.
+     * O ID da turma deve ser informado na query string.
+     *
+     * @param req Objeto de requisição HTTP.
+     * @param res Objeto de resposta HTTP.
+     * @returns Mensagem de sucesso ou de erro.
+     */
+    static async remover(req: Request, res: Response): Promise<Response> {
+        try {
+            const idTurma = parseInt(req.query.idTurma as string);
+
+            if (!idTurma) {
+                return res.status(400).json({ mensagem: 'Informe o ID da turma.' });
+            }
+
+            await Turma.removerTurma(idTurma);
+
+            return res.status(200).json({ mensagem: 'Turma removida com sucesso' });
+        } catch (error) {
+            // turma inexistente ou com alunos ativos
+            if (error instanceof ErroRegraNegocio) {
+                return res.status(error.status).json({ mensagem: error.message, codigo: error.codigo });
+            }
+
+            console.error('Erro ao remover turma:', error);
+            return res.status(500).json({ mensagem: 'Erro ao remover a turma.' });
+        }
+    }
+
+    /**
+     * Valida os dados da turma recebidos no cadastro e na atualização
+     *
+     * @returns Mensagem de erro ou null quando os dados são válidos
+     */
+    private static validarDados(dados: DadosTurma): string | null {
+        if (!dados.codigo?.trim()) {
+            return 'Informe o código da turma.';
+        }
+        if (dados.codigo.trim().length > TAMANHO_CODIGO) {
+            return `O código da turma deve ter no máximo ${TAMANHO_CODIGO} caracteres.`;
+        }
+        if ((dados.nome?.trim().length ?? 0) > TAMANHO_NOME) {
+            return `O nome da turma deve ter no máximo ${TAMANHO_NOME} caracteres.`;
+        }
+        if ((dados.periodo?.trim().length ?? 0) > TAMANHO_PERIODO) {
+            return `O período da turma deve ter no máximo ${TAMANHO_PERIODO} caracteres.`;
+        }
+
+        return null;
+    }
+}
+
+export default TurmaController;
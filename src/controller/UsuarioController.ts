@@ -2,6 +2,12 @@ import { Usuario } from "../model/Usuario"; // modelo do usuário
 import { Request, Response } from "express"; // Request e Response do express
 import fs from 'fs'; // Importa o módulo fs para manipulação de arquivos (file system)
 import path from 'path';  // Importa o módulo path para lidar com caminhos de arquivos e diretórios
+import { Senha } from "../util/Senha"; // geração e validação de senhas
+import { ErroRegraNegocio } from "../util/ErroRegraNegocio"; // erros de regra de negócio
+import { UsuarioAutenticado } from "../util/Auth"; // usuário gravado no token
+import { PERFIS_USUARIO } from "../appConfig"; // perfis de acesso dos usuários
+import { RedefinicaoSenha } from "../model/RedefinicaoSenha"; // tokens de redefinição de senha
+import { Email } from "../mail/Email"; // envio de e-mails
 
 /**
  * Interface UsuarioDTO
@@ -11,7 +17,46 @@ interface UsuarioDTO {
     nome: string;       // Nome completo do usuário
     username: string;   // Nome de usuário para login
     email: string;      // Endereço de e-mail
-    senha: string;      // Senha de acesso
+    senha?: string;     // Senha de acesso (opcional, uma senha aleatória é gerada caso não seja informada)
+    perfil?: string;    // Perfil de acesso (admin, bibliotecario ou aluno), padrão aluno
+}
+
+/**
+ * Interface SenhaDTO
+ * Define os atributos esperados na requisição de troca de senha
+ */
+interface SenhaDTO {
+    senhaAtual?: string; // Senha atual (obrigatória quando o usuário troca a própria senha)
+    novaSenha: string;   // Nova senha de acesso
+}
+
+/**
+ * Interface RedefinicaoSenhaDTO
+ * Define os atributos esperados nas requisições de redefinição de senha
+ */
+interface RedefinicaoSenhaDTO {
+    email?: string;      // E-mail do usuário (solicitação)
+    token?: string;      // Token recebido por e-mail (confirmação)
+    novaSenha?: string;  // Nova senha de acesso (confirmação)
+}
+
+/**
+ * Monta as informações públicas do usuário, sem a senha, para retornar ao cliente
+ *
+ * @param usuario Objeto Usuario
+ * @returns Objeto com as informações públicas do usuário
+ */
+function dadosPublicos(usuario: Usuario) {
+    return {
+        idUsuario: usuario.getIdUsuario(),
+        uuid: usuario.getUuidUsuario(),
+        nome: usuario.getNome(),
+        username: usuario.getUsername(),
+        email: usuario.getEmail(),
+        perfil: usuario.getPerfil(),
+        statusUsuario: usuario.getStatusUsuario(),
+        imagemPerfil: usuario.getImagemPerfil()
+    };
 }
 
 /**
@@ -19,6 +64,49 @@ interface UsuarioDTO {
  */
 class UsuarioController extends Usuario {
 
+    /**
+     * Lista todos os usuários.
+     * @param req Objeto de requisição HTTP.
+     * @param res Objeto de resposta HTTP.
+     * @returns Lista de usuários em formato JSON.
+     */
+    static async todos(req: Request, res: Response): Promise<Response> {
+        try {
+            const listaDeUsuarios = await Usuario.listarUsuarios();
+
+            // Verifica se a consulta foi executada com sucesso
+            if (!listaDeUsuarios) {
+                return res.status(500).json({ erro: 'Erro ao recuperar as informações dos usuários' });
+            }
+
+            return res.status(200).json(listaDeUsuarios.map(dadosPublicos));
+        } catch (error) {
+            console.error('Erro ao listar usuários:', error);
+            return res.status(500).json({ erro: 'Erro ao recuperar as informações dos usuários' });
+        }
+    }
+
+    /**
+     * Retorna as informações de um usuário.
+     * @param req Objeto de requisição HTTP com o UUID do usuário na query string.
+     * @param res Objeto de resposta HTTP.
+     * @returns Informações do usuário em formato JSON.
+     */
+    static async usuario(req: Request, res: Response): Promise<Response> {
+        try {
+            const usuario = await Usuario.buscarUsuario(req.query.uuid as string);
+
+            if (!usuario) {
+                return res.status(404).json({ erro: 'Usuário não encontrado' });
+            }
+
+            return res.status(200).json(dadosPublicos(usuario));
+        } catch (error) {
+            console.error('Erro ao consultar usuário:', error);
+            return res.status(500).json({ erro: 'Erro ao consultar usuário' });
+        }
+    }
+
     /**
      * Cadastra um novo usuário.
      * Também processa o upload da imagem de perfil, se fornecida.
@@ -39,8 +127,33 @@ class UsuarioController extends Usuario {
                 dadosRecebidos.email
             );
 
-            // Define a senha do usuário (armazenada de forma segura no modelo)
-            novoUsuario.setSenha(dadosRecebidos.senha);
+            // Verifica se o username ou o e-mail já estão em uso
+            const conflito = await Usuario.verificarDuplicidade(dadosRecebidos.username, dadosRecebidos.email);
+            if (conflito) {
+                return res.status(409).json({ erro: `Já existe um usuário cadastrado com este ${conflito === 'email' ? 'e-mail' : 'username'}.`, campo: conflito });
+            }
+
+            // Define o perfil de acesso, caso informado
+            if (dadosRecebidos.perfil) {
+                if (!Usuario.perfilValido(dadosRecebidos.perfil)) {
+                    return res.status(400).json({ erro: 'Perfil inválido. Utilize admin, bibliotecario ou aluno.' });
+                }
+                novoUsuario.setPerfil(dadosRecebidos.perfil);
+            }
+
+            // Caso a senha não seja informada, gera uma senha aleatória que deverá ser trocada no primeiro login
+            let senhaTemporaria: string | undefined;
+            if (dadosRecebidos.senha) {
+                const erroSenha = Senha.validarSenha(dadosRecebidos.senha);
+                if (erroSenha) {
+                    return res.status(400).json({ erro: erroSenha });
+                }
+                novoUsuario.setSenha(dadosRecebidos.senha);
+            } else {
+                senhaTemporaria = Senha.gerarSenhaAleatoria();
+                novoUsuario.setSenha(senhaTemporaria);
+                novoUsuario.setTrocaSenhaObrigatoria(true);
+            }
 
             // Cadastra o usuário no banco de dados e obtém seu UUID
             const uuid = await Usuario.cadastroUsuario(novoUsuario);
@@ -63,13 +176,261 @@ class UsuarioController extends Usuario {
             }
 
             // Retorna sucesso
-            return res.status(201).json({ mensagem: 'Usuário cadastrado com sucesso' });
+            // A senha temporária é exibida somente nesta resposta, no banco de dados fica apenas o hash
+            return res.status(201).json({ mensagem: 'Usuário cadastrado com sucesso', senhaTemporaria });
         } catch (error) {
+            // Conflito de username ou e-mail detectado pelo banco de dados
+            if (error instanceof ErroRegraNegocio) {
+                return res.status(error.status).json({ erro: error.message, codigo: error.codigo });
+            }
+
             // Em caso de erro, registra nos logs e retorna erro para o cliente
             console.error('Erro ao cadastrar usuário:', error);
             res.status(500).json({ erro: 'Erro ao cadastrar usuário', detalhes: error });
         }
     }
+
+    /**
+     * Atualiza o nome, o username, o e-mail e o perfil de um usuário.
+     * @param req Objeto de requisição HTTP com o UUID na query string e os novos dados no corpo.
+     * @param res Objeto de resposta HTTP.
+     * @returns Mensagem de sucesso ou erro em formato JSON.
+     */
+    static async atualizar(req: Request, res: Response): Promise<Response> {
+        try {
+            const dadosRecebidos: UsuarioDTO = req.body;
+            const uuid = req.query.uuid as string;
+
+            // Verifica se os campos obrigatórios foram informados
+            if (!uuid || !dadosRecebidos.nome || !dadosRecebidos.username || !dadosRecebidos.email) {
+                return res.status(400).json({ erro: 'Informe o uuid, o nome, o username e o e-mail.' });
+            }
+
+            // Recupera o usuário que será atualizado
+            const usuario = await Usuario.buscarUsuario(uuid);
+            if (!usuario) {
+                return res.status(404).json({ erro: 'Usuário não encontrado' });
+            }
+
+            // Verifica se o username ou o e-mail já estão em uso por outro usuário
+            const conflito = await Usuario.verificarDuplicidade(dadosRecebidos.username, dadosRecebidos.email, uuid);
+            if (conflito) {
+                return res.status(409).json({ erro: `Já existe um usuário cadastrado com este ${conflito === 'email' ? 'e-mail' : 'username'}.`, campo: conflito });
+            }
+
+            // Atualiza o perfil, caso informado
+            if (dadosRecebidos.perfil) {
+                if (!Usuario.perfilValido(dadosRecebidos.perfil)) {
+                    return res.status(400).json({ erro: 'Perfil inválido. Utilize admin, bibliotecario ou aluno.' });
+                }
+                usuario.setPerfil(dadosRecebidos.perfil);
+            }
+
+            usuario.setNome(dadosRecebidos.nome);
+            usuario.setUsername(dadosRecebidos.username);
+            usuario.setEmail(dadosRecebidos.email);
+
+            // Persiste as alterações no banco de dados
+            if (await Usuario.atualizarUsuario(usuario)) {
+                return res.status(200).json({ mensagem: 'Usuário atualizado com sucesso', usuario: dadosPublicos(usuario) });
+            }
+
+            return res.status(500).json({ erro: 'Erro ao atualizar usuário' });
+        } catch (error) {
+            // Conflito de username ou e-mail detectado pelo banco de dados
+            if (error instanceof ErroRegraNegocio) {
+                return res.status(error.status).json({ erro: error.message, codigo: error.codigo });
+            }
+
+            console.error('Erro ao atualizar usuário:', error);
+            return res.status(500).json({ erro: 'Erro ao atualizar usuário' });
+        }
+    }
+
+    /**
+     * Desativa um usuário, impedindo que ele realize login.
+     * @param req Objeto de requisição HTTP com o UUID do usuário na query string.
+     * @param res Objeto de resposta HTTP.
+     * @returns Mensagem de sucesso ou erro em formato JSON.
+     */
+    static async desativar(req: Request, res: Response): Promise<Response> {
+        const usuarioLogado: UsuarioAutenticado = res.locals.usuario;
+
+        // Impede que o administrador desative a própria conta
+        if (req.query.uuid === usuarioLogado.uuid) {
+            return res.status(400).json({ erro: 'Não é possível desativar o próprio usuário.' });
+        }
+
+        return UsuarioController.alterarStatus(req, res, false);
+    }
+
+    /**
+     * Reativa um usuário desativado.
+     * @param req Objeto de requisição HTTP com o UUID do usuário na query string.
+     * @param res Objeto de resposta HTTP.
+     * @returns Mensagem de sucesso ou erro em formato JSON.
+     */
+    static async reativar(req: Request, res: Response): Promise<Response> {
+        return UsuarioController.alterarStatus(req, res, true);
+    }
+
+    /**
+     * Troca a senha de um usuário.
+     * O próprio usuário deve informar a senha atual. Um administrador pode definir a senha
+     * de outro usuário informando o UUID na query string; nesse caso o usuário deverá
+     * trocar a senha no próximo login.
+     *
+     * @param req Objeto de requisição HTTP com a senha atual e a nova senha.
+     * @param res Objeto de resposta HTTP.
+     * @returns Mensagem de sucesso ou erro em formato JSON.
+     */
+    static async alterarSenha(req: Request, res: Response): Promise<Response> {
+        try {
+            const dadosRecebidos: SenhaDTO = req.body;
+            const usuarioLogado: UsuarioAutenticado = res.locals.usuario;
+
+            // Define de qual usuário a senha será alterada
+            const uuid = (req.query.uuid as string) || usuarioLogado.uuid;
+            const proprioUsuario = uuid === usuarioLogado.uuid;
+
+            // Somente administradores podem alterar a senha de outros usuários
+            if (!proprioUsuario && usuarioLogado.perfil !== PERFIS_USUARIO.ADMIN) {
+                return res.status(403).json({ auth: true, mensagem: 'Acesso negado. Seu perfil não possui permissão para este recurso.' });
+            }
+
+            // Valida a nova senha
+            const erroSenha = Senha.validarSenha(dadosRecebidos.novaSenha);
+            if (erroSenha) {
+                return res.status(400).json({ erro: erroSenha });
+            }
+
+            // Recupera o usuário
+            const usuario = await Usuario.buscarUsuario(uuid);
+            if (!usuario) {
+                return res.status(404).json({ erro: 'Usuário não encontrado' });
+            }
+
+            // O próprio usuário precisa confirmar a senha atual
+            if (proprioUsuario && !(await Senha.verificar(dadosRecebidos.senhaAtual ?? '', usuario.getSenha()))) {
+                return res.status(401).json({ erro: 'Senha atual incorreta.' });
+            }
+
+            // Grava a nova senha
+            if (await Usuario.atualizarSenha(usuario.getIdUsuario(), dadosRecebidos.novaSenha, !proprioUsuario)) {
+                return res.status(200).json({ mensagem: 'Senha alterada com sucesso. As sessões abertas foram encerradas, realize o login novamente.' });
+            }
+
+            return res.status(500).json({ erro: 'Erro ao alterar senha' });
+        } catch (error) {
+            console.error('Erro ao alterar senha:', error);
+            return res.status(500).json({ erro: 'Erro ao alterar senha' });
+        }
+    }
+
+    /**
+     * Solicita a redefinição de senha.
+     * Gera um token de uso único e envia por e-mail ao usuário. A resposta é sempre a mesma,
+     * exista ou não o e-mail informado, para não revelar quais e-mails estão cadastrados.
+     *
+     * @param req Objeto de requisição HTTP com o e-mail do usuário.
+     * @param res Objeto de resposta HTTP.
+     * @returns Mensagem de sucesso ou erro em formato JSON.
+     */
+    static async solicitarRedefinicaoSenha(req: Request, res: Response): Promise<Response> {
+        try {
+            const { email }: RedefinicaoSenhaDTO = req.body;
+
+            if (!email) {
+                return res.status(400).json({ erro: 'Informe o e-mail.' });
+            }
+
+            // Busca o usuário pelo e-mail, somente usuários ativos podem redefinir a senha
+            const usuario = await Usuario.buscarUsuarioLogin(email);
+            if (usuario && usuario.getEmail() === email && usuario.getStatusUsuario()) {
+                // Gera o token e envia o e-mail com as instruções
+                const token = await RedefinicaoSenha.gerarToken(usuario.getIdUsuario());
+                const urlBase = process.env.FRONTEND_URL ?? `${process.env.SERVER_URL}:${process.env.SERVER_PORT}`;
+
+                await Email.enviar({
+                    para: usuario.getEmail(),
+                    assunto: 'Redefinição de senha - Biblioteca',
+                    texto: `Olá, ${usuario.getNome()}.\n\n` +
+                        `Recebemos uma solicitação para redefinir a sua senha. Utilize o link abaixo:\n\n` +
+                        `${urlBase}/redefinir-senha?token=${token}\n\n` +
+                        `O link é válido por ${RedefinicaoSenha.getValidadeMinutos()} minutos e pode ser utilizado uma única vez.\n` +
+                        `Se você não solicitou a redefinição, ignore este e-mail.`
+                });
+            }
+
+            return res.status(200).json({ mensagem: 'Se o e-mail estiver cadastrado, você receberá as instruções para redefinir a senha.' });
+        } catch (error) {
+            console.error('Erro ao solicitar redefinição de senha:', error);
+            return res.status(500).json({ erro: 'Erro ao solicitar redefinição de senha' });
+        }
+    }
+
+    /**
+     * Confirma a redefinição de senha a partir do token recebido por e-mail.
+     *
+     * @param req Objeto de requisição HTTP com o token e a nova senha.
+     * @param res Objeto de resposta HTTP.
+     * @returns Mensagem de sucesso ou erro em formato JSON.
+     */
+    static async confirmarRedefinicaoSenha(req: Request, res: Response): Promise<Response> {
+        try {
+            const { token, novaSenha }: RedefinicaoSenhaDTO = req.body;
+
+            if (!token) {
+                return res.status(400).json({ erro: 'Informe o token.' });
+            }
+
+            // Valida a nova senha
+            const erroSenha = Senha.validarSenha(novaSenha);
+            if (erroSenha) {
+                return res.status(400).json({ erro: erroSenha });
+            }
+
+            // Redefine a senha, caso o token seja válido
+            const idUsuario = await RedefinicaoSenha.redefinirSenha(token, novaSenha as string);
+            if (!idUsuario) {
+                return res.status(400).json({ erro: 'Token inválido, expirado ou já utilizado.' });
+            }
+
+            return res.status(200).json({ mensagem: 'Senha redefinida com sucesso' });
+        } catch (error) {
+            console.error('Erro ao redefinir senha:', error);
+            return res.status(500).json({ erro: 'Erro ao redefinir senha' });
+        }
+    }
+
+    /**
+     * Altera o status (ativo/desativado) de um usuário
+     *
+     * @param req Objeto de requisição HTTP com o UUID do usuário na query string.
+     * @param res Objeto de resposta HTTP.
+     * @param status **true** para reativar, **false** para desativar
+     * @returns Mensagem de sucesso ou erro em formato JSON.
+     */
+    private static async alterarStatus(req: Request, res: Response, status: boolean): Promise<Response> {
+        try {
+            const uuid = req.query.uuid as string;
+
+            // Verifica se o usuário existe
+            const usuario = await Usuario.buscarUsuario(uuid);
+            if (!usuario) {
+                return res.status(404).json({ erro: 'Usuário não encontrado' });
+            }
+
+            if (await Usuario.alterarStatusUsuario(uuid, status)) {
+                return res.status(200).json({ mensagem: status ? 'Usuário reativado com sucesso' : 'Usuário desativado com sucesso' });
+            }
+
+            return res.status(500).json({ erro: 'Erro ao alterar o status do usuário' });
+        } catch (error) {
+            console.error('Erro ao alterar status do usuário:', error);
+            return res.status(500).json({ erro: 'Erro ao alterar o status do usuário' });
+        }
+    }
 }
 
 export default UsuarioController;
\ No newline at end of file
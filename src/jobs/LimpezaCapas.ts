@@ -0,0 +1,96 @@
+import { CapaLivro } from "../model/CapaLivro";
+
+/**
+ * Interface RelatorioLimpezaCapas
+ * Define o relatório gerado a cada execução da limpeza das capas
+ */
+export interface RelatorioLimpezaCapas {
+    dataExecucao: Date;                // Data e hora da execução
+    origem: 'agendada' | 'manual';     // Execução automática ou solicitada por um usuário
+    arquivosVerificados: number;       // Arquivos encontrados no diretório de capas
+    arquivosRemovidos: string[];       // Arquivos que não pertenciam a nenhum livro
+    bytesLiberados: number;            // Espaço liberado em disco
+}
+
+/**
+ * Tarefa que apaga os arquivos de capa que nenhum livro referencia.
+ * É executada ao iniciar o servidor e depois periodicamente, no intervalo definido
+ * em INTERVALO_LIMPEZA_CAPAS_HORAS, e também pode ser executada manualmente.
+ */
+export class LimpezaCapas {
+    private static ultimoRelatorio: RelatorioLimpezaCapas | null = null; // Relatório da última execução
+    private static emExecucao: Promise<RelatorioLimpezaCapas> | null = null; // Execução em andamento
+    private static temporizador: NodeJS.Timeout | null = null; // Temporizador das execuções agendadas
+
+    /**
+     * Inicia o agendamento: executa a limpeza imediatamente e depois a cada intervalo
+     */
+    static iniciar(): void {
+        if (LimpezaCapas.temporizador) {
+            return;
+        }
+
+        // intervalo em horas (padrão: 24)
+        const intervaloHoras = Number(process.env.INTERVALO_LIMPEZA_CAPAS_HORAS) || 24;
+
+        LimpezaCapas.executarAgendada();
+        LimpezaCapas.temporizador = setInterval(LimpezaCapas.executarAgendada, intervaloHoras * 60 * 60 * 1000);
+
+        console.log(`Limpeza dos arquivos de capa agendada a cada ${intervaloHoras} hora(s)`);
+    }
+
+    /**
+     * Executa a limpeza dos arquivos de capa.
+     * Caso já exista uma execução em andamento, aguarda e retorna o resultado dela.
+     *
+     * @param origem Indica se a execução foi agendada ou manual
+     * @returns Relatório com os arquivos removidos
+     */
+    static async executar(origem: 'agendada' | 'manual'): Promise<RelatorioLimpezaCapas> {
+        if (LimpezaCapas.emExecucao) {
+            return LimpezaCapas.emExecucao;
+        }
+
+        LimpezaCapas.emExecucao = (async () => {
+            const resultado = await CapaLivro.limparArquivosOrfaos();
+
+            const relatorio: RelatorioLimpezaCapas = {
+                dataExecucao: new Date(),
+                origem: origem,
+                ...resultado
+            };
+
+            LimpezaCapas.ultimoRelatorio = relatorio;
+            return relatorio;
+        })();
+
+        try {
+            return await LimpezaCapas.emExecucao;
+        } finally {
+            LimpezaCapas.emExecucao = null;
+        }
+    }
+
+    /**
+     * Retorna o relatório da última execução
+     *
+     * @returns Relatório da última execução ou null caso a limpeza ainda não tenha sido executada
+     */
+    static getUltimoRelatorio(): RelatorioLimpezaCapas | null {
+        return LimpezaCapas.ultimoRelatorio;
+    }
+
+    /**
+     * Execução agendada, os erros são apenas registrados para não interromper o agendamento
+     */
+    private static async executarAgendada(): Promise<void> {
+        try {
+            const relatorio = await LimpezaCapas.executar('agendada');
+            if (relatorio.arquivosRemovidos.length > 0) {
+                console.log(`Limpeza de capas: ${relatorio.arquivosRemovidos.length} arquivo(s) sem livro removido(s)`);
+            }
+        } catch (error) {
+            console.error(`Erro na limpeza dos arquivos de capa: ${error}`);
+        }
+    }
+}
@@ -0,0 +1,105 @@
+import { Emprestimo } from "../model/Emprestimo";
+import { Multa } from "../model/Multa";
+import { Reserva } from "../model/Reserva";
+import { POLITICA_EMPRESTIMO } from "../config/emprestimoConfig";
+
+/**
+ * Interface RelatorioAtrasos
+ * Define o relatório gerado a cada execução da verificação de atrasos
+ */
+export interface RelatorioAtrasos {
+    dataExecucao: Date;                // Data e hora da execução
+    origem: 'agendada' | 'manual';     // Execução automática ou solicitada por um usuário
+    quantidadeAtualizada: number;      // Quantidade de empréstimos marcados como atrasados
+    emprestimos: Array<any>;           // Empréstimos que tiveram o status alterado
+    multasGeradas: Array<any>;         // Cobranças de multa geradas pelos dias de atraso
+    reservasExpiradas: Array<any>;     // Reservas não retiradas dentro do prazo
+}
+
+/**
+ * Tarefa que marca como atrasados os empréstimos vencidos, gera as cobranças de multa dos dias de atraso
+ * e expira as reservas não retiradas dentro do prazo.
+ * É executada ao iniciar o servidor e depois periodicamente, no intervalo definido
+ * em INTERVALO_VERIFICACAO_ATRASOS_MIN, e também pode ser executada manualmente.
+ */
+export class VerificacaoAtrasos {
+    private static ultimoRelatorio: RelatorioAtrasos | null = null; // Relatório da última execução
+    private static emExecucao: Promise<RelatorioAtrasos> | null = null; // Execução em andamento
+    private static temporizador: NodeJS.Timeout | null = null; // Temporizador das execuções agendadas
+
+    /**
+     * Inicia o agendamento: executa a verificação imediatamente e depois a cada intervalo
+     */
+    static iniciar(): void {
+        if (VerificacaoAtrasos.temporizador) {
+            return;
+        }
+
+        const intervalo = POLITICA_EMPRESTIMO.INTERVALO_VERIFICACAO_ATRASOS_MIN * 60 * 1000;
+
+        VerificacaoAtrasos.executarAgendada();
+        VerificacaoAtrasos.temporizador = setInterval(VerificacaoAtrasos.executarAgendada, intervalo);
+
+        console.log(`Verificação de empréstimos atrasados agendada a cada ${POLITICA_EMPRESTIMO.INTERVALO_VERIFICACAO_ATRASOS_MIN} minuto(s)`);
+    }
+
+    /**
+     * Executa a verificação de atrasos.
+     * Caso já exista uma execução em andamento, aguarda e retorna o resultado dela.
+     *
+     * @param origem Indica se a execução foi agendada ou manual
+     * @returns Relatório com os empréstimos alterados
+     */
+    static async executar(origem: 'agendada' | 'manual'): Promise<RelatorioAtrasos> {
+        if (VerificacaoAtrasos.emExecucao) {
+            return VerificacaoAtrasos.emExecucao;
+        }
+
+        VerificacaoAtrasos.emExecucao = (async () => {
+            const emprestimos = await Emprestimo.marcarEmprestimosAtrasados();
+            const multasGeradas = await Multa.acumularMultas();
+            const reservasExpiradas = await Reserva.expirarReservas();
+
+            const relatorio: RelatorioAtrasos = {
+                dataExecucao: new Date(),
+                origem: origem,
+                quantidadeAtualizada: emprestimos.length,
+                emprestimos: emprestimos,
+                multasGeradas: multasGeradas,
+                reservasExpiradas: reservasExpiradas
+            };
+
+            VerificacaoAtrasos.ultimoRelatorio = relatorio;
+            return relatorio;
+        })();
+
+        try {
+            return await VerificacaoAtrasos.emExecucao;
+        } finally {
+            VerificacaoAtrasos.emExecucao = null;
+        }
+    }
+
+    /**
+     * Retorna o relatório da última execução
+     *
+     * @returns Relatório da última execução ou null caso a verificação ainda não tenha sido executada
+     */
+    static getUltimoRelatorio(): RelatorioAtrasos | null {
+        return VerificacaoAtrasos.ultimoRelatorio;
+    }
+
+    /**
+     * Execução agendada, os erros são apenas registrados para não interromper o agendamento
+     */
+    private static async executarAgendada(): Promise<void> {
+        try {
+            const relatorio = await VerificacaoAtrasos.executar('agendada');
+            if (relatorio.quantidadeAtualizada > 0) {
+                console.log(`Verificação de atrasos: ${relatorio.quantidadeAtualizada} empréstimo(s) marcado(s) como atrasado(s)`);
+            }
+        } catch (error) {
+            console.error(`Erro na verificação de empréstimos atrasados: ${error}`);
+        }
+    }
+}
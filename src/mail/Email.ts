@@ -0,0 +1,51 @@
+import path from 'path'; // Módulo para trabalhar com caminhos de arquivos
+import dotenv from 'dotenv';
+import { MensagemEmail, TransporteEmail } from "./TransporteEmail";
+import { OutboxArquivo } from "./OutboxArquivo";
+import { OutboxBanco } from "./OutboxBanco";
+
+dotenv.config();
+
+/**
+ * Classe responsável pelo envio dos e-mails do sistema.
+ *
+ * O transporte utilizado é definido pela variável de ambiente **MAIL_TRANSPORT**:
+ * - **arquivo** (padrão): grava as mensagens na pasta definida em MAIL_OUTBOX_DIR (padrão: outbox)
+ * - **banco**: grava as mensagens na tabela email_outbox
+ */
+export class Email {
+    private static transporte: TransporteEmail | null = null; // Transporte em uso
+
+    /**
+     * Define o transporte utilizado no envio dos e-mails (útil para testes ou novos transportes)
+     *
+     * @param transporte Transporte de e-mail
+     */
+    static definirTransporte(transporte: TransporteEmail): void {
+        Email.transporte = transporte;
+    }
+
+    /**
+     * Envia uma mensagem utilizando o transporte configurado
+     *
+     * @param mensagem Mensagem a ser enviada
+     */
+    static async enviar(mensagem: MensagemEmail): Promise<void> {
+        if (!Email.transporte) {
+            Email.transporte = Email.criarTransporte();
+        }
+
+        await Email.transporte.enviar(mensagem);
+    }
+
+    /**
+     * Cria o transporte de acordo com a variável de ambiente MAIL_TRANSPORT
+     */
+    private static criarTransporte(): TransporteEmail {
+        if (process.env.MAIL_TRANSPORT === 'banco') {
+            return new OutboxBanco();
+        }
+
+        return new OutboxArquivo(path.resolve(__dirname, '..', '..', process.env.MAIL_OUTBOX_DIR ?? 'outbox'));
+    }
+}
@@ -0,0 +1,41 @@
+import fs from 'fs'; // Módulo para manipulação de arquivos
+import path from 'path'; // Módulo para trabalhar com caminhos de arquivos
+import crypto from 'crypto'; // Módulo para gerar valores aleatórios
+import { MensagemEmail, TransporteEmail } from "./TransporteEmail";
+
+/**
+ * Transporte de e-mail que grava cada mensagem como um arquivo JSON em uma pasta local (outbox).
+ * Permite utilizar e testar o envio de e-mails sem um servidor SMTP.
+ */
+export class OutboxArquivo implements TransporteEmail {
+    private diretorio: string; // Pasta onde as mensagens são gravadas
+
+    /**
+     * Construtor da classe OutboxArquivo
+     *
+     * @param diretorio Pasta onde as mensagens serão gravadas
+     */
+    constructor(diretorio: string) {
+        this.diretorio = diretorio;
+    }
+
+    /**
+     * Grava a mensagem na pasta de saída
+     *
+     * @param mensagem Mensagem a ser gravada
+     */
+    async enviar(mensagem: MensagemEmail): Promise<void> {
+        // Garante que a pasta de saída exista
+        await fs.promises.mkdir(this.diretorio, { recursive: true });
+
+        // Nome do arquivo: data/hora + hash aleatório, mantendo a ordem de criação
+        const dataCriacao = new Date();
+        const nomeArquivo = `${dataCriacao.toISOString().replace(/[:.]/g, '-')}-${crypto.randomBytes(4).toString('hex')}.json`;
+
+        await fs.promises.writeFile(
+            path.join(this.diretorio, nomeArquivo),
+            JSON.stringify({ ...mensagem, dataCriacao }, null, 2),
+            'utf-8'
+        );
+    }
+}
@@ -0,0 +1,23 @@
+import { DataBaseModel } from "../model/DataBaseModel";
+import { MensagemEmail, TransporteEmail } from "./TransporteEmail";
+
+// Recupera conexão com o banco de dados
+const database = new DataBaseModel().pool;
+
+/**
+ * Transporte de e-mail que grava cada mensagem na tabela email_outbox.
+ * Um processo externo pode ler a tabela, entregar as mensagens e preencher a data de envio.
+ */
+export class OutboxBanco implements TransporteEmail {
+
+    /**
+     * Grava a mensagem na tabela email_outbox
+     *
+     * @param mensagem Mensagem a ser gravada
+     */
+    async enviar(mensagem: MensagemEmail): Promise<void> {
+        const query = `INSERT INTO email_outbox (destinatario, assunto, corpo) VALUES ($1, $2, $3)`;
+
+        await database.query(query, [mensagem.para, mensagem.assunto, mensagem.texto]);
+    }
+}
@@ -0,0 +1,23 @@
+/**
+ * Interface MensagemEmail
+ * Define as informações de um e-mail enviado pelo sistema
+ */
+export interface MensagemEmail {
+    para: string;     // Endereço de e-mail do destinatário
+    assunto: string;  // Assunto do e-mail
+    texto: string;    // Corpo do e-mail em texto puro
+}
+
+/**
+ * Interface TransporteEmail
+ * Define o contrato que toda forma de entrega de e-mails deve seguir.
+ * Novas formas de entrega (SMTP, serviços externos) devem implementar esta interface.
+ */
+export interface TransporteEmail {
+    /**
+     * Entrega a mensagem ao destinatário
+     *
+     * @param mensagem Mensagem a ser entregue
+     */
+    enviar(mensagem: MensagemEmail): Promise<void>;
+}
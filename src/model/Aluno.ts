@@ -1,4 +1,5 @@
 import { DataBaseModel } from "./DataBaseModel";
+import { STATUS_EMPRESTIMO } from "./Emprestimo";
 
 // Recupera conexão com o banco de dados
 const database = new DataBaseModel().pool;
@@ -16,6 +17,7 @@ export class Aluno {
     private email: string; //E-mail do aluno
     private celular: string; // Celular do aluno
     private statusAluno: boolean = true; // Controla o status do aluno no sistema
+    private idTurma: number | null = null; // Turma do aluno
 
     /**
      * Construtor da classe Aluno
@@ -184,24 +186,43 @@ export class Aluno {
         this.statusAluno = _statusAluno;
     }
 
+    /**
+     * Retorna o ID da turma do aluno
+     * 
+     * @returns ID da turma ou null quando o aluno não tem turma
+     */
+    public getIdTurma(): number | null {
+        return this.idTurma;
+    }
+
+    /**
+     * Atribui o parâmetro ao atributo idTurma
+     * 
+     * @param _idTurma : ID da turma do aluno
+     */
+    public setIdTurma(_idTurma: number | null) {
+        this.idTurma = _idTurma;
+    }
+
     // MÉTODO PARA ACESSAR O BANCO DE DADOS
     // CRUD Create - READ - Update - Delete
 
     /**
      * Retorna uma lista com todos os alunos cadastrados no banco de dados
      * 
+     * @param idTurma Retorna somente os alunos da turma (opcional)
      * @returns Lista com todos os alunos cadastrados no banco de dados
      */
-    static async listarAlunos(): Promise<Array<Aluno> | null> {
+    static async listarAlunos(idTurma?: number): Promise<Array<Aluno> | null> {
         // Criando lista vazia para armazenar os alunos
         let listaDeAlunos: Array<Aluno> = [];
 
         try {
             // Query para consulta no banco de dados
-            const querySelectAluno = `SELECT * FROM Aluno WHERE status_aluno = TRUE;`;
+            const querySelectAluno = `SELECT * FROM Aluno WHERE status_aluno = TRUE AND ($1::int IS NULL OR id_turma = $1);`;
 
             // executa a query no banco de dados
-            const respostaBD = await database.query(querySelectAluno);
+            const respostaBD = await database.query(querySelectAluno, [idTurma ?? null]);
 
             // percorre cada resultado retornado pelo banco de dados
             // aluno é o apelido que demos para cada linha retornada do banco de dados
@@ -220,6 +241,7 @@ export class Aluno {
                 novoAluno.setIdAluno(aluno.id_aluno);
                 novoAluno.setRA(aluno.ra);
                 novoAluno.setStatusAluno(aluno.status_aluno);
+                novoAluno.setIdTurma(aluno.id_turma);
 
                 // adicionando a pessoa na lista
                 listaDeAlunos.push(novoAluno);
@@ -271,6 +293,9 @@ export class Aluno {
             // Define o status do aluno (ativo, inativo, etc.)
             aluno.setStatusAluno(respostaBD.rows[0].status_aluno);
 
+            // Define a turma do aluno
+            aluno.setIdTurma(respostaBD.rows[0].id_turma);
+
             // Retorna o objeto aluno preenchido com os dados do banco
             return aluno;
         } catch (error) {
@@ -285,6 +310,78 @@ export class Aluno {
         }
     }
 
+    /**
+     * Retorna os detalhes de um aluno ativo, informado pelo ID ou pelo RA (sem diferenciar maiúsculas de minúsculas),
+     * com a turma e os empréstimos em andamento (ativos e atrasados)
+     *
+     * @param identificacao ID ou RA do aluno (com os dois, o ID é utilizado)
+     * @returns Detalhes do aluno ou null caso o aluno não exista ou tenha sido removido
+     */
+    static async consultarAluno(identificacao: { idAluno?: number, ra?: string }): Promise<any | null> {
+        const respostaBD = await database.query(
+            `SELECT a.*, t.codigo AS codigo_turma, t.nome AS nome_turma, t.periodo AS periodo_turma
+             FROM Aluno a
+             LEFT JOIN Turma t ON t.id_turma = a.id_turma
+             WHERE a.status_aluno = TRUE AND ($1::int IS NOT NULL AND a.id_aluno = $1 OR $1::int IS NULL AND UPPER(a.ra) = UPPER($2))`,
+            [identificacao.idAluno ?? null, identificacao.ra?.trim() || null]
+        );
+
+        if (respostaBD.rows.length === 0) {
+            return null;
+        }
+
+        const aluno = respostaBD.rows[0];
+
+        const respostaEmprestimos = await database.query(
+            `SELECT e.id_emprestimo, e.id_livro, e.data_emprestimo, e.data_devolucao, e.status_emprestimo, e.quant_renovacoes,
+                    e.id_exemplar, x.numero_tombo, x.codigo_barras,
+                    l.titulo, l.autor, l.editora, l.isbn
+             FROM Emprestimo e
+             JOIN Livro l ON l.id_livro = e.id_livro
+             LEFT JOIN Exemplar x ON x.id_exemplar = e.id_exemplar
+             WHERE e.id_aluno = $1 AND e.status_emprestimo_registro = TRUE AND e.status_emprestimo = ANY($2::text[])
+             ORDER BY e.data_devolucao, e.id_emprestimo`,
+            [aluno.id_aluno, [STATUS_EMPRESTIMO.ATIVO, STATUS_EMPRESTIMO.ATRASADO]]
+        );
+
+        return {
+            idAluno: aluno.id_aluno,
+            ra: aluno.ra,
+            nome: aluno.nome,
+            sobrenome: aluno.sobrenome,
+            dataNascimento: aluno.data_nascimento,
+            endereco: aluno.endereco,
+            email: aluno.email,
+            celular: aluno.celular,
+            statusAluno: aluno.status_aluno,
+            turma: aluno.id_turma ? {
+                idTurma: aluno.id_turma,
+                codigo: aluno.codigo_turma,
+                nome: aluno.nome_turma,
+                periodo: aluno.periodo_turma
+            } : null,
+            emprestimosAtivos: respostaEmprestimos.rows.map((linha: any) => ({
+                idEmprestimo: linha.id_emprestimo,
+                idLivro: linha.id_livro,
+                dataEmprestimo: linha.data_emprestimo,
+                dataDevolucao: linha.data_devolucao,
+                statusEmprestimo: linha.status_emprestimo,
+                quantRenovacoes: linha.quant_renovacoes,
+                livro: {
+                    titulo: linha.titulo,
+                    autor: linha.autor,
+                    editora: linha.editora,
+                    isbn: linha.isbn
+                },
+                exemplar: linha.id_exemplar ? {
+                    idExemplar: linha.id_exemplar,
+                    numeroTombo: linha.numero_tombo,
+                    codigoBarras: linha.codigo_barras
+                } : null
+            }))
+        };
+    }
+
     /**
      * Cadastra um novo aluno no banco de dados
      * @param aluno Objeto Aluno contendo as informações a serem cadastradas
@@ -411,4 +508,20 @@ export class Aluno {
             return 0;
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Retorna o ID do aluno ativo com o e-mail informado.
+     * Utilizado para identificar o aluno correspondente ao usuário com perfil aluno.
+     *
+     * @param email E-mail do aluno
+     * @returns ID do aluno ou null caso não exista aluno ativo com o e-mail
+     */
+    static async buscarIdAlunoPorEmail(email: string): Promise<number | null> {
+        const respostaBD = await database.query(
+            `SELECT id_aluno FROM Aluno WHERE LOWER(email) = LOWER($1) AND status_aluno = TRUE ORDER BY id_aluno LIMIT 1`,
+            [email]
+        );
+
+        return respostaBD.rows.length > 0 ? respostaBD.rows[0].id_aluno : null;
+    }
+}
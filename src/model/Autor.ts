@@ -0,0 +1,212 @@
+import pg from 'pg';
+import { DataBaseModel } from "./DataBaseModel";
+import { ErroRegraNegocio } from "../util/ErroRegraNegocio";
+
+// Recupera conexão com o banco de dados
+const database = new DataBaseModel().pool;
+
+/**
+ * Tamanho máximo da coluna Livro.autor, que guarda os nomes dos autores formatados
+ */
+const TAMANHO_TEXTO_AUTORES = 150;
+
+/**
+ * Classe que representa um autor.
+ *
+ * Um livro pode ter vários autores, na ordem em que aparecem na obra (tabela Livro_Autor).
+ * A coluna Livro.autor continua guardando os nomes separados por vírgula, utilizados na exibição e
+ * nas buscas do catálogo, e é atualizada sempre que os autores do livro ou o nome do autor mudam.
+ */
+export class Autor {
+
+    /**
+     * Separa o texto com os nomes dos autores (separados por vírgula ou ponto e vírgula)
+     *
+     * @param texto Nomes dos autores, ex.: "Andrew Hunt, David Thomas"
+     * @returns Lista de nomes, na ordem informada e sem repetições
+     */
+    static separarNomes(texto: string): string[] {
+        const nomes = (texto ?? '').split(/[,;]/).map((nome) => nome.trim().replace(/\s+/g, ' ')).filter((nome) => nome !== '');
+
+        return nomes.filter((nome, i) => nomes.findIndex((outro) => outro.toUpperCase() === nome.toUpperCase()) === i);
+    }
+
+    /**
+     * Retorna os autores cadastrados, com a quantidade de livros ativos de cada um
+     *
+     * @param busca Trecho do nome do autor (opcional)
+     * @returns Lista de autores ordenada pelo nome
+     */
+    static async listarAutores(busca?: string): Promise<Array<any>> {
+        const respostaBD = await database.query(
+            `SELECT a.id_autor, a.nome, COUNT(l.id_livro) AS quant_livros
+             FROM Autor a
+             LEFT JOIN Livro_Autor la ON la.id_autor = a.id_autor
+             LEFT JOIN Livro l ON l.id_livro = la.id_livro AND l.status_livro = TRUE
+             WHERE $1::text IS NULL OR a.nome ILIKE '%' || $1 || '%'
+             GROUP BY a.id_autor, a.nome
+             ORDER BY a.nome`,
+            [busca || null]
+        );
+
+        return respostaBD.rows.map((linha: any) => ({
+            idAutor: linha.id_autor,
+            nome: linha.nome,
+            quantLivros: parseInt(linha.quant_livros)
+        }));
+    }
+
+    /**
+     * Cadastra um novo autor
+     *
+     * @param nome Nome do autor
+     * @returns Autor cadastrado
+     * @throws ErroRegraNegocio caso já exista um autor com o mesmo nome (409)
+     */
+    static async cadastrarAutor(nome: string): Promise<any> {
+        try {
+            const respostaBD = await database.query(
+                `INSERT INTO Autor (nome) VALUES ($1) RETURNING id_autor, nome`,
+                [nome.trim()]
+            );
+
+            return { idAutor: respostaBD.rows[0].id_autor, nome: respostaBD.rows[0].nome };
+        } catch (error) {
+            throw Autor.tratarErro(error, 'cadastrar');
+        }
+    }
+
+    /**
+     * Altera o nome do autor e atualiza os nomes dos autores gravados nos livros dele
+     *
+     * @param idAutor ID do autor
+     * @param nome Novo nome do autor
+     * @throws ErroRegraNegocio caso o autor não exista (404) ou o nome já pertença a outro autor (409)
+     */
+    static async atualizarAutor(idAutor: number, nome: string): Promise<void> {
+        try {
+            await DataBaseModel.transacao(database, async (cliente) => {
+                const respostaBD = await cliente.query(
+                    `UPDATE Autor SET nome = $2 WHERE id_autor = $1`,
+                    [idAutor, nome.trim()]
+                );
+
+                if (respostaBD.rowCount === 0) {
+                    throw new ErroRegraNegocio('Autor não encontrado.', 404, 'AUTOR_NAO_ENCONTRADO');
+                }
+
+                await Autor.atualizarTextoAutores(
+                    cliente,
+                    `SELECT id_livro FROM Livro_Autor WHERE id_autor = $1`,
+                    [idAutor]
+                );
+            });
+        } catch (error) {
+            throw Autor.tratarErro(error, 'atualizar');
+        }
+    }
+
+    /**
+     * Remove um autor que não está associado a nenhum livro ativo.
+     * As associações com livros já removidos do acervo são excluídas junto com o autor.
+     *
+     * @param idAutor ID do autor
+     * @throws ErroRegraNegocio caso o autor não exista (404) ou tenha livros ativos (409)
+     */
+    static async removerAutor(idAutor: number): Promise<void> {
+        try {
+            await DataBaseModel.transacao(database, async (cliente) => {
+                const respostaLivros = await cliente.query(
+                    `SELECT COUNT(*) AS quant_livros
+                     FROM Livro_Autor la
+                     JOIN Livro l ON l.id_livro = la.id_livro
+                     WHERE la.id_autor = $1 AND l.status_livro = TRUE`,
+                    [idAutor]
+                );
+
+                if (parseInt(respostaLivros.rows[0].quant_livros) > 0) {
+                    throw new ErroRegraNegocio('O autor possui livros cadastrados e não pode ser removido.', 409, 'AUTOR_COM_LIVROS');
+                }
+
+                await cliente.query(`DELETE FROM Livro_Autor WHERE id_autor = $1`, [idAutor]);
+                const respostaBD = await cliente.query(`DELETE FROM Autor WHERE id_autor = $1`, [idAutor]);
+
+                if (respostaBD.rowCount === 0) {
+                    throw new ErroRegraNegocio('Autor não encontrado.', 404, 'AUTOR_NAO_ENCONTRADO');
+                }
+            });
+        } catch (error) {
+            throw Autor.tratarErro(error, 'remover');
+        }
+    }
+
+    /**
+     * Define os autores do livro, na ordem informada, substituindo os autores anteriores.
+     * Autores ainda não cadastrados são criados; os existentes são encontrados pelo nome,
+     * sem diferenciar maiúsculas de minúsculas.
+     * Deve ser executado dentro da transação que cadastra ou altera o livro.
+     *
+     * @param cliente Conexão da transação em andamento
+     * @param idLivro ID do livro
+     * @param nomes Nomes dos autores, na ordem em que aparecem na obra
+     */
+    static async definirAutoresLivro(cliente: pg.PoolClient, idLivro: number, nomes: string[]): Promise<void> {
+        await cliente.query(`DELETE FROM Livro_Autor WHERE id_livro = $1`, [idLivro]);
+
+        for (const [i, nome] of nomes.entries()) {
+            // DO UPDATE sem alterar o nome, apenas para que o RETURNING devolva o autor já existente
+            const respostaAutor = await cliente.query(
+                `INSERT INTO Autor (nome) VALUES ($1)
+                 ON CONFLICT ((UPPER(nome))) DO UPDATE SET nome = Autor.nome
+                 RETURNING id_autor`,
+                [nome]
+            );
+
+            await cliente.query(
+                `INSERT INTO Livro_Autor (id_livro, id_autor, posicao) VALUES ($1, $2, $3)`,
+                [idLivro, respostaAutor.rows[0].id_autor, i + 1]
+            );
+        }
+
+        await Autor.atualizarTextoAutores(cliente, `SELECT $1::int`, [idLivro]);
+    }
+
+    /**
+     * Regrava a coluna Livro.autor com os nomes dos autores, na ordem da obra
+     *
+     * @param cliente Conexão da transação em andamento
+     * @param consultaLivros Consulta que retorna os IDs dos livros a serem atualizados
+     * @param valores Parâmetros da consulta
+     */
+    private static async atualizarTextoAutores(cliente: pg.PoolClient, consultaLivros: string, valores: any[]): Promise<void> {
+        await cliente.query(
+            `UPDATE Livro l SET autor = LEFT(UPPER(autores.nomes), ${TAMANHO_TEXTO_AUTORES})
+             FROM (
+                 SELECT la.id_livro, string_agg(a.nome, ', ' ORDER BY la.posicao) AS nomes
+                 FROM Livro_Autor la
+                 JOIN Autor a ON a.id_autor = la.id_autor
+                 WHERE la.id_livro IN (${consultaLivros})
+                 GROUP BY la.id_livro
+             ) autores
+             WHERE l.id_livro = autores.id_livro`,
+            valores
+        );
+    }
+
+    /**
+     * Converte os erros do banco de dados em erros de regra de negócio
+     */
+    private static tratarErro(error: any, operacao: string): Error {
+        if (error instanceof ErroRegraNegocio) {
+            return error;
+        }
+
+        // violação de chave única (nome já cadastrado)
+        if (error?.code === '23505') {
+            return new ErroRegraNegocio('Já existe um autor cadastrado com este nome.', 409, 'AUTOR_DUPLICADO');
+        }
+
+        console.error(`Erro ao ${operacao} autor: ${error}`);
+        return new Error(`Erro ao ${operacao} o autor.`);
+    }
+}
@@ -0,0 +1,273 @@
+import fs from 'fs/promises';
+import path from 'path';
+import crypto from 'crypto';
+import sharp from 'sharp';
+import { DataBaseModel } from "./DataBaseModel";
+import { ErroRegraNegocio } from "../util/ErroRegraNegocio";
+import { Imagem, TIPO_IMAGEM } from "../util/Imagem";
+
+// Recupera conexão com o banco de dados
+const database = new DataBaseModel().pool;
+
+/**
+ * Diretório dos arquivos das capas e endereço em que são servidos (server.ts)
+ */
+export const DIRETORIO_CAPAS = path.resolve(__dirname, '..', '..', 'uploads', 'cover');
+const URL_CAPAS = '/uploads/cover';
+
+/**
+ * Largura máxima, em pixels, da imagem da capa gravada (imagens maiores são reduzidas)
+ */
+const LARGURA_MAXIMA_CAPA = 1200;
+
+/**
+ * Larguras, em pixels, das miniaturas geradas para cada capa (listagens e detalhes do livro)
+ */
+export const MINIATURAS_CAPA = {
+    pequena: 160,
+    media: 320
+} as const;
+
+export type TamanhoMiniatura = keyof typeof MINIATURAS_CAPA;
+
+/**
+ * Quantidade máxima de pixels da imagem enviada, para recusar imagens que consumiriam memória demais ao serem processadas
+ */
+const LIMITE_PIXELS = 40_000_000;
+
+/**
+ * Arquivos criados há menos tempo que a carência (em minutos) não são removidos pela limpeza,
+ * pois podem pertencer a um envio de capa ainda em andamento
+ */
+const CARENCIA_LIMPEZA_MIN = 60;
+
+/**
+ * Interface CapaGerada
+ * Define o arquivo da capa e os endereços da imagem e das miniaturas
+ */
+export interface CapaGerada {
+    arquivo: string;                                // Nome do arquivo gravado na coluna Livro.capa
+    url: string;
+    miniaturas: Record<TamanhoMiniatura, string>;
+}
+
+/**
+ * Interface ResultadoLimpezaCapas
+ * Define o resultado da remoção dos arquivos de capa sem livro
+ */
+export interface ResultadoLimpezaCapas {
+    arquivosVerificados: number;
+    arquivosRemovidos: string[];
+    bytesLiberados: number;
+}
+
+/**
+ * Classe responsável pelas imagens de capa dos livros.
+ *
+ * A imagem enviada é identificada pelo conteúdo (JPEG, PNG ou WebP), tem a orientação corrigida e os metadados
+ * removidos, e é gravada em WebP junto com as miniaturas. A coluna Livro.capa guarda o nome do arquivo principal;
+ * as miniaturas usam o mesmo nome com a largura como sufixo (ex.: A9fKj23LZxTqW1Gh-160.webp).
+ */
+export class CapaLivro {
+
+    /**
+     * Valida a imagem enviada antes de qualquer gravação
+     *
+     * @param conteudo Conteúdo do arquivo enviado
+     * @throws ErroRegraNegocio caso o arquivo não seja JPEG, PNG ou WebP (415) ou não possa ser lido (400)
+     */
+    static async validarImagem(conteudo: Buffer): Promise<void> {
+        if (!Imagem.identificarTipo(conteudo)) {
+            throw new ErroRegraNegocio(`A capa deve ser uma imagem ${Object.keys(TIPO_IMAGEM).join(', ')}.`, 415, 'CAPA_FORMATO_INVALIDO');
+        }
+
+        try {
+            const metadados = await sharp(conteudo, { limitInputPixels: LIMITE_PIXELS }).metadata();
+
+            if (!metadados.width || !metadados.height) {
+                throw new Error('imagem sem dimensões');
+            }
+        } catch (error) {
+            throw new ErroRegraNegocio(`Não foi possível ler a imagem da capa (arquivo corrompido ou com mais de ${LIMITE_PIXELS / 1_000_000} megapixels).`, 400, 'CAPA_INVALIDA');
+        }
+    }
+
+    /**
+     * Grava a capa do livro, substituindo a anterior.
+     * Os arquivos da capa anterior são removidos somente depois que o livro passa a referenciar a nova capa.
+     *
+     * @param idLivro ID do livro
+     * @param conteudo Conteúdo do arquivo enviado
+     * @returns Arquivo e endereços da nova capa
+     * @throws ErroRegraNegocio caso a imagem seja inválida (400/415) ou o livro não exista (404)
+     */
+    static async salvarCapa(idLivro: number, conteudo: Buffer): Promise<CapaGerada> {
+        await CapaLivro.validarImagem(conteudo);
+        const arquivo = await CapaLivro.gerarArquivos(conteudo);
+
+        let capaAnterior: string | null;
+        try {
+            capaAnterior = await DataBaseModel.transacao(database, async (cliente) => {
+                const respostaBD = await cliente.query(
+                    `SELECT capa FROM Livro WHERE id_livro = $1 AND status_livro = TRUE FOR UPDATE`,
+                    [idLivro]
+                );
+
+                if (respostaBD.rows.length === 0) {
+                    throw new ErroRegraNegocio('Livro não encontrado.', 404, 'LIVRO_NAO_ENCONTRADO');
+                }
+
+                await cliente.query(`UPDATE Livro SET capa = $2 WHERE id_livro = $1`, [idLivro, arquivo]);
+                return respostaBD.rows[0].capa as string | null;
+            });
+        } catch (error) {
+            await CapaLivro.apagarArquivos(arquivo);
+            throw error;
+        }
+
+        if (capaAnterior) {
+            await CapaLivro.apagarArquivos(capaAnterior);
+        }
+
+        return CapaLivro.montarCapa(arquivo);
+    }
+
+    /**
+     * Remove a capa do livro e apaga os arquivos da imagem e das miniaturas.
+     * Também é utilizado na remoção do livro, por isso aceita livros já removidos do acervo.
+     *
+     * @param idLivro ID do livro
+     * @returns true caso o livro tivesse capa
+     * @throws ErroRegraNegocio caso o livro não exista (404)
+     */
+    static async removerCapa(idLivro: number): Promise<boolean> {
+        const capaAnterior = await DataBaseModel.transacao(database, async (cliente) => {
+            const respostaBD = await cliente.query(`SELECT capa FROM Livro WHERE id_livro = $1 FOR UPDATE`, [idLivro]);
+
+            if (respostaBD.rows.length === 0) {
+                throw new ErroRegraNegocio('Livro não encontrado.', 404, 'LIVRO_NAO_ENCONTRADO');
+            }
+
+            await cliente.query(`UPDATE Livro SET capa = NULL WHERE id_livro = $1`, [idLivro]);
+            return respostaBD.rows[0].capa as string | null;
+        });
+
+        if (capaAnterior) {
+            await CapaLivro.apagarArquivos(capaAnterior);
+        }
+
+        return !!capaAnterior;
+    }
+
+    /**
+     * Apaga os arquivos do diretório de capas que não pertencem à capa de nenhum livro
+     * (envios interrompidos, capas substituídas ou livros removidos antes da limpeza automática).
+     *
+     * @returns Quantidade de arquivos verificados e arquivos removidos
+     */
+    static async limparArquivosOrfaos(): Promise<ResultadoLimpezaCapas> {
+        const resultado: ResultadoLimpezaCapas = { arquivosVerificados: 0, arquivosRemovidos: [], bytesLiberados: 0 };
+
+        let arquivos: string[];
+        try {
+            arquivos = await fs.readdir(DIRETORIO_CAPAS);
+        } catch (error: any) {
+            if (error?.code === 'ENOENT') return resultado;
+            throw error;
+        }
+
+        // a consulta é feita depois da leitura do diretório: uma capa gravada nesse intervalo está dentro da carência
+        const respostaBD = await database.query(`SELECT capa FROM Livro WHERE capa IS NOT NULL AND capa <> ''`);
+        const referenciados = new Set<string>(respostaBD.rows.flatMap((linha: any) => CapaLivro.arquivosDaCapa(linha.capa)));
+        const limiteCarencia = Date.now() - CARENCIA_LIMPEZA_MIN * 60 * 1000;
+
+        for (const arquivo of arquivos) {
+            if (arquivo.startsWith('.')) continue;
+            resultado.arquivosVerificados++;
+
+            if (referenciados.has(arquivo)) continue;
+
+            const caminho = path.join(DIRETORIO_CAPAS, arquivo);
+            const informacoes = await fs.stat(caminho).catch(() => null);
+
+            if (!informacoes?.isFile() || informacoes.mtimeMs > limiteCarencia) continue;
+
+            await fs.unlink(caminho);
+            resultado.arquivosRemovidos.push(arquivo);
+            resultado.bytesLiberados += informacoes.size;
+        }
+
+        return resultado;
+    }
+
+    /**
+     * Monta os endereços da imagem e das miniaturas da capa
+     *
+     * @param arquivo Nome do arquivo da capa (coluna Livro.capa)
+     */
+    static montarCapa(arquivo: string): CapaGerada {
+        const base = path.parse(arquivo).name;
+        const miniaturas = Object.fromEntries(
+            Object.entries(MINIATURAS_CAPA).map(([tamanho, largura]) => [tamanho, `${URL_CAPAS}/${base}-${largura}.webp`])
+        ) as Record<TamanhoMiniatura, string>;
+
+        return { arquivo, url: `${URL_CAPAS}/${arquivo}`, miniaturas };
+    }
+
+    /**
+     * Retorna os nomes dos arquivos de uma capa: a imagem principal e as miniaturas
+     */
+    private static arquivosDaCapa(arquivo: string): string[] {
+        const base = path.parse(arquivo).name;
+        return [path.basename(arquivo), ...Object.values(MINIATURAS_CAPA).map((largura) => `${base}-${largura}.webp`)];
+    }
+
+    /**
+     * Grava a imagem da capa e as miniaturas com um nome aleatório
+     *
+     * @returns Nome do arquivo da imagem principal
+     */
+    private static async gerarArquivos(conteudo: Buffer): Promise<string> {
+        await fs.mkdir(DIRETORIO_CAPAS, { recursive: true });
+
+        const base = crypto.randomBytes(8).toString('hex');
+        const arquivo = `${base}.webp`;
+
+        // orientação corrigida pelo EXIF antes do redimensionamento; os metadados (ex.: localização) não são mantidos
+        const imagem = sharp(conteudo, { limitInputPixels: LIMITE_PIXELS }).rotate();
+
+        try {
+            await imagem.clone()
+                .resize({ width: LARGURA_MAXIMA_CAPA, withoutEnlargement: true })
+                .webp({ quality: 85 })
+                .toFile(path.join(DIRETORIO_CAPAS, arquivo));
+
+            for (const largura of Object.values(MINIATURAS_CAPA)) {
+                await imagem.clone()
+                    .resize({ width: largura, withoutEnlargement: true })
+                    .webp({ quality: 80 })
+                    .toFile(path.join(DIRETORIO_CAPAS, `${base}-${largura}.webp`));
+            }
+        } catch (error) {
+            await CapaLivro.apagarArquivos(arquivo);
+            console.error(`Erro ao gerar os arquivos da capa: ${error}`);
+            throw new ErroRegraNegocio('Não foi possível processar a imagem da capa.', 400, 'CAPA_INVALIDA');
+        }
+
+        return arquivo;
+    }
+
+    /**
+     * Apaga os arquivos de uma capa. Arquivos inexistentes são ignorados e as demais falhas apenas
+     * registradas, já que a limpeza periódica remove os arquivos que restarem.
+     */
+    private static async apagarArquivos(arquivo: string): Promise<void> {
+        for (const nome of CapaLivro.arquivosDaCapa(arquivo)) {
+            await fs.unlink(path.join(DIRETORIO_CAPAS, nome)).catch((error) => {
+                if (error?.code !== 'ENOENT') {
+                    console.error(`Erro ao apagar o arquivo de capa ${nome}: ${error}`);
+                }
+            });
+        }
+    }
+}
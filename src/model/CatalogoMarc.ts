@@ -0,0 +1,370 @@
+import { DataBaseModel } from "./DataBaseModel";
+import { Livro, SistemaClassificacao, SISTEMA_CLASSIFICACAO } from "./Livro";
+import { ErroRegraNegocio } from "../util/ErroRegraNegocio";
+import { ISBN } from "../util/ISBN";
+import { Marc, RegistroMarc, CampoMarc } from "../util/Marc";
+
+// Recupera conexão com o banco de dados
+const database = new DataBaseModel().pool;
+
+/**
+ * Líder dos registros exportados: registro novo (n), material textual (a), monografia (m)
+ */
+const LIDER_REGISTRO = '00000nam a2200000   4500';
+
+/**
+ * Tamanho máximo das colunas do livro preenchidas na importação
+ */
+const TAMANHO_TITULO = 200;
+const TAMANHO_AUTORES = 150;
+const TAMANHO_EDITORA = 100;
+
+/**
+ * Situações de cada registro no relatório de importação
+ */
+export const SITUACAO_IMPORTACAO = {
+    CRIADO: 'criado',
+    ATUALIZADO: 'atualizado',
+    REJEITADO: 'rejeitado'
+} as const;
+
+export type SituacaoImportacao = typeof SITUACAO_IMPORTACAO[keyof typeof SITUACAO_IMPORTACAO];
+
+/**
+ * Interface RegistroImportacao
+ * Define o resultado da importação de um registro MARC
+ */
+export interface RegistroImportacao {
+    registro: number;               // Posição do registro no arquivo, começando em 1
+    situacao: SituacaoImportacao;
+    idLivro?: number;
+    titulo?: string;
+    isbn?: string;
+    motivo?: string;                // Motivo da rejeição
+}
+
+/**
+ * Interface RelatorioImportacao
+ * Define o relatório da importação de um arquivo MARC
+ */
+export interface RelatorioImportacao {
+    formato: 'marc21' | 'marcxml';
+    total: number;
+    criados: number;
+    atualizados: number;
+    rejeitados: number;
+    registros: RegistroImportacao[];
+}
+
+/**
+ * Interface DadosLivroMarc
+ * Define os dados do livro extraídos de um registro MARC
+ */
+interface DadosLivroMarc {
+    titulo: string;
+    autores: string[];
+    editora: string;
+    anoPublicacao: string;
+    isbn: string | null;
+    classificacao: string | null;
+    sistemaClassificacao: SistemaClassificacao | null;
+}
+
+/**
+ * Classe responsável pelo intercâmbio do catálogo no formato MARC 21 (ISO 2709 e MARCXML).
+ *
+ * Campos utilizados: 001 (ID do livro), 008 (ano), 020 (ISBN), 080 (CDU), 082 (CDD), 100/110 (autor principal),
+ * 245 (título), 260/264 (editora e ano) e 700/710 (demais autores).
+ */
+export class CatalogoMarc {
+
+    /**
+     * Gera os registros MARC dos livros ativos
+     *
+     * @param idsLivros IDs dos livros exportados (todos os livros ativos quando não informado)
+     * @returns Registros MARC, em ordem de ID
+     */
+    static async exportarLivros(idsLivros?: number[]): Promise<RegistroMarc[]> {
+        const respostaBD = await database.query(
+            `SELECT l.id_livro, l.titulo, l.autor, l.editora, l.ano_publicacao, l.isbn, l.classificacao, l.sistema_classificacao,
+                    e.nome AS nome_editora,
+                    ARRAY(
+                        SELECT a.nome FROM Livro_Autor la JOIN Autor a ON a.id_autor = la.id_autor
+                        WHERE la.id_livro = l.id_livro ORDER BY la.posicao
+                    ) AS autores
+             FROM Livro l
+             LEFT JOIN Editora e ON e.id_editora = l.id_editora
+             WHERE l.status_livro = TRUE AND ($1::int[] IS NULL OR l.id_livro = ANY($1::int[]))
+             ORDER BY l.id_livro`,
+            [idsLivros ?? null]
+        );
+
+        return respostaBD.rows.map((linha: any) => CatalogoMarc.montarRegistro(linha));
+    }
+
+    /**
+     * Importa os livros de um arquivo MARC 21 (ISO 2709) ou MARCXML, identificado pelo conteúdo.
+     *
+     * Cada registro é gravado separadamente: o livro com o mesmo ISBN (ou, sem ISBN, com o mesmo título e
+     * primeiro autor) é atualizado; os demais são cadastrados sem exemplares. Registros inválidos são
+     * rejeitados sem interromper a importação.
+     *
+     * @param conteudo Conteúdo do arquivo enviado
+     * @returns Relatório com a situação de cada registro
+     */
+    static async importarArquivo(conteudo: Buffer): Promise<RelatorioImportacao> {
+        const formato = Marc.ehXML(conteudo) ? 'marcxml' : 'marc21';
+        const registrosLidos = formato === 'marcxml' ? Marc.lerMARCXML(conteudo.toString('utf8')) : Marc.lerISO2709(conteudo);
+
+        const relatorio: RelatorioImportacao = { formato, total: registrosLidos.length, criados: 0, atualizados: 0, rejeitados: 0, registros: [] };
+
+        for (const [i, registroLido] of registrosLidos.entries()) {
+            const resultado = await CatalogoMarc.importarRegistro(i + 1, registroLido);
+
+            if (resultado.situacao === SITUACAO_IMPORTACAO.CRIADO) relatorio.criados++;
+            if (resultado.situacao === SITUACAO_IMPORTACAO.ATUALIZADO) relatorio.atualizados++;
+            if (resultado.situacao === SITUACAO_IMPORTACAO.REJEITADO) relatorio.rejeitados++;
+
+            relatorio.registros.push(resultado);
+        }
+
+        return relatorio;
+    }
+
+    /**
+     * Grava o livro de um registro MARC, criando ou atualizando o cadastro
+     */
+    private static async importarRegistro(posicao: number, registroLido: RegistroMarc | Error): Promise<RegistroImportacao> {
+        const rejeitar = (motivo: string, dados?: Partial<DadosLivroMarc>): RegistroImportacao => ({
+            registro: posicao,
+            situacao: SITUACAO_IMPORTACAO.REJEITADO,
+            titulo: dados?.titulo || undefined,
+            isbn: dados?.isbn ?? undefined,
+            motivo
+        });
+
+        if (registroLido instanceof Error) {
+            return rejeitar(`Registro MARC inválido: ${registroLido.message}`);
+        }
+
+        const dados = CatalogoMarc.extrairDados(registroLido);
+        if (typeof dados === 'string') {
+            return rejeitar(dados);
+        }
+
+        try {
+            const existente = await CatalogoMarc.buscarLivroExistente(dados);
+
+            // os campos ausentes no registro mantêm os dados já cadastrados (um registro só com 245 e 020
+            // não apaga os autores, a editora nem o ano do livro)
+            const livro = new Livro(
+                dados.titulo,
+                dados.autores.length > 0 ? dados.autores.join(', ') : existente?.autor ?? '',
+                dados.editora || existente?.editora || '',
+                dados.anoPublicacao || existente?.ano_publicacao || '',
+                dados.isbn ?? existente?.isbn ?? '',
+                0,
+                0,
+                existente?.valor_aquisicao ?? 0,
+                existente?.status_livro_emprestado ?? 'Disponível'
+            );
+
+            // mantém a classificação já cadastrada quando o registro não tem o campo 080/082
+            livro.setClassificacao(dados.classificacao ?? existente?.classificacao ?? null);
+            livro.setSistemaClassificacao(dados.sistemaClassificacao ?? existente?.sistema_classificacao ?? null);
+
+            if (existente) {
+                livro.setIdLivro(existente.id_livro);
+
+                if (!await Livro.atualizarCadastroLivro(livro)) {
+                    return rejeitar('Não foi possível atualizar o livro no banco de dados.', dados);
+                }
+
+                return { registro: posicao, situacao: SITUACAO_IMPORTACAO.ATUALIZADO, idLivro: existente.id_livro, titulo: dados.titulo, isbn: dados.isbn ?? undefined };
+            }
+
+            const resultado = await Livro.cadastrarLivro(livro);
+            if (!resultado.queryResult || !resultado.idLivro) {
+                return rejeitar('Não foi possível cadastrar o livro no banco de dados.', dados);
+            }
+
+            return { registro: posicao, situacao: SITUACAO_IMPORTACAO.CRIADO, idLivro: resultado.idLivro, titulo: dados.titulo, isbn: dados.isbn ?? undefined };
+        } catch (error) {
+            // ISBN duplicado entre livros ativos ou classificação inválida para o banco de dados
+            if (error instanceof ErroRegraNegocio) {
+                return rejeitar(error.message, dados);
+            }
+
+            console.error(`Erro ao importar o registro MARC ${posicao}: ${error}`);
+            return rejeitar('Erro ao gravar o livro.', dados);
+        }
+    }
+
+    /**
+     * Procura o livro ativo correspondente ao registro: pelo ISBN ou, sem ISBN, pelo título e primeiro autor
+     */
+    private static async buscarLivroExistente(dados: DadosLivroMarc): Promise<any | null> {
+        const respostaBD = dados.isbn
+            ? await database.query(`SELECT * FROM Livro WHERE isbn = $1 AND status_livro = TRUE`, [dados.isbn])
+            : await database.query(
+                `SELECT l.* FROM Livro l
+                 WHERE l.status_livro = TRUE AND UPPER(l.titulo) = UPPER($1)
+                 AND EXISTS (
+                     SELECT 1 FROM Livro_Autor la JOIN Autor a ON a.id_autor = la.id_autor
+                     WHERE la.id_livro = l.id_livro AND la.posicao = 1 AND UPPER(a.nome) = UPPER($2)
+                 )
+                 ORDER BY l.id_livro LIMIT 1`,
+                [dados.titulo, dados.autores[0] ?? '']
+            );
+
+        return respostaBD.rows[0] ?? null;
+    }
+
+    /**
+     * Extrai os dados do livro do registro MARC
+     *
+     * @returns Dados do livro ou o motivo da rejeição do registro
+     */
+    private static extrairDados(registro: RegistroMarc): DadosLivroMarc | string {
+        const titulo = [Marc.subcampos(registro, '245', 'a')[0], Marc.subcampos(registro, '245', 'b')[0]]
+            .map((parte) => CatalogoMarc.limparPontuacao(parte ?? ''))
+            .filter((parte) => parte !== '')
+            .join(': ')
+            .substring(0, TAMANHO_TITULO);
+
+        if (!titulo) {
+            return 'Registro sem título (campo 245 $a).';
+        }
+
+        // ISBN: o primeiro válido do campo 020, ignorando qualificadores como "(broch.)"
+        const isbnsInformados = Marc.subcampos(registro, '020', 'a').map((valor) => valor.trim().split(/\s+/)[0]).filter((valor) => valor);
+        const isbn = isbnsInformados.map((valor) => ISBN.normalizar(valor)).find((valor) => valor !== null) ?? null;
+
+        if (isbnsInformados.length > 0 && !isbn) {
+            return `ISBN inválido: ${isbnsInformados.join(', ')}.`;
+        }
+
+        // autores na ordem do registro, limitados ao tamanho da coluna Livro.autor
+        const autores: string[] = [];
+        for (const nome of ['100', '110', '700', '710'].flatMap((tag) => Marc.subcampos(registro, tag, 'a')).map((nome) => CatalogoMarc.nomeDireto(nome))) {
+            const jaIncluido = autores.some((autor) => autor.toUpperCase() === nome.toUpperCase());
+
+            if (nome && !jaIncluido && [...autores, nome].join(', ').length <= TAMANHO_AUTORES) {
+                autores.push(nome);
+            }
+        }
+
+        // editora e ano: campo 264 (produção/publicação) ou 260, com o ano do campo 008 como alternativa
+        const camposPublicacao = registro.campos.filter((campo) => campo.tag === '260' || (campo.tag === '264' && campo.indicador2 === '1'));
+        const valorPublicacao = (codigo: string) => camposPublicacao
+            .flatMap((campo) => (campo.subcampos ?? []).filter((subcampo) => subcampo.codigo === codigo).map((subcampo) => subcampo.valor))[0] ?? '';
+
+        const editora = CatalogoMarc.limparPontuacao(valorPublicacao('b')).substring(0, TAMANHO_EDITORA);
+        const anoFixo = (Marc.campoControle(registro, '008') ?? '').substring(7, 11);
+        const anoPublicacao = valorPublicacao('c').match(/\d{4}/)?.[0] ?? (/^\d{4}$/.test(anoFixo) ? anoFixo : '');
+
+        // classificação: CDD (082) ou CDU (080), ignorada quando fora do formato aceito
+        let classificacao: string | null = null;
+        let sistemaClassificacao: SistemaClassificacao | null = null;
+
+        const codigoCDD = (Marc.subcampos(registro, '082', 'a')[0] ?? '').replace(/[\/']/g, '').trim();
+        const codigoCDU = (Marc.subcampos(registro, '080', 'a')[0] ?? '').trim();
+
+        if (codigoCDD && Livro.classificacaoValida(SISTEMA_CLASSIFICACAO.CDD, codigoCDD)) {
+            classificacao = codigoCDD;
+            sistemaClassificacao = SISTEMA_CLASSIFICACAO.CDD;
+        } else if (codigoCDU && Livro.classificacaoValida(SISTEMA_CLASSIFICACAO.CDU, codigoCDU)) {
+            classificacao = codigoCDU;
+            sistemaClassificacao = SISTEMA_CLASSIFICACAO.CDU;
+        }
+
+        return { titulo, autores, editora, anoPublicacao, isbn, classificacao, sistemaClassificacao };
+    }
+
+    /**
+     * Monta o registro MARC de um livro
+     */
+    private static montarRegistro(linha: any): RegistroMarc {
+        const autores: string[] = linha.autores.length > 0 ? linha.autores : (linha.autor ? [linha.autor] : []);
+        const editora: string = linha.nome_editora ?? linha.editora ?? '';
+        const ano: string = /^\d{4}$/.test(linha.ano_publicacao ?? '') ? linha.ano_publicacao : '';
+
+        const campos: CampoMarc[] = [
+            { tag: '001', valor: String(linha.id_livro) },
+            { tag: '005', valor: CatalogoMarc.dataHoraTransacao(new Date()) },
+            { tag: '008', valor: CatalogoMarc.campoDadosFixos(new Date(), ano) }
+        ];
+
+        if (linha.isbn) {
+            campos.push({ tag: '020', indicador1: ' ', indicador2: ' ', subcampos: [{ codigo: 'a', valor: linha.isbn }] });
+        }
+        if (linha.classificacao && linha.sistema_classificacao === SISTEMA_CLASSIFICACAO.CDU) {
+            campos.push({ tag: '080', indicador1: ' ', indicador2: ' ', subcampos: [{ codigo: 'a', valor: linha.classificacao }] });
+        }
+        if (linha.classificacao && linha.sistema_classificacao === SISTEMA_CLASSIFICACAO.CDD) {
+            campos.push({ tag: '082', indicador1: '0', indicador2: '4', subcampos: [{ codigo: 'a', valor: linha.classificacao }] });
+        }
+
+        // nomes em ordem direta (indicador 0), como são cadastrados no sistema
+        if (autores.length > 0) {
+            campos.push({ tag: '100', indicador1: '0', indicador2: ' ', subcampos: [{ codigo: 'a', valor: autores[0] }] });
+        }
+
+        campos.push({ tag: '245', indicador1: autores.length > 0 ? '1' : '0', indicador2: '0', subcampos: [{ codigo: 'a', valor: linha.titulo }] });
+
+        const publicacao = [
+            ...(editora ? [{ codigo: 'b', valor: editora }] : []),
+            ...(ano ? [{ codigo: 'c', valor: ano }] : [])
+        ];
+        if (publicacao.length > 0) {
+            campos.push({ tag: '260', indicador1: ' ', indicador2: ' ', subcampos: publicacao });
+        }
+
+        autores.slice(1).forEach((autor) => {
+            campos.push({ tag: '700', indicador1: '0', indicador2: ' ', subcampos: [{ codigo: 'a', valor: autor }] });
+        });
+
+        return { lider: LIDER_REGISTRO, campos };
+    }
+
+    /**
+     * Converte o nome invertido do MARC ("Tolkien, J. R. R.") para a ordem direta ("J. R. R. Tolkien"),
+     * pois no sistema os autores de um livro são separados por vírgula
+     */
+    private static nomeDireto(nome: string): string {
+        const limpo = CatalogoMarc.limparPontuacao(nome);
+        const partes = limpo.split(',').map((parte) => parte.trim()).filter((parte) => parte !== '');
+
+        return (partes.length === 2 ? `${partes[1]} ${partes[0]}` : partes.join(' ')).replace(/\s+/g, ' ');
+    }
+
+    /**
+     * Remove a pontuação ISBD do fim do valor (" /", " :", " ;", " =", "," e o ponto final),
+     * preservando o ponto das iniciais ("J. R. R.")
+     */
+    private static limparPontuacao(valor: string): string {
+        return valor
+            .trim()
+            .replace(/\s*[\/:;,=]+$/, '')
+            .replace(/(?<!\b[A-Z])\.$/, '')
+            .trim();
+    }
+
+    /**
+     * Data e hora da última alteração (campo 005): aaaammddhhmmss.f
+     */
+    private static dataHoraTransacao(data: Date): string {
+        return data.toISOString().replace(/[-:T]/g, '').substring(0, 14) + '.0';
+    }
+
+    /**
+     * Campo de dados fixos (008), com 40 posições: data de criação, tipo de data, ano de publicação,
+     * local de publicação e idioma não informados
+     */
+    private static campoDadosFixos(data: Date, ano: string): string {
+        const dataCriacao = data.toISOString().substring(2, 10).replace(/-/g, '');
+        const datas = ano ? `s${ano}    ` : 'nuuuu    ';
+
+        return (dataCriacao + datas + 'xx ' + ' '.repeat(17) + 'und' + '  ').substring(0, 40);
+    }
+}
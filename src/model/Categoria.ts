@@ -0,0 +1,271 @@
+import pg from 'pg';
+import { DataBaseModel } from "./DataBaseModel";
+import { ErroRegraNegocio } from "../util/ErroRegraNegocio";
+
+// Recupera conexão com o banco de dados
+const database = new DataBaseModel().pool;
+
+/**
+ * Interface DadosCategoria
+ * Define os dados informados no cadastro e na atualização de uma categoria
+ */
+export interface DadosCategoria {
+    nome: string;
+    descricao?: string | null;
+    idCategoriaPai?: number | null;     // Categoria superior (nulo para as categorias principais)
+}
+
+/**
+ * Interface NoCategoria
+ * Define um nó da árvore de categorias, com as contagens de títulos da categoria e das subcategorias
+ */
+export interface NoCategoria {
+    idCategoria: number;
+    nome: string;
+    descricao: string | null;
+    idCategoriaPai: number | null;
+    quantTitulos: number;               // Títulos ativos da categoria e das subcategorias
+    quantTitulosDisponiveis: number;    // Títulos com pelo menos um exemplar disponível
+    subcategorias: NoCategoria[];
+}
+
+/**
+ * Classe que representa uma categoria (assunto) dos livros.
+ *
+ * As categorias formam uma árvore: cada categoria pode ter uma categoria superior e várias subcategorias.
+ * Um livro pode ter vários assuntos, e um livro de uma subcategoria também pertence às categorias superiores
+ * na navegação e nos filtros do catálogo.
+ */
+export class Categoria {
+
+    /**
+     * Monta a consulta que retorna o ID da categoria e os IDs de todas as suas subcategorias
+     *
+     * @param parametro Parâmetro da consulta com o ID da categoria (ex.: $1)
+     */
+    static consultaSubarvore(parametro: string): string {
+        return `
+            WITH RECURSIVE subarvore AS (
+                SELECT id_categoria FROM Categoria WHERE id_categoria = ${parametro}
+                UNION
+                SELECT c.id_categoria FROM Categoria c JOIN subarvore s ON c.id_categoria_pai = s.id_categoria
+            )
+            SELECT id_categoria FROM subarvore`;
+    }
+
+    /**
+     * Retorna a árvore de categorias com a quantidade de títulos de cada uma.
+     * Cada título é contado uma única vez por categoria, mesmo que esteja em mais de uma subcategoria.
+     *
+     * @returns Categorias principais, com as subcategorias aninhadas, ordenadas pelo nome
+     */
+    static async listarArvore(): Promise<NoCategoria[]> {
+        const respostaBD = await database.query(
+            `WITH RECURSIVE subarvore AS (
+                 SELECT id_categoria AS id_raiz, id_categoria FROM Categoria
+                 UNION
+                 SELECT s.id_raiz, c.id_categoria FROM Categoria c JOIN subarvore s ON c.id_categoria_pai = s.id_categoria
+             )
+             SELECT c.id_categoria, c.nome, c.descricao, c.id_categoria_pai,
+                    COUNT(DISTINCT l.id_livro) AS quant_titulos,
+                    COUNT(DISTINCT l.id_livro) FILTER (WHERE l.quant_disponivel > 0) AS quant_titulos_disponiveis
+             FROM Categoria c
+             JOIN subarvore s ON s.id_raiz = c.id_categoria
+             LEFT JOIN Livro_Categoria lc ON lc.id_categoria = s.id_categoria
+             LEFT JOIN Livro l ON l.id_livro = lc.id_livro AND l.status_livro = TRUE
+             GROUP BY c.id_categoria, c.nome, c.descricao, c.id_categoria_pai
+             ORDER BY c.nome`
+        );
+
+        // monta a árvore a partir da lista de categorias
+        const nos = new Map<number, NoCategoria>();
+        respostaBD.rows.forEach((linha: any) => {
+            nos.set(linha.id_categoria, {
+                idCategoria: linha.id_categoria,
+                nome: linha.nome,
+                descricao: linha.descricao,
+                idCategoriaPai: linha.id_categoria_pai,
+                quantTitulos: parseInt(linha.quant_titulos),
+                quantTitulosDisponiveis: parseInt(linha.quant_titulos_disponiveis),
+                subcategorias: []
+            });
+        });
+
+        const raizes: NoCategoria[] = [];
+        nos.forEach((no) => {
+            const pai = no.idCategoriaPai !== null ? nos.get(no.idCategoriaPai) : undefined;
+            (pai ? pai.subcategorias : raizes).push(no);
+        });
+
+        return raizes;
+    }
+
+    /**
+     * Cadastra uma nova categoria
+     *
+     * @param dados Nome, descrição e categoria superior
+     * @returns ID da categoria cadastrada
+     * @throws ErroRegraNegocio caso a categoria superior não exista (404) ou o nome já exista no mesmo nível (409)
+     */
+    static async cadastrarCategoria(dados: DadosCategoria): Promise<number> {
+        try {
+            return await DataBaseModel.transacao(database, async (cliente) => {
+                await Categoria.verificarCategoriaPai(cliente, dados.idCategoriaPai ?? null);
+
+                const respostaBD = await cliente.query(
+                    `INSERT INTO Categoria (nome, descricao, id_categoria_pai) VALUES ($1, $2, $3) RETURNING id_categoria`,
+                    [dados.nome.trim(), dados.descricao || null, dados.idCategoriaPai ?? null]
+                );
+
+                return respostaBD.rows[0].id_categoria as number;
+            });
+        } catch (error) {
+            throw Categoria.tratarErro(error, 'cadastrar');
+        }
+    }
+
+    /**
+     * Altera o nome, a descrição ou a categoria superior de uma categoria.
+     * A categoria não pode ser movida para dentro dela mesma ou de uma de suas subcategorias.
+     *
+     * @param idCategoria ID da categoria
+     * @param dados Novos dados da categoria
+     * @throws ErroRegraNegocio caso a categoria não exista (404), o nome já exista no mesmo nível
+     * ou a nova categoria superior gere um ciclo (409)
+     */
+    static async atualizarCategoria(idCategoria: number, dados: DadosCategoria): Promise<void> {
+        try {
+            await DataBaseModel.transacao(database, async (cliente) => {
+                const idCategoriaPai = dados.idCategoriaPai ?? null;
+
+                // impede que duas alterações simultâneas criem um ciclo na árvore
+                await cliente.query('LOCK TABLE Categoria IN SHARE ROW EXCLUSIVE MODE');
+                await Categoria.verificarCategoriaPai(cliente, idCategoriaPai);
+
+                if (idCategoriaPai !== null) {
+                    const respostaSubarvore = await cliente.query(
+                        `SELECT 1 FROM (${Categoria.consultaSubarvore('$1')}) s WHERE s.id_categoria = $2`,
+                        [idCategoria, idCategoriaPai]
+                    );
+
+                    if (respostaSubarvore.rows.length > 0) {
+                        throw new ErroRegraNegocio('A categoria não pode ficar dentro dela mesma ou de uma de suas subcategorias.', 409, 'CATEGORIA_CICLO');
+                    }
+                }
+
+                const respostaBD = await cliente.query(
+                    `UPDATE Categoria SET nome = $2, descricao = $3, id_categoria_pai = $4 WHERE id_categoria = $1`,
+                    [idCategoria, dados.nome.trim(), dados.descricao || null, idCategoriaPai]
+                );
+
+                if (respostaBD.rowCount === 0) {
+                    throw new ErroRegraNegocio('Categoria não encontrada.', 404, 'CATEGORIA_NAO_ENCONTRADA');
+                }
+            });
+        } catch (error) {
+            throw Categoria.tratarErro(error, 'atualizar');
+        }
+    }
+
+    /**
+     * Remove uma categoria sem subcategorias e sem livros ativos.
+     * As associações com livros já removidos do acervo são excluídas junto com a categoria.
+     *
+     * @param idCategoria ID da categoria
+     * @throws ErroRegraNegocio caso a categoria não exista (404) ou tenha subcategorias ou livros ativos (409)
+     */
+    static async removerCategoria(idCategoria: number): Promise<void> {
+        try {
+            await DataBaseModel.transacao(database, async (cliente) => {
+                const respostaBD = await cliente.query(
+                    `SELECT EXISTS (SELECT 1 FROM Categoria WHERE id_categoria_pai = $1) AS possui_subcategorias,
+                            EXISTS (
+                                SELECT 1 FROM Livro_Categoria lc
+                                JOIN Livro l ON l.id_livro = lc.id_livro
+                                WHERE lc.id_categoria = $1 AND l.status_livro = TRUE
+                            ) AS possui_livros`,
+                    [idCategoria]
+                );
+
+                if (respostaBD.rows[0].possui_subcategorias) {
+                    throw new ErroRegraNegocio('A categoria possui subcategorias e não pode ser removida.', 409, 'CATEGORIA_COM_SUBCATEGORIAS');
+                }
+                if (respostaBD.rows[0].possui_livros) {
+                    throw new ErroRegraNegocio('A categoria possui livros cadastrados e não pode ser removida.', 409, 'CATEGORIA_COM_LIVROS');
+                }
+
+                await cliente.query(`DELETE FROM Livro_Categoria WHERE id_categoria = $1`, [idCategoria]);
+                const respostaRemocao = await cliente.query(`DELETE FROM Categoria WHERE id_categoria = $1`, [idCategoria]);
+
+                if (respostaRemocao.rowCount === 0) {
+                    throw new ErroRegraNegocio('Categoria não encontrada.', 404, 'CATEGORIA_NAO_ENCONTRADA');
+                }
+            });
+        } catch (error) {
+            throw Categoria.tratarErro(error, 'remover');
+        }
+    }
+
+    /**
+     * Define os assuntos do livro, substituindo os anteriores.
+     * Deve ser executado dentro da transação que cadastra ou altera o livro.
+     *
+     * @param cliente Conexão da transação em andamento
+     * @param idLivro ID do livro
+     * @param idsCategorias IDs das categorias do livro
+     * @throws ErroRegraNegocio caso alguma categoria não exista (404)
+     */
+    static async definirCategoriasLivro(cliente: pg.PoolClient, idLivro: number, idsCategorias: number[]): Promise<void> {
+        const ids = [...new Set(idsCategorias)];
+
+        const respostaBD = await cliente.query(
+            `SELECT id_categoria FROM Categoria WHERE id_categoria = ANY($1::int[])`,
+            [ids]
+        );
+
+        if (respostaBD.rows.length !== ids.length) {
+            const encontradas = respostaBD.rows.map((linha: any) => linha.id_categoria);
+            const inexistentes = ids.filter((id) => !encontradas.includes(id));
+
+            throw new ErroRegraNegocio(`Categoria não encontrada: ${inexistentes.join(', ')}.`, 404, 'CATEGORIA_NAO_ENCONTRADA');
+        }
+
+        await cliente.query(`DELETE FROM Livro_Categoria WHERE id_livro = $1`, [idLivro]);
+        await cliente.query(
+            `INSERT INTO Livro_Categoria (id_livro, id_categoria) SELECT $1, unnest($2::int[])`,
+            [idLivro, ids]
+        );
+    }
+
+    /**
+     * Verifica se a categoria superior informada existe
+     */
+    private static async verificarCategoriaPai(cliente: pg.PoolClient, idCategoriaPai: number | null): Promise<void> {
+        if (idCategoriaPai === null) {
+            return;
+        }
+
+        const respostaBD = await cliente.query(`SELECT 1 FROM Categoria WHERE id_categoria = $1`, [idCategoriaPai]);
+
+        if (respostaBD.rows.length === 0) {
+            throw new ErroRegraNegocio('Categoria superior não encontrada.', 404, 'CATEGORIA_PAI_NAO_ENCONTRADA');
+        }
+    }
+
+    /**
+     * Converte os erros do banco de dados em erros de regra de negócio
+     */
+    private static tratarErro(error: any, operacao: string): Error {
+        if (error instanceof ErroRegraNegocio) {
+            return error;
+        }
+
+        // violação de chave única (nome repetido no mesmo nível da árvore)
+        if (error?.code === '23505') {
+            return new ErroRegraNegocio('Já existe uma categoria com este nome no mesmo nível.', 409, 'CATEGORIA_DUPLICADA');
+        }
+
+        console.error(`Erro ao ${operacao} categoria: ${error}`);
+        return new Error(`Erro ao ${operacao} a categoria.`);
+    }
+}
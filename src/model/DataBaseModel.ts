@@ -68,6 +68,33 @@ export class DataBaseModel {
         }
     }
 
+    /**
+     * Executa as operações informadas dentro de uma transação.
+     * Caso alguma operação lance um erro, a transação é desfeita (ROLLBACK) e o erro é repassado.
+     *
+     * @param pool Pool de conexões utilizado pelo modelo
+     * @param operacoes Função que recebe o cliente da transação e executa as queries
+     * @returns O valor retornado pela função de operações
+     */
+    public static async transacao<T>(pool: pg.Pool, operacoes: (cliente: pg.PoolClient) => Promise<T>): Promise<T> {
+        // Reserva uma conexão do pool, todas as queries da transação devem usar a mesma conexão
+        const cliente = await pool.connect();
+
+        try {
+            await cliente.query('BEGIN');
+            const resultado = await operacoes(cliente);
+            await cliente.query('COMMIT');
+            return resultado;
+        } catch (error) {
+            // Desfaz todas as alterações realizadas na transação
+            await cliente.query('ROLLBACK');
+            throw error;
+        } finally {
+            // Devolve a conexão para o pool
+            cliente.release();
+        }
+    }
+
     /**
      * Getter para o pool de conexões.
      */
@@ -0,0 +1,167 @@
+import pg from 'pg';
+import { DataBaseModel } from "./DataBaseModel";
+import { ErroRegraNegocio } from "../util/ErroRegraNegocio";
+
+// Recupera conexão com o banco de dados
+const database = new DataBaseModel().pool;
+
+/**
+ * Classe que representa uma editora.
+ *
+ * Cada livro pertence a uma editora (Livro.id_editora). A coluna Livro.editora continua guardando o nome,
+ * utilizado na exibição e nas buscas do catálogo, e é atualizada quando o nome da editora muda.
+ */
+export class Editora {
+
+    /**
+     * Retorna as editoras cadastradas, com a quantidade de livros ativos de cada uma
+     *
+     * @param busca Trecho do nome da editora (opcional)
+     * @returns Lista de editoras ordenada pelo nome
+     */
+    static async listarEditoras(busca?: string): Promise<Array<any>> {
+        const respostaBD = await database.query(
+            `SELECT e.id_editora, e.nome, COUNT(l.id_livro) AS quant_livros
+             FROM Editora e
+             LEFT JOIN Livro l ON l.id_editora = e.id_editora AND l.status_livro = TRUE
+             WHERE $1::text IS NULL OR e.nome ILIKE '%' || $1 || '%'
+             GROUP BY e.id_editora, e.nome
+             ORDER BY e.nome`,
+            [busca || null]
+        );
+
+        return respostaBD.rows.map((linha: any) => ({
+            idEditora: linha.id_editora,
+            nome: linha.nome,
+            quantLivros: parseInt(linha.quant_livros)
+        }));
+    }
+
+    /**
+     * Cadastra uma nova editora
+     *
+     * @param nome Nome da editora
+     * @returns Editora cadastrada
+     * @throws ErroRegraNegocio caso já exista uma editora com o mesmo nome (409)
+     */
+    static async cadastrarEditora(nome: string): Promise<any> {
+        try {
+            const respostaBD = await database.query(
+                `INSERT INTO Editora (nome) VALUES ($1) RETURNING id_editora, nome`,
+                [nome.trim()]
+            );
+
+            return { idEditora: respostaBD.rows[0].id_editora, nome: respostaBD.rows[0].nome };
+        } catch (error) {
+            throw Editora.tratarErro(error, 'cadastrar');
+        }
+    }
+
+    /**
+     * Altera o nome da editora e atualiza o nome gravado nos livros dela
+     *
+     * @param idEditora ID da editora
+     * @param nome Novo nome da editora
+     * @throws ErroRegraNegocio caso a editora não exista (404) ou o nome já pertença a outra editora (409)
+     */
+    static async atualizarEditora(idEditora: number, nome: string): Promise<void> {
+        try {
+            await DataBaseModel.transacao(database, async (cliente) => {
+                const respostaBD = await cliente.query(
+                    `UPDATE Editora SET nome = $2 WHERE id_editora = $1 RETURNING nome`,
+                    [idEditora, nome.trim()]
+                );
+
+                if (respostaBD.rows.length === 0) {
+                    throw new ErroRegraNegocio('Editora não encontrada.', 404, 'EDITORA_NAO_ENCONTRADA');
+                }
+
+                await cliente.query(
+                    `UPDATE Livro SET editora = UPPER($2) WHERE id_editora = $1`,
+                    [idEditora, respostaBD.rows[0].nome]
+                );
+            });
+        } catch (error) {
+            throw Editora.tratarErro(error, 'atualizar');
+        }
+    }
+
+    /**
+     * Remove uma editora que não está associada a nenhum livro ativo.
+     * Os livros já removidos do acervo deixam de referenciar a editora.
+     *
+     * @param idEditora ID da editora
+     * @throws ErroRegraNegocio caso a editora não exista (404) ou tenha livros ativos (409)
+     */
+    static async removerEditora(idEditora: number): Promise<void> {
+        try {
+            await DataBaseModel.transacao(database, async (cliente) => {
+                const respostaLivros = await cliente.query(
+                    `SELECT COUNT(*) AS quant_livros FROM Livro WHERE id_editora = $1 AND status_livro = TRUE`,
+                    [idEditora]
+                );
+
+                if (parseInt(respostaLivros.rows[0].quant_livros) > 0) {
+                    throw new ErroRegraNegocio('A editora possui livros cadastrados e não pode ser removida.', 409, 'EDITORA_COM_LIVROS');
+                }
+
+                await cliente.query(`UPDATE Livro SET id_editora = NULL WHERE id_editora = $1`, [idEditora]);
+                const respostaBD = await cliente.query(`DELETE FROM Editora WHERE id_editora = $1`, [idEditora]);
+
+                if (respostaBD.rowCount === 0) {
+                    throw new ErroRegraNegocio('Editora não encontrada.', 404, 'EDITORA_NAO_ENCONTRADA');
+                }
+            });
+        } catch (error) {
+            throw Editora.tratarErro(error, 'remover');
+        }
+    }
+
+    /**
+     * Define a editora do livro pelo nome, cadastrando a editora caso ainda não exista.
+     * A editora existente é encontrada pelo nome, sem diferenciar maiúsculas de minúsculas.
+     * Deve ser executado dentro da transação que cadastra ou altera o livro.
+     *
+     * @param cliente Conexão da transação em andamento
+     * @param idLivro ID do livro
+     * @param nome Nome da editora (vazio remove a editora do livro)
+     */
+    static async definirEditoraLivro(cliente: pg.PoolClient, idLivro: number, nome: string): Promise<void> {
+        const nomeEditora = (nome ?? '').trim().replace(/\s+/g, ' ');
+
+        if (!nomeEditora) {
+            await cliente.query(`UPDATE Livro SET id_editora = NULL WHERE id_livro = $1`, [idLivro]);
+            return;
+        }
+
+        // DO UPDATE sem alterar o nome, apenas para que o RETURNING devolva a editora já existente
+        const respostaEditora = await cliente.query(
+            `INSERT INTO Editora (nome) VALUES ($1)
+             ON CONFLICT ((UPPER(nome))) DO UPDATE SET nome = Editora.nome
+             RETURNING id_editora, nome`,
+            [nomeEditora]
+        );
+
+        await cliente.query(
+            `UPDATE Livro SET id_editora = $2, editora = UPPER($3) WHERE id_livro = $1`,
+            [idLivro, respostaEditora.rows[0].id_editora, respostaEditora.rows[0].nome]
+        );
+    }
+
+    /**
+     * Converte os erros do banco de dados em erros de regra de negócio
+     */
+    private static tratarErro(error: any, operacao: string): Error {
+        if (error instanceof ErroRegraNegocio) {
+            return error;
+        }
+
+        // violação de chave única (nome já cadastrado)
+        if (error?.code === '23505') {
+            return new ErroRegraNegocio('Já existe uma editora cadastrada com este nome.', 409, 'EDITORA_DUPLICADA');
+        }
+
+        console.error(`Erro ao ${operacao} editora: ${error}`);
+        return new Error(`Erro ao ${operacao} a editora.`);
+    }
+}
@@ -1,8 +1,39 @@
+import pg from 'pg';
 import { DataBaseModel } from "./DataBaseModel";
+import { ErroRegraNegocio } from "../util/ErroRegraNegocio";
+import { Multa } from "./Multa";
+import { Reserva, ReservaAtribuida } from "./Reserva";
+import { Exemplar, SITUACAO_EXEMPLAR, EstadoConservacao, ESTADO_CONSERVACAO } from "./Exemplar";
+import { CapaLivro } from "./CapaLivro";
+import { POLITICA_EMPRESTIMO } from "../config/emprestimoConfig";
 
 // Recupera conexão com o banco de dados
 const database = new DataBaseModel().pool;
 
+/**
+ * Status utilizados pelos empréstimos
+ */
+export const STATUS_EMPRESTIMO = {
+    ATIVO: 'ativo',           // Empréstimo em andamento, dentro do prazo
+    ATRASADO: 'atrasado',     // Data prevista de devolução vencida sem devolução
+    DEVOLVIDO: 'devolvido'    // Livro devolvido (estado final)
+} as const;
+
+/**
+ * Tipo StatusEmprestimo
+ * Define os valores possíveis para o status de um empréstimo
+ */
+export type StatusEmprestimo = typeof STATUS_EMPRESTIMO[keyof typeof STATUS_EMPRESTIMO];
+
+/**
+ * Transições de status permitidas: ativo → atrasado, ativo → devolvido e atrasado → devolvido
+ */
+const TRANSICOES_STATUS_EMPRESTIMO: Record<StatusEmprestimo, StatusEmprestimo[]> = {
+    [STATUS_EMPRESTIMO.ATIVO]: [STATUS_EMPRESTIMO.ATRASADO, STATUS_EMPRESTIMO.DEVOLVIDO],
+    [STATUS_EMPRESTIMO.ATRASADO]: [STATUS_EMPRESTIMO.DEVOLVIDO],
+    [STATUS_EMPRESTIMO.DEVOLVIDO]: []
+};
+
 /**
  * Classe que representa um empréstimo no sistema
  */
@@ -12,7 +43,7 @@ export class Emprestimo{
     private idLivro: number; // Identificador do livro que foi emprestado
     private dataEmprestimo: Date; // Data do empréstimo
     private dataDevolucao: Date; // Data da devolução do livro
-    private statusEmprestimo: string; // Status do empréstimo 
+    private statusEmprestimo: StatusEmprestimo; // Status do empréstimo
 
      /**
      * Construtor da classe Emprestimos
@@ -21,10 +52,10 @@ export class Emprestimo{
      * @param idLivro Identificador do livro emprestado
      * @param dataEmprestimo Data em que o empréstimo foi realizado
      * @param dataDevolucao Data prevista para devolução do livro
-     * @param statusEmprestimo Status do empréstimo (ex.: "ativo", "devolvido")
+     * @param statusEmprestimo Status do empréstimo (ver STATUS_EMPRESTIMO)
      */
     public constructor (_idAluno:number, _idLivro:number, _dataEmprestimo:Date, 
-                        _dataDevolucao:Date, _statusEmprestimo:string) {
+                        _dataDevolucao:Date, _statusEmprestimo:StatusEmprestimo) {
         
         this.idAluno          = _idAluno;
         this.idLivro          = _idLivro;
@@ -123,7 +154,7 @@ export class Emprestimo{
      * Retorna o status do empréstimo
      * @returns statusEmprestimo: status do empréstimo
      */
-    public getStatusEmprestimo(): string {
+    public getStatusEmprestimo(): StatusEmprestimo {
         return this.statusEmprestimo;
     }
 
@@ -132,10 +163,41 @@ export class Emprestimo{
      * 
      * @param _statusEmprestimo : status do empréstimo
      */
-    public setStatusEmprestimo(_statusEmprestimo: string): void {
+    public setStatusEmprestimo(_statusEmprestimo: StatusEmprestimo): void {
         this.statusEmprestimo = _statusEmprestimo;
     }
 
+    /**
+     * Verifica se o valor informado é um status de empréstimo válido
+     * @param status Valor a ser verificado
+     * @returns **true** caso seja um status válido
+     */
+    static statusValido(status: string): status is StatusEmprestimo {
+        return (Object.values(STATUS_EMPRESTIMO) as string[]).includes(status);
+    }
+
+    /**
+     * Verifica se a transição entre dois status é permitida (manter o mesmo status é sempre permitido)
+     * @param statusAtual Status atual do empréstimo
+     * @param novoStatus Status desejado
+     * @returns **true** caso a transição seja permitida
+     */
+    static transicaoPermitida(statusAtual: StatusEmprestimo, novoStatus: StatusEmprestimo): boolean {
+        return statusAtual === novoStatus || TRANSICOES_STATUS_EMPRESTIMO[statusAtual].includes(novoStatus);
+    }
+
+    /**
+     * Calcula o status de um empréstimo não devolvido a partir da data prevista de devolução
+     * @param dataDevolucao Data prevista de devolução
+     * @returns **atrasado** caso a data já tenha passado, senão **ativo**
+     */
+    static derivarStatus(dataDevolucao: Date): StatusEmprestimo {
+        const hoje = new Date();
+        hoje.setHours(0, 0, 0, 0);
+
+        return dataDevolucao < hoje ? STATUS_EMPRESTIMO.ATRASADO : STATUS_EMPRESTIMO.ATIVO;
+    }
+
     // MÉTODO PARA ACESSAR O BANCO DE DADOS
     // CRUD Create - READ - Update - Delete
 
@@ -152,12 +214,14 @@ export class Emprestimo{
             // Query para consulta no banco de dados
             const querySelectEmprestimo = `
                 SELECT e.id_emprestimo, e.id_aluno, e.id_livro,
-                       e.data_emprestimo, e.data_devolucao, e.status_emprestimo, e.status_emprestimo_registro,
+                       e.data_emprestimo, e.data_devolucao, e.data_devolucao_real, e.status_emprestimo, e.status_emprestimo_registro,
+                       e.quant_renovacoes, e.id_exemplar, x.numero_tombo, x.codigo_barras,
                        a.ra, a.nome, a.sobrenome, a.celular, 
                        l.titulo, l.autor, l.editora
                 FROM Emprestimo e
                 JOIN Aluno a ON e.id_aluno = a.id_aluno
                 JOIN Livro l ON e.id_livro = l.id_livro
+                LEFT JOIN Exemplar x ON e.id_exemplar = x.id_exemplar
                 WHERE e.status_emprestimo_registro = TRUE;
             `;
     
@@ -178,8 +242,10 @@ export class Emprestimo{
                     idLivro: linha.id_livro,
                     dataEmprestimo: linha.data_emprestimo,
                     dataDevolucao: linha.data_devolucao,
+                    dataDevolucaoReal: linha.data_devolucao_real,
                     statusEmprestimo: linha.status_emprestimo,
                     statusEmprestimoRegistro: linha.status_emprestimo_registro,
+                    quantRenovacoes: linha.quant_renovacoes,
                     aluno: {
                         ra: linha.ra,
                         nome: linha.nome,
@@ -190,7 +256,12 @@ export class Emprestimo{
                         titulo: linha.titulo,
                         autor: linha.autor,
                         editora: linha.editora
-                    }
+                    },
+                    exemplar: linha.id_exemplar ? {
+                        idExemplar: linha.id_exemplar,
+                        numeroTombo: linha.numero_tombo,
+                        codigoBarras: linha.codigo_barras
+                    } : null
                 };
     
                 // Adiciona o objeto à lista de empréstimos
@@ -210,47 +281,83 @@ export class Emprestimo{
     } 
 
     /**
-     * Cadastra um novo empréstimo no banco de dados
+     * Cadastra um novo empréstimo no banco de dados.
+     * 
+     * O empréstimo é registrado em uma única transação, com os registros do aluno e do livro bloqueados,
+     * e fica vinculado a um exemplar: o exemplar separado para o aluno por reserva, o exemplar informado
+     * (código de barras ou tombo) ou o primeiro exemplar disponível. O exemplar passa a emprestado e as
+     * quantidades do livro são recalculadas pelo banco de dados.
+     * Antes do empréstimo são verificadas as regras do aluno (ver verificarRegrasEmprestimo).
+     * O status é definido pelo servidor: ativo ou, se a data prevista já passou, atrasado.
      * 
      * @param idAluno : number
      * @param idLivro : number
      * @param dataEmprestimo : Date
      * @param dataDevolucao : Date
-     * @param statusEmprestimo : string
-     * @returns Promise com o resultado da inserção ou erro
+     * @param codigoExemplar : código de barras ou número de tombo do exemplar (opcional)
+     * @returns Promise com o ID do empréstimo cadastrado
+     * @throws ErroRegraNegocio caso o aluno, o livro ou o exemplar não existam (404), o aluno esteja impedido de
+     * realizar empréstimos ou o livro não tenha exemplares disponíveis (409)
      */
     static async cadastrarEmprestimo(
         idAluno: number,
         idLivro: number,
         dataEmprestimo: Date,
         dataDevolucao: Date,
-        statusEmprestimo: string
+        codigoExemplar?: string
     ): Promise<any> {
         try {
-            // Cria a consulta (query) para inserir um empréstimo na tabela retornando o ID do empréstimo criado
-            const queryInsertEmprestimo = `
-                INSERT INTO Emprestimo (id_aluno, id_livro, data_emprestimo, data_devolucao, status_emprestimo)
-                VALUES ($1, $2, $3, $4, $5) RETURNING id_emprestimo;
-            `;
-
-            // estrutura os valores recebidos pela função em uma lista (array)
-            const valores = [idAluno, idLivro, dataEmprestimo, dataDevolucao, statusEmprestimo];
-            // realizada a consulta no banco de dados e armazena o resultado
-            const resultado = await database.query(queryInsertEmprestimo, valores);
+            return await DataBaseModel.transacao(database, async (cliente) => {
+                // verifica se o aluno pode realizar um novo empréstimo
+                await Emprestimo.verificarRegrasEmprestimo(cliente, idAluno);
+
+                // Recupera o livro bloqueando o registro até o fim da transação,
+                // assim dois empréstimos simultâneos não conseguem usar o mesmo exemplar
+                const respostaLivro = await cliente.query(
+                    `SELECT 1 FROM Livro WHERE id_livro = $1 AND status_livro = TRUE FOR UPDATE`,
+                    [idLivro]
+                );
+
+                // verifica se o livro existe
+                if (respostaLivro.rows.length === 0) {
+                    throw new ErroRegraNegocio('Livro não encontrado.', 404, 'LIVRO_NAO_ENCONTRADO');
+                }
+
+                // o exemplar separado por reserva tem prioridade, senão é utilizado um exemplar disponível
+                const exemplarSeparado = await Reserva.buscarExemplarSeparado(cliente, idAluno, idLivro);
+                const idExemplar = exemplarSeparado ?? await Exemplar.selecionarExemplarDisponivel(cliente, idLivro, codigoExemplar);
+
+                // o exemplar sai da estante (as quantidades do livro são recalculadas pelo banco de dados)
+                await Exemplar.alterarSituacao(cliente, idExemplar, SITUACAO_EXEMPLAR.EMPRESTADO);
+
+                // Cria a consulta (query) para inserir um empréstimo na tabela retornando o ID do empréstimo criado
+                const queryInsertEmprestimo = `
+                    INSERT INTO Emprestimo (id_aluno, id_livro, id_exemplar, data_emprestimo, data_devolucao, status_emprestimo)
+                    VALUES ($1, $2, $3, $4, $5, $6) RETURNING id_emprestimo;
+                `;
+
+                // o status é definido pelo servidor a partir da data prevista de devolução
+                const valores = [idAluno, idLivro, idExemplar, dataEmprestimo, dataDevolucao, Emprestimo.derivarStatus(dataDevolucao)];
+                // realizada a consulta no banco de dados e armazena o resultado
+                const resultado = await cliente.query(queryInsertEmprestimo, valores);
+
+                // conclui a reserva do aluno que retirou o exemplar separado
+                if (exemplarSeparado) {
+                    await Reserva.atenderReserva(cliente, idAluno, idLivro, resultado.rows[0].id_emprestimo);
+                }
 
-            // verifica se a quantidade de linhas alteradas é diferente de 0
-            if(resultado.rowCount != 0) {
                 // exibe mensagem de sucesso no console
                 console.log(`Empréstimo cadastrado com sucesso! ID: ${resultado.rows[0].id_emprestimo}`);
                 // retorna o ID do empréstimo
                 return resultado.rows[0].id_emprestimo;
-            }
+            });
 
-            // retorna falso
-            return false;
-        
         // captura qualquer tipo de erro que possa acontecer
         } catch (error) {
+            // erros de regra de negócio são repassados para o controlador
+            if (error instanceof ErroRegraNegocio) {
+                throw error;
+            }
             // exibe o detalhe do erro no console
             console.error(`Erro ao cadastrar empréstimo: ${error}`);
             // lança um novo erro
@@ -261,13 +368,23 @@ export class Emprestimo{
      /**
      * Atualiza os dados de um empréstimo existente no banco de dados
      * 
+     * O status não é gravado como recebido: empréstimos em andamento passam a atrasado quando a nova
+     * data prevista já passou, e um status informado só é aceito se a transição a partir do status atual
+     * for permitida. A devolução deve ser registrada pela operação de devolução.
+     * O aluno e o livro só podem ser corrigidos em empréstimos devolvidos: o empréstimo em andamento está
+     * vinculado ao exemplar retirado e foi liberado pelas regras de empréstimo do aluno.
+     * A data prevista de devolução de um empréstimo em andamento só é alterada pela renovação, que
+     * respeita o limite de renovações, as reservas pendentes e registra o histórico.
+     * 
      * @param idEmprestimo : number
      * @param idAluno : number'
      * @param idLivro : number
      * @param dataEmprestimo : Date
      * @param dataDevolucao : Date
-     * @param statusEmprestimo : string
+     * @param statusSolicitado : status desejado (opcional)
      * @returns Promise com o resultado da atualização ou erro
+     * @throws ErroRegraNegocio caso o empréstimo não exista (404), a transição de status não seja permitida (409)
+     * ou o aluno, o livro ou a data prevista de devolução de um empréstimo em andamento seja alterado (409)
      */
      static async atualizarEmprestimo(
         idEmprestimo: number,
@@ -275,29 +392,82 @@ export class Emprestimo{
         idLivro: number,
         dataEmprestimo: Date,
         dataDevolucao: Date,
-        statusEmprestimo: string
+        statusSolicitado?: StatusEmprestimo
     ): Promise<any> {
         try {
-            // Cria a consulta (query) para atualizar um empréstimo
-            const queryUpdateEmprestimo = `UPDATE Emprestimo
-            SET id_aluno = $1, id_livro = $2, data_emprestimo = $3, data_devolucao = $4, status_emprestimo = $5
-            WHERE id_emprestimo = $6
-            RETURNING id_emprestimo;`;
-
-            // estrutura os valores recebidos pela função em uma lista (array)
-            const valores = [idAluno, idLivro, dataEmprestimo, dataDevolucao, statusEmprestimo, idEmprestimo];
-            // executa a consulta e armazena o resultado
-            const resultado = await database.query(queryUpdateEmprestimo, valores);
-
-            // verifica se o empréstimo não existe
-            if (resultado.rowCount === 0) {
-                // lança um novo erro
-                throw new Error('Empréstimo não encontrado.');
-            }
-
-            return resultado.rows[0].id_emprestimo; // Retorna o ID do empréstimo atualizado
+            return await DataBaseModel.transacao(database, async (cliente) => {
+                // Recupera o status atual bloqueando o registro
+                const respostaEmprestimo = await cliente.query(
+                    `SELECT id_aluno, id_livro, status_emprestimo, data_devolucao = $2::date AS mesma_data_devolucao
+                     FROM Emprestimo
+                     WHERE id_emprestimo = $1 AND status_emprestimo_registro = TRUE
+                     FOR UPDATE`,
+                    [idEmprestimo, dataDevolucao]
+                );
+
+                // verifica se o empréstimo existe
+                if (respostaEmprestimo.rows.length === 0) {
+                    throw new ErroRegraNegocio('Empréstimo não encontrado.', 404, 'EMPRESTIMO_NAO_ENCONTRADO');
+                }
+
+                const statusAtual: StatusEmprestimo = respostaEmprestimo.rows[0].status_emprestimo;
+
+                // o exemplar retirado e as regras do aluno pertencem ao empréstimo em andamento
+                const alteraAlunoOuLivro = respostaEmprestimo.rows[0].id_aluno !== Number(idAluno) || respostaEmprestimo.rows[0].id_livro !== Number(idLivro);
+                if (alteraAlunoOuLivro && statusAtual !== STATUS_EMPRESTIMO.DEVOLVIDO) {
+                    throw new ErroRegraNegocio(
+                        'O aluno e o livro de um empréstimo em andamento não podem ser alterados. Registre a devolução e um novo empréstimo.',
+                        409, 'EMPRESTIMO_EM_ANDAMENTO'
+                    );
+                }
+
+                // a prorrogação do prazo passa pelas regras e pelo histórico da renovação
+                if (!respostaEmprestimo.rows[0].mesma_data_devolucao && statusAtual !== STATUS_EMPRESTIMO.DEVOLVIDO) {
+                    throw new ErroRegraNegocio(
+                        'A data prevista de devolução de um empréstimo em andamento não pode ser alterada. Utilize a renovação do empréstimo.',
+                        409, 'DATA_DEVOLUCAO_NAO_ALTERAVEL'
+                    );
+                }
+
+                // status calculado a partir da nova data prevista, sem voltar de atrasado para ativo
+                let novoStatus = statusAtual;
+                if (statusAtual !== STATUS_EMPRESTIMO.DEVOLVIDO && Emprestimo.derivarStatus(dataDevolucao) === STATUS_EMPRESTIMO.ATRASADO) {
+                    novoStatus = STATUS_EMPRESTIMO.ATRASADO;
+                }
+
+                // um status informado deve ser uma transição permitida, e a devolução tem operação própria
+                if (statusSolicitado && statusSolicitado !== novoStatus) {
+                    if (!Emprestimo.transicaoPermitida(novoStatus, statusSolicitado) || statusSolicitado === STATUS_EMPRESTIMO.DEVOLVIDO) {
+                        throw new ErroRegraNegocio(
+                            `Transição de status não permitida: ${statusAtual} → ${statusSolicitado}.` +
+                            (statusSolicitado === STATUS_EMPRESTIMO.DEVOLVIDO ? ' Utilize a devolução do empréstimo.' : ''),
+                            409, 'TRANSICAO_STATUS_INVALIDA'
+                        );
+                    }
+                    novoStatus = statusSolicitado;
+                }
+
+                // Cria a consulta (query) para atualizar um empréstimo
+                // na correção do livro de um empréstimo devolvido, o exemplar do livro anterior deixa de ser referenciado
+                const queryUpdateEmprestimo = `UPDATE Emprestimo
+                SET id_aluno = $1, id_livro = $2, data_emprestimo = $3, data_devolucao = $4, status_emprestimo = $5,
+                    id_exemplar = CASE WHEN id_livro = $2 THEN id_exemplar ELSE NULL END
+                WHERE id_emprestimo = $6
+                RETURNING id_emprestimo;`;
+
+                // estrutura os valores recebidos pela função em uma lista (array)
+                const valores = [idAluno, idLivro, dataEmprestimo, dataDevolucao, novoStatus, idEmprestimo];
+                // executa a consulta e armazena o resultado
+                const resultado = await cliente.query(queryUpdateEmprestimo, valores);
+
+                return resultado.rows[0].id_emprestimo; // Retorna o ID do empréstimo atualizado
+            });
         // captura qualquer erro que possa acontecer
         } catch (error) {
+            // erros de regra de negócio são repassados para o controlador
+            if (error instanceof ErroRegraNegocio) {
+                throw error;
+            }
             // exibe detalhes do erro no console
             console.error(`Erro ao atualizar empréstimo: ${error}`);
             // lança um novo erro
@@ -306,43 +476,450 @@ export class Emprestimo{
     }
 
     /**
-     * Remove um emprétimo ativo do banco de dados
+     * Registra a devolução de um empréstimo.
+     * 
+     * Em uma única transação, grava a data e hora real da devolução, marca o empréstimo como devolvido,
+     * gera a multa por atraso, se houver, e separa o exemplar para o primeiro aluno da fila de reservas
+     * ou, se não houver reservas, torna o exemplar disponível. Exemplares devolvidos danificados
+     * seguem para manutenção.
+     * O aluno que recebeu o exemplar é avisado por e-mail depois da confirmação da transação.
+     * 
+     * @param idEmprestimo ID do empréstimo
+     * @param estadoConservacao Estado de conservação do exemplar na devolução (opcional)
+     * @returns Data e hora em que a devolução foi registrada
+     * @throws ErroRegraNegocio caso o empréstimo não exista (404) ou já tenha sido devolvido (409)
+     */
+    static async devolverEmprestimo(idEmprestimo: number, estadoConservacao?: EstadoConservacao): Promise<Date> {
+        let devolucao: { dataDevolucaoReal: Date, reservaAtribuida: ReservaAtribuida | null };
+
+        try {
+            devolucao = await DataBaseModel.transacao(database, async (cliente) => {
+                // Recupera o empréstimo bloqueando o registro, evitando duas devoluções simultâneas
+                const respostaEmprestimo = await cliente.query(
+                    `SELECT id_livro, id_exemplar, status_emprestimo, data_devolucao_real FROM Emprestimo
+                     WHERE id_emprestimo = $1 AND status_emprestimo_registro = TRUE
+                     FOR UPDATE`,
+                    [idEmprestimo]
+                );
+
+                // verifica se o empréstimo existe
+                if (respostaEmprestimo.rows.length === 0) {
+                    throw new ErroRegraNegocio('Empréstimo não encontrado.', 404, 'EMPRESTIMO_NAO_ENCONTRADO');
+                }
+
+                const emprestimo = respostaEmprestimo.rows[0];
+
+                // verifica se o livro já foi devolvido
+                if (emprestimo.data_devolucao_real || emprestimo.status_emprestimo === STATUS_EMPRESTIMO.DEVOLVIDO) {
+                    throw new ErroRegraNegocio('Este empréstimo já foi devolvido.', 409, 'EMPRESTIMO_JA_DEVOLVIDO');
+                }
+
+                // registra a devolução e conclui o empréstimo
+                const resultado = await cliente.query(
+                    `UPDATE Emprestimo SET data_devolucao_real = NOW(), status_emprestimo = $2
+                     WHERE id_emprestimo = $1
+                     RETURNING data_devolucao_real`,
+                    [idEmprestimo, STATUS_EMPRESTIMO.DEVOLVIDO]
+                );
+
+                // bloqueia o livro, a mesma trava utilizada no empréstimo e nas reservas
+                await cliente.query(`SELECT 1 FROM Livro WHERE id_livro = $1 FOR UPDATE`, [emprestimo.id_livro]);
+
+                let reservaAtribuida: ReservaAtribuida | null = null;
+
+                // empréstimos anteriores ao controle de exemplares podem não ter exemplar vinculado
+                if (emprestimo.id_exemplar) {
+                    if (estadoConservacao === ESTADO_CONSERVACAO.DANIFICADO) {
+                        // exemplar danificado sai de circulação para reparo
+                        await Exemplar.alterarSituacao(cliente, emprestimo.id_exemplar, SITUACAO_EXEMPLAR.MANUTENCAO, estadoConservacao);
+                    } else {
+                        if (estadoConservacao) {
+                            await Exemplar.registrarEstadoConservacao(cliente, emprestimo.id_exemplar, estadoConservacao);
+                        }
+
+                        // separa o exemplar para o primeiro aluno da fila de reservas ou o torna disponível
+                        reservaAtribuida = await Reserva.liberarExemplar(cliente, emprestimo.id_livro, emprestimo.id_exemplar);
+                    }
+                }
+
+                // gera a cobrança final de multa, caso a devolução tenha ocorrido com atraso
+                await Multa.acumularMultas(idEmprestimo, cliente);
+
+                console.log(`Devolução registrada com sucesso! ID: ${idEmprestimo}`);
+                return { dataDevolucaoReal: resultado.rows[0].data_devolucao_real, reservaAtribuida };
+            });
+
+        // captura qualquer tipo de erro que possa acontecer
+        } catch (error) {
+            // erros de regra de negócio são repassados para o controlador
+            if (error instanceof ErroRegraNegocio) {
+                throw error;
+            }
+            console.error(`Erro ao registrar devolução: ${error}`);
+            throw new Error('Erro ao registrar a devolução.');
+        }
+
+        // avisa o aluno que recebeu o exemplar reservado
+        if (devolucao.reservaAtribuida) {
+            await Reserva.notificarDisponibilidade(devolucao.reservaAtribuida);
+        }
+
+        return devolucao.dataDevolucaoReal;
+    }
+
+    /**
+     * Verifica as regras de empréstimo do aluno, bloqueando o registro do aluno até o fim da transação
+     * para que dois empréstimos simultâneos não ultrapassem o limite:
+     * - o aluno deve estar ativo (ALUNO_INATIVO);
+     * - não pode ter empréstimos atrasados (EMPRESTIMO_ATRASADO);
+     * - não pode ter multas pendentes (MULTA_PENDENTE);
+     * - não pode ultrapassar o limite de empréstimos em aberto (LIMITE_EMPRESTIMOS).
+     *
+     * @param cliente Conexão da transação em andamento
+     * @param idAluno ID do aluno
+     * @throws ErroRegraNegocio com o código do motivo da recusa
+     */
+    private static async verificarRegrasEmprestimo(cliente: pg.PoolClient, idAluno: number): Promise<void> {
+        const respostaAluno = await cliente.query(
+            `SELECT status_aluno FROM Aluno WHERE id_aluno = $1 FOR UPDATE`,
+            [idAluno]
+        );
+
+        if (respostaAluno.rows.length === 0) {
+            throw new ErroRegraNegocio('Aluno não encontrado.', 404, 'ALUNO_NAO_ENCONTRADO');
+        }
+
+        if (!respostaAluno.rows[0].status_aluno) {
+            throw new ErroRegraNegocio('O aluno está inativo e não pode realizar empréstimos.', 409, 'ALUNO_INATIVO');
+        }
+
+        // empréstimos em aberto do aluno, separando os atrasados
+        const respostaEmprestimos = await cliente.query(
+            `SELECT COUNT(*)::int AS em_aberto,
+                    COUNT(*) FILTER (WHERE data_devolucao < CURRENT_DATE OR status_emprestimo = $2)::int AS atrasados
+             FROM Emprestimo
+             WHERE id_aluno = $1 AND status_emprestimo_registro = TRUE AND data_devolucao_real IS NULL`,
+            [idAluno, STATUS_EMPRESTIMO.ATRASADO]
+        );
+
+        const { em_aberto, atrasados } = respostaEmprestimos.rows[0];
+
+        if (atrasados > 0) {
+            throw new ErroRegraNegocio('O aluno possui empréstimos atrasados e não pode realizar novos empréstimos.', 409, 'EMPRESTIMO_ATRASADO');
+        }
+
+        if (await Multa.calcularSaldo(cliente, idAluno) > 0) {
+            throw new ErroRegraNegocio('O aluno possui multas pendentes e não pode realizar novos empréstimos.', 409, 'MULTA_PENDENTE');
+        }
+
+        if (em_aberto >= POLITICA_EMPRESTIMO.LIMITE_EMPRESTIMOS_ALUNO) {
+            throw new ErroRegraNegocio(
+                `O aluno atingiu o limite de ${POLITICA_EMPRESTIMO.LIMITE_EMPRESTIMOS_ALUNO} empréstimo(s) em aberto.`, 409, 'LIMITE_EMPRESTIMOS'
+            );
+        }
+    }
+
+    /**
+     * Renova um empréstimo, estendendo a data de devolução pelo prazo de renovação da política de empréstimos.
+     *
+     * A renovação é recusada caso o empréstimo já tenha sido devolvido, esteja atrasado, tenha atingido
+     * o número máximo de renovações ou existam reservas pendentes para o livro.
+     * Cada renovação é registrada no histórico.
+     *
+     * @param idEmprestimo ID do empréstimo
+     * @param idUsuario ID do usuário que registrou a renovação
+     * @returns Nova data de devolução e a quantidade de renovações do empréstimo
+     * @throws ErroRegraNegocio caso o empréstimo não exista (404) ou não possa ser renovado (409)
+     */
+    static async renovarEmprestimo(idEmprestimo: number, idUsuario: number): Promise<{ dataDevolucao: Date, quantRenovacoes: number }> {
+        try {
+            return await DataBaseModel.transacao(database, async (cliente) => {
+                // Recupera o empréstimo bloqueando o registro, evitando duas renovações simultâneas
+                const respostaEmprestimo = await cliente.query(
+                    `SELECT id_livro, status_emprestimo, data_devolucao, data_devolucao_real, quant_renovacoes,
+                            data_devolucao < CURRENT_DATE AS vencido
+                     FROM Emprestimo
+                     WHERE id_emprestimo = $1 AND status_emprestimo_registro = TRUE
+                     FOR UPDATE`,
+                    [idEmprestimo]
+                );
+
+                // verifica se o empréstimo existe
+                if (respostaEmprestimo.rows.length === 0) {
+                    throw new ErroRegraNegocio('Empréstimo não encontrado.', 404, 'EMPRESTIMO_NAO_ENCONTRADO');
+                }
+
+                const emprestimo = respostaEmprestimo.rows[0];
+
+                // verifica se o livro já foi devolvido
+                if (emprestimo.data_devolucao_real || emprestimo.status_emprestimo === STATUS_EMPRESTIMO.DEVOLVIDO) {
+                    throw new ErroRegraNegocio('Este empréstimo já foi devolvido.', 409, 'EMPRESTIMO_JA_DEVOLVIDO');
+                }
+
+                // empréstimos atrasados devem ser devolvidos
+                if (emprestimo.vencido || emprestimo.status_emprestimo === STATUS_EMPRESTIMO.ATRASADO) {
+                    throw new ErroRegraNegocio('Empréstimos atrasados não podem ser renovados.', 409, 'EMPRESTIMO_ATRASADO');
+                }
+
+                // outros alunos estão aguardando o livro
+                if (await Reserva.possuiReservasPendentes(cliente, emprestimo.id_livro)) {
+                    throw new ErroRegraNegocio('Há reservas pendentes para este livro, o empréstimo não pode ser renovado.', 409, 'RESERVAS_PENDENTES');
+                }
+
+                // verifica o limite de renovações
+                if (emprestimo.quant_renovacoes >= POLITICA_EMPRESTIMO.MAX_RENOVACOES) {
+                    throw new ErroRegraNegocio(
+                        `O empréstimo já atingiu o limite de ${POLITICA_EMPRESTIMO.MAX_RENOVACOES} renovação(ões).`, 409, 'LIMITE_RENOVACOES'
+                    );
+                }
+
+                // estende a data de devolução e incrementa o contador de renovações
+                const resultado = await cliente.query(
+                    `UPDATE Emprestimo
+                     SET data_devolucao = data_devolucao + $2::int,
+                         quant_renovacoes = quant_renovacoes + 1
+                     WHERE id_emprestimo = $1
+                     RETURNING data_devolucao, quant_renovacoes`,
+                    [idEmprestimo, POLITICA_EMPRESTIMO.PRAZO_RENOVACAO_DIAS]
+                );
+
+                const renovado = resultado.rows[0];
+
+                // registra a renovação no histórico
+                await cliente.query(
+                    `INSERT INTO Renovacao_Emprestimo (id_emprestimo, data_devolucao_anterior, data_devolucao_nova, id_usuario)
+                     VALUES ($1, $2, $3, $4)`,
+                    [idEmprestimo, emprestimo.data_devolucao, renovado.data_devolucao, idUsuario]
+                );
+
+                console.log(`Empréstimo renovado com sucesso! ID: ${idEmprestimo}`);
+                return { dataDevolucao: renovado.data_devolucao, quantRenovacoes: renovado.quant_renovacoes };
+            });
+
+        // captura qualquer tipo de erro que possa acontecer
+        } catch (error) {
+            // erros de regra de negócio são repassados para o controlador
+            if (error instanceof ErroRegraNegocio) {
+                throw error;
+            }
+            console.error(`Erro ao renovar empréstimo: ${error}`);
+            throw new Error('Erro ao renovar o empréstimo.');
+        }
+    }
+
+    /**
+     * Retorna o histórico de renovações de um empréstimo, da mais antiga para a mais recente
+     *
+     * @param idEmprestimo ID do empréstimo
+     * @returns Lista de renovações do empréstimo
+     */
+    static async listarRenovacoes(idEmprestimo: number): Promise<Array<any>> {
+        const respostaBD = await database.query(
+            `SELECT r.id_renovacao, r.data_devolucao_anterior, r.data_devolucao_nova, r.data_renovacao,
+                    u.nome AS nome_usuario
+             FROM Renovacao_Emprestimo r
+             LEFT JOIN Usuario u ON u.id_usuario = r.id_usuario
+             WHERE r.id_emprestimo = $1
+             ORDER BY r.data_renovacao, r.id_renovacao`,
+            [idEmprestimo]
+        );
+
+        return respostaBD.rows.map((linha: any) => ({
+            idRenovacao: linha.id_renovacao,
+            dataDevolucaoAnterior: linha.data_devolucao_anterior,
+            dataDevolucaoNova: linha.data_devolucao_nova,
+            dataRenovacao: linha.data_renovacao,
+            registradoPor: linha.nome_usuario
+        }));
+    }
+
+    /**
+     * Retorna os detalhes de um empréstimo, com os dados completos do aluno e do livro,
+     * o exemplar retirado e o histórico de renovações
+     *
+     * @param idEmprestimo ID do empréstimo
+     * @returns Detalhes do empréstimo ou null caso o empréstimo não exista ou tenha sido removido
+     */
+    static async consultarEmprestimo(idEmprestimo: number): Promise<any | null> {
+        const respostaBD = await database.query(
+            `SELECT e.id_emprestimo, e.id_aluno, e.id_livro, e.id_exemplar,
+                    e.data_emprestimo, e.data_devolucao, e.data_devolucao_real, e.status_emprestimo, e.quant_renovacoes,
+                    a.ra, a.nome, a.sobrenome, a.data_nascimento, a.endereco, a.email, a.celular, a.status_aluno,
+                    a.id_turma, t.codigo AS codigo_turma, t.nome AS nome_turma,
+                    l.titulo, l.autor, l.editora, l.ano_publicacao, l.isbn, l.classificacao, l.sistema_classificacao,
+                    l.capa, l.quant_total, l.quant_disponivel, l.status_livro,
+                    x.numero_tombo, x.codigo_barras, x.localizacao, x.estado_conservacao, x.situacao
+             FROM Emprestimo e
+             JOIN Aluno a ON a.id_aluno = e.id_aluno
+             JOIN Livro l ON l.id_livro = e.id_livro
+             LEFT JOIN Turma t ON t.id_turma = a.id_turma
+             LEFT JOIN Exemplar x ON x.id_exemplar = e.id_exemplar
+             WHERE e.id_emprestimo = $1 AND e.status_emprestimo_registro = TRUE`,
+            [idEmprestimo]
+        );
+
+        if (respostaBD.rows.length === 0) {
+            return null;
+        }
+
+        const linha = respostaBD.rows[0];
+
+        return {
+            idEmprestimo: linha.id_emprestimo,
+            idAluno: linha.id_aluno,
+            idLivro: linha.id_livro,
+            dataEmprestimo: linha.data_emprestimo,
+            dataDevolucao: linha.data_devolucao,
+            dataDevolucaoReal: linha.data_devolucao_real,
+            statusEmprestimo: linha.status_emprestimo,
+            quantRenovacoes: linha.quant_renovacoes,
+            aluno: {
+                idAluno: linha.id_aluno,
+                ra: linha.ra,
+                nome: linha.nome,
+                sobrenome: linha.sobrenome,
+                dataNascimento: linha.data_nascimento,
+                endereco: linha.endereco,
+                email: linha.email,
+                celular: linha.celular,
+                statusAluno: linha.status_aluno,
+                turma: linha.id_turma ? { idTurma: linha.id_turma, codigo: linha.codigo_turma, nome: linha.nome_turma } : null
+            },
+            livro: {
+                idLivro: linha.id_livro,
+                titulo: linha.titulo,
+                autor: linha.autor,
+                editora: linha.editora,
+                anoPublicacao: linha.ano_publicacao,
+                isbn: linha.isbn,
+                classificacao: linha.classificacao,
+                sistemaClassificacao: linha.sistema_classificacao,
+                quantTotal: linha.quant_total,
+                quantDisponivel: linha.quant_disponivel,
+                statusLivro: linha.status_livro,
+                capa: linha.capa ? CapaLivro.montarCapa(linha.capa) : null
+            },
+            exemplar: linha.id_exemplar ? {
+                idExemplar: linha.id_exemplar,
+                numeroTombo: linha.numero_tombo,
+                codigoBarras: linha.codigo_barras,
+                localizacao: linha.localizacao,
+                estadoConservacao: linha.estado_conservacao,
+                situacao: linha.situacao
+            } : null,
+            renovacoes: await Emprestimo.listarRenovacoes(idEmprestimo)
+        };
+    }
+
+    /**
+     * Marca como atrasados os empréstimos em andamento cuja data prevista de devolução já passou
+     * 
+     * @returns Lista com os empréstimos que tiveram o status alterado
+     */
+    static async marcarEmprestimosAtrasados(): Promise<Array<any>> {
+        // Atualiza os empréstimos vencidos e retorna os registros alterados com os dados do aluno e do livro
+        const queryAtualizaAtrasados = `
+            WITH atualizados AS (
+                UPDATE Emprestimo
+                SET status_emprestimo = $1
+                WHERE status_emprestimo = $2
+                AND status_emprestimo_registro = TRUE
+                AND data_devolucao_real IS NULL
+                AND data_devolucao < CURRENT_DATE
+                RETURNING id_emprestimo, id_aluno, id_livro, data_emprestimo, data_devolucao
+            )
+            SELECT at.*, a.ra, a.nome, a.sobrenome, l.titulo
+            FROM atualizados at
+            JOIN Aluno a ON a.id_aluno = at.id_aluno
+            JOIN Livro l ON l.id_livro = at.id_livro
+            ORDER BY at.data_devolucao;
+        `;
+
+        const respostaBD = await database.query(queryAtualizaAtrasados, [STATUS_EMPRESTIMO.ATRASADO, STATUS_EMPRESTIMO.ATIVO]);
+
+        // Monta a lista de empréstimos alterados
+        return respostaBD.rows.map((linha: any) => ({
+            idEmprestimo: linha.id_emprestimo,
+            idAluno: linha.id_aluno,
+            idLivro: linha.id_livro,
+            dataEmprestimo: linha.data_emprestimo,
+            dataDevolucao: linha.data_devolucao,
+            statusAnterior: STATUS_EMPRESTIMO.ATIVO,
+            statusEmprestimo: STATUS_EMPRESTIMO.ATRASADO,
+            aluno: {
+                ra: linha.ra,
+                nome: linha.nome,
+                sobrenome: linha.sobrenome
+            },
+            livro: {
+                titulo: linha.titulo
+            }
+        }));
+    }
+
+    /**
+     * Remove um emprétimo do banco de dados
+     * 
+     * O registro é desativado em uma única transação. Caso o empréstimo ainda não tenha sido devolvido,
+     * o exemplar é liberado como na devolução: separado para o primeiro aluno da fila de reservas,
+     * que é avisado por e-mail, ou disponível na estante.
      * 
      * @param idEmprestimo 
      * @returns **true** caso o empréstimo tenha sido resolvido, **false** caso contrário
      */
     static async removerEmprestimo(idEmprestimo: number): Promise<boolean> {
-        // variável de controle da query
-        let queryResult = false;
+        let remocao: { removido: boolean, reservaAtribuida: ReservaAtribuida | null };
 
-        // tenta executar a query
+        // tenta executar a remoção
         try {
-            // monta a query
-            const queryDeleteEmprestimo = `UPDATE emprestimo 
-                                            SET status_emprestimo_registro = FALSE
-                                            WHERE id_emprestimo=${idEmprestimo}`;
+            remocao = await DataBaseModel.transacao(database, async (cliente) => {
+                // Recupera o empréstimo bloqueando o registro, evitando uma devolução simultânea
+                const respostaEmprestimo = await cliente.query(
+                    `SELECT id_livro, id_exemplar, status_emprestimo FROM Emprestimo
+                     WHERE id_emprestimo = $1 AND status_emprestimo_registro = TRUE
+                     FOR UPDATE`,
+                    [idEmprestimo]
+                );
+
+                if (respostaEmprestimo.rows.length === 0) {
+                    return { removido: false, reservaAtribuida: null };
+                }
+
+                const emprestimo = respostaEmprestimo.rows[0];
+
+                await cliente.query(
+                    `UPDATE Emprestimo SET status_emprestimo_registro = FALSE WHERE id_emprestimo = $1`,
+                    [idEmprestimo]
+                );
+
+                let reservaAtribuida: ReservaAtribuida | null = null;
+
+                // o exemplar de um empréstimo em andamento volta para a fila de reservas ou para a estante
+                if (emprestimo.status_emprestimo !== STATUS_EMPRESTIMO.DEVOLVIDO && emprestimo.id_exemplar) {
+                    // bloqueia o livro, a mesma trava utilizada no empréstimo e nas reservas
+                    await cliente.query(`SELECT 1 FROM Livro WHERE id_livro = $1 FOR UPDATE`, [emprestimo.id_livro]);
+                    reservaAtribuida = await Reserva.liberarExemplar(cliente, emprestimo.id_livro, emprestimo.id_exemplar);
+                }
 
-            // executa a query e armazena a resposta
-            const respostaBD = await database.query(queryDeleteEmprestimo);
-
-            // verifica se a quantidade de linhas retornadas é diferente de 0
-            if(respostaBD.rowCount != 0) {
                 // exibe mensagem de sucesso
                 console.log('Empréstimo removido com sucesso!');
-                // altera o valor da variável para true
-                queryResult = true;
-            }
-
-            // retorna a resposta
-            return queryResult;
+                return { removido: true, reservaAtribuida };
+            });
 
         // captura qualquer erro que possa acontecer
         } catch (error) {
             // exibe detalhes do erro no console
             console.log(`Erro ao remover empréstimo: ${error}`);
             // retorna a resposta
-            return queryResult;
+            return false;
         }
+
+        // avisa o aluno que recebeu o exemplar reservado
+        if (remocao.reservaAtribuida) {
+            await Reserva.notificarDisponibilidade(remocao.reservaAtribuida);
+        }
+
+        return remocao.removido;
     }
 }
 
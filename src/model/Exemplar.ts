@@ -0,0 +1,368 @@
+import pg from 'pg';
+import { DataBaseModel } from "./DataBaseModel";
+import { ErroRegraNegocio } from "../util/ErroRegraNegocio";
+import { Reserva, ReservaAtribuida } from "./Reserva";
+
+// Recupera conexão com o banco de dados
+const database = new DataBaseModel().pool;
+
+/**
+ * Situações de um exemplar
+ */
+export const SITUACAO_EXEMPLAR = {
+    DISPONIVEL: 'disponivel',   // Na estante, pode ser emprestado
+    EMPRESTADO: 'emprestado',   // Com um aluno
+    RESERVADO: 'reservado',     // Separado para o aluno da fila de reservas
+    MANUTENCAO: 'manutencao',   // Em reparo, fora de circulação
+    EXTRAVIADO: 'extraviado',   // Perdido
+    BAIXADO: 'baixado'          // Retirado do acervo
+} as const;
+
+/**
+ * Estados de conservação de um exemplar
+ */
+export const ESTADO_CONSERVACAO = {
+    NOVO: 'novo',
+    BOM: 'bom',
+    REGULAR: 'regular',
+    DANIFICADO: 'danificado'
+} as const;
+
+export type SituacaoExemplar = typeof SITUACAO_EXEMPLAR[keyof typeof SITUACAO_EXEMPLAR];
+export type EstadoConservacao = typeof ESTADO_CONSERVACAO[keyof typeof ESTADO_CONSERVACAO];
+
+/**
+ * Situações que podem ser definidas manualmente pela equipe da biblioteca.
+ * Emprestado e reservado são controlados pelos empréstimos e pelas reservas.
+ */
+const SITUACOES_MANUAIS: SituacaoExemplar[] = [
+    SITUACAO_EXEMPLAR.DISPONIVEL,
+    SITUACAO_EXEMPLAR.MANUTENCAO,
+    SITUACAO_EXEMPLAR.EXTRAVIADO,
+    SITUACAO_EXEMPLAR.BAIXADO
+];
+
+/**
+ * Quantidade máxima de exemplares gerados no cadastro do livro (os demais são cadastrados individualmente)
+ */
+export const QUANT_MAXIMA_EXEMPLARES_CADASTRO = 500;
+
+/**
+ * Interface DadosExemplar
+ * Define os dados informados no cadastro e na atualização de um exemplar
+ */
+export interface DadosExemplar {
+    numeroTombo?: string;                   // Número de tombo (gerado automaticamente se não informado)
+    codigoBarras?: string | null;           // Código de barras da etiqueta
+    localizacao?: string | null;            // Localização na estante
+    estadoConservacao?: EstadoConservacao;  // Estado de conservação
+    situacao?: SituacaoExemplar;            // Situação (apenas na atualização)
+}
+
+/**
+ * Classe que representa um exemplar (cópia física) de um livro.
+ *
+ * Cada exemplar tem um número de tombo e um código de barras únicos. As quantidades total e
+ * disponível do livro são calculadas pelo banco de dados a partir da situação dos exemplares.
+ */
+export class Exemplar {
+
+    /**
+     * Verifica se o valor informado é uma situação de exemplar válida
+     */
+    static situacaoValida(situacao: string): situacao is SituacaoExemplar {
+        return (Object.values(SITUACAO_EXEMPLAR) as string[]).includes(situacao);
+    }
+
+    /**
+     * Verifica se o valor informado é um estado de conservação válido
+     */
+    static estadoConservacaoValido(estado: string): estado is EstadoConservacao {
+        return (Object.values(ESTADO_CONSERVACAO) as string[]).includes(estado);
+    }
+
+    /**
+     * Retorna os exemplares de um livro
+     *
+     * @param idLivro ID do livro
+     * @returns Lista de exemplares do livro
+     */
+    static async listarExemplares(idLivro: number): Promise<Array<any>> {
+        const respostaBD = await database.query(
+            `SELECT id_exemplar, id_livro, numero_tombo, codigo_barras, localizacao, estado_conservacao, situacao, data_aquisicao
+             FROM Exemplar
+             WHERE id_livro = $1
+             ORDER BY numero_tombo`,
+            [idLivro]
+        );
+
+        return respostaBD.rows.map((linha: any) => Exemplar.montarExemplar(linha));
+    }
+
+    /**
+     * Cadastra um novo exemplar para o livro
+     *
+     * @param idLivro ID do livro
+     * @param dados Dados do exemplar
+     * @returns Exemplar cadastrado
+     * @throws ErroRegraNegocio caso o livro não exista (404) ou o tombo/código de barras já esteja em uso (409)
+     */
+    static async cadastrarExemplar(idLivro: number, dados: DadosExemplar): Promise<any> {
+        try {
+            const { exemplar, reservaAtribuida } = await DataBaseModel.transacao(database, async (cliente) => {
+                // bloqueia o livro, a mesma trava utilizada nos empréstimos e nas reservas
+                const respostaLivro = await cliente.query(
+                    `SELECT 1 FROM Livro WHERE id_livro = $1 AND status_livro = TRUE FOR UPDATE`,
+                    [idLivro]
+                );
+
+                if (respostaLivro.rows.length === 0) {
+                    throw new ErroRegraNegocio('Livro não encontrado.', 404, 'LIVRO_NAO_ENCONTRADO');
+                }
+
+                const respostaBD = await cliente.query(
+                    `INSERT INTO Exemplar (id_livro, numero_tombo, codigo_barras, localizacao, estado_conservacao, situacao)
+                     VALUES ($1, COALESCE($2, 'TB' || LPAD(nextval('seq_numero_tombo')::text, 6, '0')), $3, $4, $5, $6)
+                     RETURNING id_exemplar, id_livro, numero_tombo, codigo_barras, localizacao, estado_conservacao, situacao, data_aquisicao`,
+                    [
+                        idLivro, dados.numeroTombo || null, dados.codigoBarras || null, dados.localizacao || null,
+                        dados.estadoConservacao ?? ESTADO_CONSERVACAO.BOM, SITUACAO_EXEMPLAR.DISPONIVEL
+                    ]
+                );
+
+                const linha = respostaBD.rows[0];
+
+                // o novo exemplar atende primeiro a fila de reservas do livro
+                const reservaAtribuida = await Reserva.atribuirProximaReserva(cliente, idLivro, linha.id_exemplar);
+                if (reservaAtribuida) {
+                    linha.situacao = SITUACAO_EXEMPLAR.RESERVADO;
+                }
+
+                return { exemplar: Exemplar.montarExemplar(linha), reservaAtribuida };
+            });
+
+            await Exemplar.notificar(reservaAtribuida);
+            return exemplar;
+        } catch (error) {
+            throw Exemplar.tratarErro(error, 'cadastrar');
+        }
+    }
+
+    /**
+     * Atualiza a localização, o estado de conservação e a situação de um exemplar.
+     * Exemplares emprestados ou reservados não podem ter a situação alterada manualmente.
+     *
+     * @param idExemplar ID do exemplar
+     * @param dados Dados a serem alterados
+     * @throws ErroRegraNegocio caso o exemplar não exista (404) ou a situação não possa ser alterada (409)
+     */
+    static async atualizarExemplar(idExemplar: number, dados: DadosExemplar): Promise<void> {
+        try {
+            const reservaAtribuida = await DataBaseModel.transacao(database, async (cliente) => {
+                const idLivro = await Exemplar.buscarLivroExemplar(cliente, idExemplar);
+
+                // bloqueia o livro antes do exemplar, na mesma ordem dos empréstimos e das reservas
+                await cliente.query(`SELECT 1 FROM Livro WHERE id_livro = $1 FOR UPDATE`, [idLivro]);
+
+                const respostaExemplar = await cliente.query(
+                    `SELECT situacao FROM Exemplar WHERE id_exemplar = $1 FOR UPDATE`,
+                    [idExemplar]
+                );
+
+                const situacaoAtual: SituacaoExemplar = respostaExemplar.rows[0].situacao;
+                const novaSituacao = dados.situacao ?? situacaoAtual;
+
+                if (novaSituacao !== situacaoAtual) {
+                    if (situacaoAtual === SITUACAO_EXEMPLAR.EMPRESTADO || situacaoAtual === SITUACAO_EXEMPLAR.RESERVADO) {
+                        throw new ErroRegraNegocio(`O exemplar está ${situacaoAtual} e não pode ter a situação alterada.`, 409, 'EXEMPLAR_EM_USO');
+                    }
+
+                    if (!SITUACOES_MANUAIS.includes(novaSituacao)) {
+                        throw new ErroRegraNegocio(
+                            `A situação ${novaSituacao} é definida pelos empréstimos e reservas.`, 409, 'SITUACAO_EXEMPLAR_INVALIDA'
+                        );
+                    }
+                }
+
+                await cliente.query(
+                    `UPDATE Exemplar
+                     SET numero_tombo = COALESCE($2, numero_tombo),
+                         codigo_barras = COALESCE($3, codigo_barras),
+                         localizacao = COALESCE($4, localizacao),
+                         estado_conservacao = COALESCE($5, estado_conservacao),
+                         situacao = $6
+                     WHERE id_exemplar = $1`,
+                    [
+                        idExemplar, dados.numeroTombo || null, dados.codigoBarras || null, dados.localizacao || null,
+                        dados.estadoConservacao ?? null, novaSituacao
+                    ]
+                );
+
+                // exemplar que volta a circular atende primeiro a fila de reservas
+                if (novaSituacao === SITUACAO_EXEMPLAR.DISPONIVEL && situacaoAtual !== SITUACAO_EXEMPLAR.DISPONIVEL) {
+                    return Reserva.atribuirProximaReserva(cliente, idLivro, idExemplar);
+                }
+
+                return null;
+            });
+
+            await Exemplar.notificar(reservaAtribuida);
+        } catch (error) {
+            throw Exemplar.tratarErro(error, 'atualizar');
+        }
+    }
+
+    /**
+     * Seleciona um exemplar disponível do livro, bloqueando o registro até o fim da transação.
+     * Deve ser executado dentro da transação que bloqueou o registro do livro.
+     *
+     * @param cliente Conexão da transação em andamento
+     * @param idLivro ID do livro
+     * @param codigo Código de barras ou número de tombo de um exemplar específico (opcional)
+     * @returns ID do exemplar selecionado
+     * @throws ErroRegraNegocio caso o exemplar informado não seja do livro (404) ou não haja exemplar disponível (409)
+     */
+    static async selecionarExemplarDisponivel(cliente: pg.PoolClient, idLivro: number, codigo?: string): Promise<number> {
+        if (codigo) {
+            const respostaBD = await cliente.query(
+                `SELECT id_exemplar, situacao FROM Exemplar
+                 WHERE id_livro = $1 AND (codigo_barras = $2 OR numero_tombo = $2)
+                 FOR UPDATE`,
+                [idLivro, codigo]
+            );
+
+            if (respostaBD.rows.length === 0) {
+                throw new ErroRegraNegocio('Exemplar não encontrado para este livro.', 404, 'EXEMPLAR_NAO_ENCONTRADO');
+            }
+
+            if (respostaBD.rows[0].situacao !== SITUACAO_EXEMPLAR.DISPONIVEL) {
+                throw new ErroRegraNegocio(`O exemplar informado está ${respostaBD.rows[0].situacao}.`, 409, 'EXEMPLAR_INDISPONIVEL');
+            }
+
+            return respostaBD.rows[0].id_exemplar;
+        }
+
+        const respostaBD = await cliente.query(
+            `SELECT id_exemplar FROM Exemplar
+             WHERE id_livro = $1 AND situacao = $2
+             ORDER BY numero_tombo
+             LIMIT 1
+             FOR UPDATE`,
+            [idLivro, SITUACAO_EXEMPLAR.DISPONIVEL]
+        );
+
+        if (respostaBD.rows.length === 0) {
+            throw new ErroRegraNegocio('Não há exemplares disponíveis deste livro.', 409, 'LIVRO_INDISPONIVEL');
+        }
+
+        return respostaBD.rows[0].id_exemplar;
+    }
+
+    /**
+     * Altera a situação de um exemplar (e, opcionalmente, o estado de conservação)
+     *
+     * @param cliente Conexão da transação em andamento
+     * @param idExemplar ID do exemplar
+     * @param situacao Nova situação
+     * @param estadoConservacao Novo estado de conservação (opcional)
+     */
+    static async alterarSituacao(
+        cliente: pg.PoolClient, idExemplar: number, situacao: SituacaoExemplar, estadoConservacao?: EstadoConservacao
+    ): Promise<void> {
+        await cliente.query(
+            `UPDATE Exemplar SET situacao = $2, estado_conservacao = COALESCE($3, estado_conservacao) WHERE id_exemplar = $1`,
+            [idExemplar, situacao, estadoConservacao ?? null]
+        );
+    }
+
+    /**
+     * Registra o estado de conservação do exemplar (por exemplo, na devolução)
+     *
+     * @param cliente Conexão da transação em andamento
+     * @param idExemplar ID do exemplar
+     * @param estadoConservacao Estado de conservação
+     */
+    static async registrarEstadoConservacao(cliente: pg.PoolClient, idExemplar: number, estadoConservacao: EstadoConservacao): Promise<void> {
+        await cliente.query(
+            `UPDATE Exemplar SET estado_conservacao = $2 WHERE id_exemplar = $1`,
+            [idExemplar, estadoConservacao]
+        );
+    }
+
+    /**
+     * Cria exemplares com número de tombo gerado automaticamente
+     *
+     * @param cliente Conexão da transação em andamento
+     * @param idLivro ID do livro
+     * @param quantidade Quantidade de exemplares
+     * @throws ErroRegraNegocio caso a quantidade ultrapasse QUANT_MAXIMA_EXEMPLARES_CADASTRO (400)
+     */
+    static async gerarExemplares(cliente: pg.PoolClient, idLivro: number, quantidade: number): Promise<void> {
+        if (quantidade > QUANT_MAXIMA_EXEMPLARES_CADASTRO) {
+            throw new ErroRegraNegocio(
+                `A quantidade de exemplares deve ser de no máximo ${QUANT_MAXIMA_EXEMPLARES_CADASTRO} no cadastro do livro.`,
+                400, 'QUANTIDADE_INVALIDA'
+            );
+        }
+
+        await cliente.query(
+            `INSERT INTO Exemplar (id_livro) SELECT $1 FROM generate_series(1, $2)`,
+            [idLivro, quantidade]
+        );
+    }
+
+    /**
+     * Monta o objeto de resposta a partir de uma linha da tabela Exemplar
+     */
+    private static montarExemplar(linha: any): any {
+        return {
+            idExemplar: linha.id_exemplar,
+            idLivro: linha.id_livro,
+            numeroTombo: linha.numero_tombo,
+            codigoBarras: linha.codigo_barras,
+            localizacao: linha.localizacao,
+            estadoConservacao: linha.estado_conservacao,
+            situacao: linha.situacao,
+            dataAquisicao: linha.data_aquisicao
+        };
+    }
+
+    /**
+     * Retorna o livro do exemplar
+     */
+    private static async buscarLivroExemplar(cliente: pg.PoolClient, idExemplar: number): Promise<number> {
+        const respostaBD = await cliente.query(`SELECT id_livro FROM Exemplar WHERE id_exemplar = $1`, [idExemplar]);
+
+        if (respostaBD.rows.length === 0) {
+            throw new ErroRegraNegocio('Exemplar não encontrado.', 404, 'EXEMPLAR_NAO_ENCONTRADO');
+        }
+
+        return respostaBD.rows[0].id_livro;
+    }
+
+    /**
+     * Avisa o aluno que recebeu o exemplar reservado, se houver
+     */
+    private static async notificar(reservaAtribuida: ReservaAtribuida | null): Promise<void> {
+        if (reservaAtribuida) {
+            await Reserva.notificarDisponibilidade(reservaAtribuida);
+        }
+    }
+
+    /**
+     * Repassa os erros de regra de negócio e converte tombo ou código de barras duplicado em erro 409
+     */
+    private static tratarErro(error: any, operacao: string): Error {
+        if (error instanceof ErroRegraNegocio) {
+            return error;
+        }
+
+        // violação de chave única (tombo ou código de barras já cadastrado)
+        if (error?.code === '23505') {
+            return new ErroRegraNegocio('Número de tombo ou código de barras já cadastrado.', 409, 'EXEMPLAR_DUPLICADO');
+        }
+
+        console.error(`Erro ao ${operacao} exemplar: ${error}`);
+        return new Error(`Erro ao ${operacao} o exemplar.`);
+    }
+}
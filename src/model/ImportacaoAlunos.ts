@@ -0,0 +1,578 @@
+import pg from 'pg';
+import { DataBaseModel } from "./DataBaseModel";
+import { Turma } from "./Turma";
+import { STATUS_EMPRESTIMO } from "./Emprestimo";
+import { MODO_IMPORTACAO, ModoImportacao, ErroLinhaImportacao } from "../util/Importacao";
+import { ErroRegraNegocio } from "../util/ErroRegraNegocio";
+import { Csv } from "../util/Csv";
+
+// Recupera conexão com o banco de dados
+const database = new DataBaseModel().pool;
+
+/**
+ * Quantidade máxima de linhas de dados em um arquivo de importação
+ */
+const LIMITE_LINHAS = 5000;
+
+/**
+ * Colunas do arquivo CSV (as demais colunas são ignoradas)
+ */
+const COLUNAS = ['ra', 'nome', 'sobrenome', 'email', 'celular', 'data_nascimento', 'endereco', 'turma'] as const;
+
+type ColunaAluno = typeof COLUNAS[number];
+
+/**
+ * Tamanho máximo das colunas de texto da tabela Aluno e do código da turma
+ */
+const TAMANHOS: Partial<Record<ColunaAluno, number>> = {
+    ra: 20,
+    nome: 80,
+    sobrenome: 80,
+    email: 80,
+    celular: 20,
+    endereco: 200,
+    turma: 30
+};
+
+/**
+ * Situações de cada aluno no relatório de importação
+ */
+export const SITUACAO_ALUNO_IMPORTACAO = {
+    CRIADO: 'criado',
+    ATUALIZADO: 'atualizado',
+    REATIVADO: 'reativado',
+    SEM_ALTERACAO: 'sem_alteracao',
+    DESATIVADO: 'desativado',
+    MANTIDO: 'mantido'              // Ausente da lista, mas com empréstimos em aberto
+} as const;
+
+export type SituacaoAlunoImportacao = typeof SITUACAO_ALUNO_IMPORTACAO[keyof typeof SITUACAO_ALUNO_IMPORTACAO];
+
+/**
+ * Interface OpcoesImportacaoAlunos
+ * Define as opções da importação da lista de alunos
+ */
+export interface OpcoesImportacaoAlunos {
+    modo: ModoImportacao;
+    turma?: string;                 // Código da turma dos alunos das linhas sem a coluna turma
+    desativarAusentes?: boolean;    // Desativa os alunos das turmas do arquivo que não estão na lista
+}
+
+/**
+ * Interface AlteracaoCampo
+ * Define o valor anterior e o novo valor de um campo do aluno
+ */
+export interface AlteracaoCampo {
+    anterior: string | null;
+    novo: string | null;
+}
+
+/**
+ * Interface AlunoImportacao
+ * Define a situação de um aluno no relatório de importação
+ */
+export interface AlunoImportacao {
+    linha?: number;                 // Linha do arquivo (ausente para os alunos que não estão na lista)
+    situacao: SituacaoAlunoImportacao;
+    idAluno?: number;               // Após a gravação, também para os alunos criados
+    ra: string | null;
+    nome: string;
+    email: string | null;
+    turma: string | null;
+    alteracoes?: Record<string, AlteracaoCampo>;
+    motivo?: string;
+}
+
+/**
+ * Interface RelatorioImportacaoAlunos
+ * Define o relatório da importação de uma lista de alunos
+ */
+export interface RelatorioImportacaoAlunos {
+    modo: ModoImportacao;
+    gravado: boolean;               // Verdadeiro somente quando as alterações foram gravadas
+    desativarAusentes: boolean;
+    totalLinhas: number;
+    validas: number;
+    invalidas: number;
+    resumo: Record<SituacaoAlunoImportacao, number>;
+    turmas: Array<{ codigo: string, idTurma: number | null, nova: boolean }>;
+    colunasIgnoradas: string[];
+    erros: ErroLinhaImportacao[];
+    alunos: AlunoImportacao[];
+}
+
+/**
+ * Interface DadosLinhaAluno
+ * Define os dados do aluno lidos de uma linha do arquivo (null quando a coluna não foi preenchida)
+ */
+interface DadosLinhaAluno {
+    linha: number;
+    ra: string | null;
+    nome: string;
+    sobrenome: string;
+    email: string | null;
+    celular: string | null;
+    dataNascimento: string | null;
+    endereco: string | null;
+    turma: string | null;
+}
+
+/**
+ * Interface AnaliseLinhaAluno
+ * Define uma linha válida do arquivo, o aluno cadastrado correspondente e as alterações
+ */
+interface AnaliseLinhaAluno {
+    dados: DadosLinhaAluno;
+    existente: any | null;
+    item: AlunoImportacao;
+}
+
+/**
+ * Classe responsável pela importação da lista de alunos das turmas a partir de um arquivo CSV.
+ *
+ * Cada linha é associada ao aluno já cadastrado com o mesmo RA ou, sem RA correspondente, com o mesmo e-mail;
+ * os demais alunos são cadastrados. Somente as colunas preenchidas alteram o cadastro existente, e alunos
+ * desativados que voltam à lista são reativados. Opcionalmente, os alunos ativos das turmas do arquivo que
+ * não estão na lista são desativados, exceto os que possuem empréstimos em aberto.
+ *
+ * A simulação apenas monta o relatório; a gravação aplica todas as alterações em uma única transação,
+ * somente quando todas as linhas são válidas.
+ */
+export class ImportacaoAlunos {
+
+    /**
+     * Valida a lista de alunos e, no modo de gravação, aplica as alterações
+     *
+     * @param conteudo Conteúdo do arquivo enviado
+     * @param opcoes Modo, turma padrão e desativação dos alunos ausentes
+     * @returns Relatório com as diferenças entre a lista e o cadastro de cada aluno
+     * @throws ErroRegraNegocio (400) caso o arquivo não tenha as colunas obrigatórias, não tenha linhas de dados,
+     * ultrapasse o limite de 5000 linhas de dados ou a desativação seja solicitada sem turma
+     */
+    static async importarCsv(conteudo: Buffer, opcoes: OpcoesImportacaoAlunos): Promise<RelatorioImportacaoAlunos> {
+        const arquivo = Csv.ler(conteudo);
+        const { posicoes, ignoradas } = Csv.mapearColunas(arquivo.cabecalho, COLUNAS);
+        const turmaPadrao = opcoes.turma?.trim() || null;
+
+        if (!posicoes.has('nome') || (!posicoes.has('ra') && !posicoes.has('email'))) {
+            throw new ErroRegraNegocio('O arquivo deve ter a coluna nome e a coluna ra ou email.', 400, 'CSV_COLUNAS_OBRIGATORIAS', { colunasObrigatorias: ['nome', 'ra ou email'] });
+        }
+        if (arquivo.linhas.length === 0) {
+            throw new ErroRegraNegocio('O arquivo não possui linhas de dados.', 400, 'CSV_VAZIO');
+        }
+        if (arquivo.linhas.length > LIMITE_LINHAS) {
+            throw new ErroRegraNegocio(`O arquivo deve ter no máximo ${LIMITE_LINHAS} linhas de dados.`, 400, 'CSV_LIMITE_LINHAS');
+        }
+        if (opcoes.desativarAusentes && !posicoes.has('turma') && !turmaPadrao) {
+            throw new ErroRegraNegocio('Informe a turma (coluna turma ou parâmetro turma) para desativar os alunos ausentes.', 400, 'TURMA_OBRIGATORIA');
+        }
+
+        const relatorio: RelatorioImportacaoAlunos = {
+            modo: opcoes.modo,
+            gravado: false,
+            desativarAusentes: !!opcoes.desativarAusentes,
+            totalLinhas: arquivo.linhas.length,
+            validas: 0,
+            invalidas: 0,
+            resumo: Object.fromEntries(Object.values(SITUACAO_ALUNO_IMPORTACAO).map((situacao) => [situacao, 0])) as Record<SituacaoAlunoImportacao, number>,
+            turmas: [],
+            colunasIgnoradas: ignoradas,
+            erros: [],
+            alunos: []
+        };
+
+        // validação de cada linha, sem acessar o banco de dados
+        const linhas: DadosLinhaAluno[] = [];
+        for (const { linha, valores } of arquivo.linhas) {
+            const valor = (coluna: ColunaAluno) => (posicoes.has(coluna) ? valores[posicoes.get(coluna)!] ?? '' : '').trim();
+            const resultado = ImportacaoAlunos.validarLinha(linha, valor, turmaPadrao);
+
+            if (Array.isArray(resultado)) {
+                relatorio.erros.push(...resultado);
+            } else {
+                linhas.push(resultado);
+            }
+        }
+
+        if (opcoes.modo === MODO_IMPORTACAO.SIMULACAO) {
+            await ImportacaoAlunos.analisar(database, linhas, opcoes, relatorio);
+        } else {
+            // a tabela fica bloqueada para alterações até o fim da gravação, para que a análise continue válida
+            await ImportacaoAlunos.gravar(linhas, opcoes, relatorio);
+        }
+
+        relatorio.erros.sort((a, b) => a.linha - b.linha);
+        return relatorio;
+    }
+
+    /**
+     * Compara as linhas do arquivo com os alunos cadastrados e monta o relatório
+     *
+     * @returns Linhas válidas com o aluno correspondente e os alunos ausentes da lista
+     */
+    private static async analisar(cliente: pg.Pool | pg.PoolClient, linhas: DadosLinhaAluno[], opcoes: OpcoesImportacaoAlunos,
+        relatorio: RelatorioImportacaoAlunos): Promise<{ analises: AnaliseLinhaAluno[], ausentes: AlunoImportacao[] }> {
+
+        const respostaBD = await cliente.query(
+            `SELECT a.id_aluno, a.ra, a.nome, a.sobrenome, a.data_nascimento, a.endereco, a.email, a.celular, a.status_aluno,
+                    a.id_turma, t.codigo AS codigo_turma
+             FROM Aluno a
+             LEFT JOIN Turma t ON t.id_turma = a.id_turma
+             WHERE UPPER(a.ra) = ANY($1::text[]) OR LOWER(a.email) = ANY($2::text[])`,
+            [linhas.map((dados) => dados.ra).filter((ra) => ra), linhas.map((dados) => dados.email).filter((email) => email)]
+        );
+        const cadastrados: any[] = respostaBD.rows;
+
+        // aluno correspondente a cada linha e linhas repetidas no arquivo
+        const analises: AnaliseLinhaAluno[] = [];
+        const linhaDoAluno = new Map<string, number>();
+
+        for (const dados of linhas) {
+            const existente = ImportacaoAlunos.localizarAluno(dados, cadastrados, relatorio.erros);
+            if (existente === undefined) continue;
+
+            const chaves = existente ? [`id:${existente.id_aluno}`] : [dados.ra && `ra:${dados.ra}`, dados.email && `email:${dados.email}`].filter((chave): chave is string => !!chave);
+            const anterior = chaves.map((chave) => linhaDoAluno.get(chave)).find((linha) => linha !== undefined);
+
+            if (anterior !== undefined) {
+                relatorio.erros.push({
+                    linha: dados.linha,
+                    codigo: 'ALUNO_DUPLICADO_ARQUIVO',
+                    mensagem: `O aluno já aparece no arquivo (linha ${anterior}).`,
+                    detalhes: { linhaOriginal: anterior }
+                });
+                continue;
+            }
+            chaves.forEach((chave) => linhaDoAluno.set(chave, dados.linha));
+
+            analises.push({ dados, existente, item: ImportacaoAlunos.compararAluno(dados, existente) });
+        }
+
+        // turmas do arquivo: as existentes definem o escopo da desativação dos ausentes
+        const codigos = [...new Set(analises.map(({ dados }) => dados.turma).filter((turma): turma is string => !!turma))];
+        const turmas = await Turma.localizarTurmas(cliente, codigos);
+        relatorio.turmas = codigos.map((codigo) => {
+            const turma = turmas.get(codigo.toUpperCase());
+            return { codigo: turma?.codigo ?? codigo, idTurma: turma?.idTurma ?? null, nova: !turma };
+        });
+
+        const ausentes = opcoes.desativarAusentes
+            ? await ImportacaoAlunos.listarAusentes(cliente, [...turmas.values()].map((turma) => turma.idTurma), analises)
+            : [];
+
+        relatorio.alunos = [...analises.map(({ item }) => item), ...ausentes];
+        relatorio.alunos.forEach((item) => relatorio.resumo[item.situacao]++);
+
+        const linhasComErro = new Set(relatorio.erros.map((erro) => erro.linha));
+        relatorio.invalidas = linhasComErro.size;
+        relatorio.validas = relatorio.totalLinhas - relatorio.invalidas;
+
+        return { analises, ausentes };
+    }
+
+    /**
+     * Analisa e grava a lista de alunos em uma única transação.
+     * Nada é gravado quando alguma linha é inválida.
+     */
+    private static async gravar(linhas: DadosLinhaAluno[], opcoes: OpcoesImportacaoAlunos, relatorio: RelatorioImportacaoAlunos): Promise<void> {
+        let linhaAtual = 0;
+
+        try {
+            await DataBaseModel.transacao(database, async (cliente) => {
+                await cliente.query('LOCK TABLE Aluno IN SHARE ROW EXCLUSIVE MODE');
+
+                const { analises, ausentes } = await ImportacaoAlunos.analisar(cliente, linhas, opcoes, relatorio);
+                if (relatorio.invalidas > 0) {
+                    return;
+                }
+
+                const turmas = await Turma.localizarTurmas(cliente, relatorio.turmas.map((turma) => turma.codigo), true);
+                relatorio.turmas.forEach((turma) => {
+                    turma.idTurma = turmas.get(turma.codigo.toUpperCase()).idTurma;
+                });
+
+                for (const { dados, existente, item } of analises) {
+                    linhaAtual = dados.linha;
+                    const idTurma = dados.turma ? turmas.get(dados.turma.toUpperCase()).idTurma : existente?.id_turma ?? null;
+
+                    if (!existente) {
+                        const respostaBD = await cliente.query(
+                            `INSERT INTO Aluno (ra, nome, sobrenome, data_nascimento, endereco, email, celular, id_turma)
+                             VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+                             RETURNING id_aluno, ra`,
+                            [dados.ra, dados.nome, dados.sobrenome, dados.dataNascimento, dados.endereco ?? '', dados.email ?? '', dados.celular ?? '', idTurma]
+                        );
+
+                        item.idAluno = respostaBD.rows[0].id_aluno;
+                        item.ra = respostaBD.rows[0].ra;
+                    } else if (item.situacao !== SITUACAO_ALUNO_IMPORTACAO.SEM_ALTERACAO) {
+                        // somente as colunas preenchidas no arquivo substituem os dados cadastrados
+                        await cliente.query(
+                            `UPDATE Aluno SET
+                                 ra = COALESCE($2, ra),
+                                 nome = $3,
+                                 sobrenome = $4,
+                                 data_nascimento = COALESCE($5::date, data_nascimento),
+                                 endereco = COALESCE($6, endereco),
+                                 email = COALESCE($7, email),
+                                 celular = COALESCE($8, celular),
+                                 id_turma = $9,
+                                 status_aluno = TRUE
+                             WHERE id_aluno = $1`,
+                            [existente.id_aluno, dados.ra, dados.nome, dados.sobrenome, dados.dataNascimento, dados.endereco, dados.email, dados.celular, idTurma]
+                        );
+                    }
+                }
+
+                linhaAtual = 0;
+                const desativados = ausentes.filter((item) => item.situacao === SITUACAO_ALUNO_IMPORTACAO.DESATIVADO).map((item) => item.idAluno);
+                if (desativados.length > 0) {
+                    await cliente.query(`UPDATE Aluno SET status_aluno = FALSE WHERE id_aluno = ANY($1::int[])`, [desativados]);
+                }
+
+                relatorio.gravado = true;
+            });
+        } catch (error: any) {
+            // violação de chave única: RA cadastrado por outro usuário durante a importação
+            if (error?.code !== '23505') {
+                throw error;
+            }
+
+            relatorio.gravado = false;
+            relatorio.alunos.forEach((item) => { if (item.situacao === SITUACAO_ALUNO_IMPORTACAO.CRIADO) delete item.idAluno; });
+            relatorio.erros.push({ linha: linhaAtual, coluna: 'ra', codigo: 'RA_DUPLICADO', mensagem: 'Já existe um aluno cadastrado com este RA.' });
+            relatorio.invalidas++;
+            relatorio.validas--;
+        }
+    }
+
+    /**
+     * Procura o aluno cadastrado correspondente à linha: pelo RA ou, sem RA correspondente, pelo e-mail
+     *
+     * @returns Aluno cadastrado, null para um aluno novo ou undefined quando a linha é inválida
+     */
+    private static localizarAluno(dados: DadosLinhaAluno, cadastrados: any[], erros: ErroLinhaImportacao[]): any | null | undefined {
+        const porRA = dados.ra ? cadastrados.find((aluno) => aluno.ra?.toUpperCase() === dados.ra) : undefined;
+
+        // o mesmo e-mail pode estar em mais de um cadastro: prefere os alunos ativos
+        const porEmail = dados.email ? cadastrados.filter((aluno) => aluno.email?.toLowerCase() === dados.email) : [];
+        const ativosPorEmail = porEmail.filter((aluno) => aluno.status_aluno);
+        const candidatosEmail = ativosPorEmail.length > 0 ? ativosPorEmail : porEmail;
+
+        if (porRA) {
+            const outroComEmail = ativosPorEmail.find((aluno) => aluno.id_aluno !== porRA.id_aluno);
+
+            if (outroComEmail) {
+                erros.push({
+                    linha: dados.linha,
+                    coluna: 'email',
+                    valor: dados.email!,
+                    codigo: 'CONFLITO_IDENTIFICACAO',
+                    mensagem: `O RA e o e-mail pertencem a alunos diferentes (RA ${porRA.ra} e RA ${outroComEmail.ra}).`,
+                    detalhes: { idAlunoRA: porRA.id_aluno, idAlunoEmail: outroComEmail.id_aluno }
+                });
+                return undefined;
+            }
+
+            return porRA;
+        }
+
+        if (candidatosEmail.length > 1) {
+            erros.push({
+                linha: dados.linha,
+                coluna: 'email',
+                valor: dados.email!,
+                codigo: 'ALUNO_AMBIGUO',
+                mensagem: 'Há mais de um aluno cadastrado com este e-mail. Informe o RA do aluno.',
+                detalhes: { idsAlunos: candidatosEmail.map((aluno) => aluno.id_aluno) }
+            });
+            return undefined;
+        }
+
+        return candidatosEmail[0] ?? null;
+    }
+
+    /**
+     * Compara os dados da linha com o cadastro do aluno e monta o item do relatório
+     */
+    private static compararAluno(dados: DadosLinhaAluno, existente: any | null): AlunoImportacao {
+        const item: AlunoImportacao = {
+            linha: dados.linha,
+            situacao: SITUACAO_ALUNO_IMPORTACAO.CRIADO,
+            ra: dados.ra,
+            nome: `${dados.nome} ${dados.sobrenome}`.trim(),
+            email: dados.email,
+            turma: dados.turma
+        };
+
+        if (!existente) {
+            return item;
+        }
+
+        const comparacoes: Array<[string, string | null, string | null]> = [
+            ['ra', existente.ra, dados.ra],
+            ['nome', existente.nome, dados.nome],
+            ['sobrenome', existente.sobrenome, dados.sobrenome],
+            ['email', existente.email, dados.email],
+            ['celular', existente.celular, dados.celular],
+            ['dataNascimento', ImportacaoAlunos.formatarData(existente.data_nascimento), dados.dataNascimento],
+            ['endereco', existente.endereco, dados.endereco],
+            ['turma', existente.codigo_turma, dados.turma]
+        ];
+
+        const alteracoes: Record<string, AlteracaoCampo> = {};
+        for (const [campo, anterior, novo] of comparacoes) {
+            // colunas vazias no arquivo mantêm o valor cadastrado
+            if (novo !== null && (anterior ?? '').toUpperCase() !== novo.toUpperCase()) {
+                alteracoes[campo] = { anterior: anterior || null, novo };
+            }
+        }
+
+        item.idAluno = existente.id_aluno;
+        item.ra = dados.ra ?? existente.ra;
+        item.email = dados.email ?? (existente.email || null);
+        item.turma = dados.turma ?? existente.codigo_turma ?? null;
+
+        if (!existente.status_aluno) {
+            item.situacao = SITUACAO_ALUNO_IMPORTACAO.REATIVADO;
+        } else {
+            item.situacao = Object.keys(alteracoes).length > 0 ? SITUACAO_ALUNO_IMPORTACAO.ATUALIZADO : SITUACAO_ALUNO_IMPORTACAO.SEM_ALTERACAO;
+        }
+        if (Object.keys(alteracoes).length > 0) {
+            item.alteracoes = alteracoes;
+        }
+
+        return item;
+    }
+
+    /**
+     * Retorna os alunos ativos das turmas do arquivo que não estão na lista.
+     * Os alunos com empréstimos em aberto são mantidos ativos.
+     */
+    private static async listarAusentes(cliente: pg.Pool | pg.PoolClient, idsTurmas: number[], analises: AnaliseLinhaAluno[]): Promise<AlunoImportacao[]> {
+        if (idsTurmas.length === 0) {
+            return [];
+        }
+
+        const respostaBD = await cliente.query(
+            `SELECT a.id_aluno, a.ra, a.nome, a.sobrenome, a.email, t.codigo AS codigo_turma,
+                    EXISTS (
+                        SELECT 1 FROM Emprestimo e
+                        WHERE e.id_aluno = a.id_aluno AND e.status_emprestimo_registro = TRUE AND e.status_emprestimo <> $3
+                    ) AS possui_emprestimos
+             FROM Aluno a
+             JOIN Turma t ON t.id_turma = a.id_turma
+             WHERE a.status_aluno = TRUE AND a.id_turma = ANY($1::int[]) AND NOT (a.id_aluno = ANY($2::int[]))
+             ORDER BY t.codigo, a.nome, a.sobrenome`,
+            [idsTurmas, analises.filter(({ existente }) => existente).map(({ existente }) => existente.id_aluno), STATUS_EMPRESTIMO.DEVOLVIDO]
+        );
+
+        return respostaBD.rows.map((aluno: any) => ({
+            situacao: aluno.possui_emprestimos ? SITUACAO_ALUNO_IMPORTACAO.MANTIDO : SITUACAO_ALUNO_IMPORTACAO.DESATIVADO,
+            idAluno: aluno.id_aluno,
+            ra: aluno.ra,
+            nome: `${aluno.nome} ${aluno.sobrenome}`.trim(),
+            email: aluno.email || null,
+            turma: aluno.codigo_turma,
+            motivo: aluno.possui_emprestimos ? 'O aluno possui empréstimos em aberto.' : undefined
+        }));
+    }
+
+    /**
+     * Valida os valores de uma linha e os converte para o formato gravado no banco de dados
+     *
+     * @returns Dados do aluno ou a lista de erros encontrados
+     */
+    private static validarLinha(linha: number, valor: (coluna: ColunaAluno) => string, turmaPadrao: string | null): DadosLinhaAluno | ErroLinhaImportacao[] {
+        const erros: ErroLinhaImportacao[] = [];
+        const erro = (coluna: ColunaAluno, codigo: string, mensagem: string) => erros.push({ linha, coluna, valor: valor(coluna), codigo, mensagem });
+        const opcional = (coluna: ColunaAluno) => valor(coluna) || null;
+
+        for (const [coluna, tamanho] of Object.entries(TAMANHOS) as Array<[ColunaAluno, number]>) {
+            if (valor(coluna).length > tamanho) {
+                erro(coluna, 'CAMPO_MUITO_LONGO', `A coluna ${coluna} deve ter no máximo ${tamanho} caracteres.`);
+            }
+        }
+
+        // sem a coluna sobrenome, o nome completo é separado no primeiro espaço
+        let nome = valor('nome').replace(/\s+/g, ' ');
+        let sobrenome = valor('sobrenome').replace(/\s+/g, ' ');
+        if (!sobrenome && nome.includes(' ')) {
+            sobrenome = nome.substring(nome.indexOf(' ') + 1);
+            nome = nome.substring(0, nome.indexOf(' '));
+        }
+
+        if (!nome) {
+            erro('nome', 'CAMPO_OBRIGATORIO', 'A coluna nome é obrigatória.');
+        } else if (!sobrenome) {
+            erro('sobrenome', 'CAMPO_OBRIGATORIO', 'Informe o sobrenome (coluna sobrenome ou nome completo na coluna nome).');
+        }
+
+        const ra = opcional('ra')?.toUpperCase() ?? null;
+        if (ra && !/^[A-Z0-9./-]+$/.test(ra)) {
+            erro('ra', 'RA_INVALIDO', 'O RA deve conter apenas letras, números, ponto, barra ou hífen.');
+        }
+
+        const email = opcional('email')?.toLowerCase() ?? null;
+        if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+            erro('email', 'EMAIL_INVALIDO', 'E-mail inválido.');
+        }
+
+        if (!ra && !email) {
+            erro('ra', 'IDENTIFICACAO_OBRIGATORIA', 'Informe o RA ou o e-mail do aluno.');
+        }
+
+        const dataNascimento = opcional('data_nascimento') ? ImportacaoAlunos.lerData(valor('data_nascimento')) : null;
+        if (opcional('data_nascimento') && !dataNascimento) {
+            erro('data_nascimento', 'DATA_INVALIDA', 'A data de nascimento deve estar no formato DD/MM/AAAA ou AAAA-MM-DD.');
+        }
+
+        if (erros.length > 0) {
+            return erros;
+        }
+
+        return {
+            linha,
+            ra,
+            nome: nome.toUpperCase(),
+            sobrenome: sobrenome.toUpperCase(),
+            email,
+            celular: opcional('celular'),
+            dataNascimento,
+            endereco: opcional('endereco')?.toUpperCase() ?? null,
+            turma: opcional('turma') ?? turmaPadrao
+        };
+    }
+
+    /**
+     * Converte a data (DD/MM/AAAA ou AAAA-MM-DD) para o formato AAAA-MM-DD
+     *
+     * @returns Data convertida ou null caso a data seja inválida
+     */
+    private static lerData(texto: string): string | null {
+        const partes = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(texto);
+        const [ano, mes, dia] = partes ? [partes[3], partes[2], partes[1]] : (/^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(texto) ?? []).slice(1);
+
+        if (!ano) {
+            return null;
+        }
+
+        const data = new Date(Number(ano), Number(mes) - 1, Number(dia));
+        if (data.getFullYear() !== Number(ano) || data.getMonth() !== Number(mes) - 1 || data.getDate() !== Number(dia) || data > new Date()) {
+            return null;
+        }
+
+        return ImportacaoAlunos.formatarData(data);
+    }
+
+    /**
+     * Formata a data no padrão AAAA-MM-DD
+     */
+    private static formatarData(data: Date | null): string | null {
+        if (!data) {
+            return null;
+        }
+
+        return `${data.getFullYear()}-${String(data.getMonth() + 1).padStart(2, '0')}-${String(data.getDate()).padStart(2, '0')}`;
+    }
+}
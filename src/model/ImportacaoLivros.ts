@@ -0,0 +1,391 @@
+import { DataBaseModel } from "./DataBaseModel";
+import { Livro } from "./Livro";
+import { Autor } from "./Autor";
+import { QUANT_MAXIMA_EXEMPLARES_CADASTRO } from "./Exemplar";
+import { ErroRegraNegocio } from "../util/ErroRegraNegocio";
+import { ISBN } from "../util/ISBN";
+import { Csv } from "../util/Csv";
+import { MODO_IMPORTACAO, ModoImportacao, ErroLinhaImportacao } from "../util/Importacao";
+
+// Recupera conexão com o banco de dados
+const database = new DataBaseModel().pool;
+
+/**
+ * Quantidade máxima de linhas de dados em um arquivo de importação
+ */
+const LIMITE_LINHAS = 5000;
+
+/**
+ * Quantidade de exemplares cadastrados quando a coluna quant_total não é informada
+ */
+const QUANT_TOTAL_PADRAO = 1;
+
+/**
+ * Colunas do arquivo CSV (as demais colunas são ignoradas)
+ */
+const COLUNAS = ['titulo', 'autor', 'editora', 'ano_publicacao', 'isbn', 'quant_total', 'valor_aquisicao'] as const;
+
+/**
+ * Colunas obrigatórias, com o tamanho máximo das colunas correspondentes da tabela Livro
+ */
+const COLUNAS_OBRIGATORIAS = {
+    titulo: 200,
+    autor: 150,
+    editora: 100
+} as const;
+
+type ColunaImportacao = typeof COLUNAS[number];
+
+/**
+ * Interface LivroImportacao
+ * Define um livro válido do arquivo e, após a gravação, o ID do livro cadastrado
+ */
+export interface LivroImportacao {
+    linha: number;
+    titulo: string;
+    isbn: string | null;
+    quantTotal: number;
+    idLivro?: number;
+}
+
+/**
+ * Interface RelatorioImportacaoLivros
+ * Define o relatório da importação de um arquivo CSV de livros
+ */
+export interface RelatorioImportacaoLivros {
+    modo: ModoImportacao;
+    gravado: boolean;               // Verdadeiro somente quando os livros foram cadastrados
+    totalLinhas: number;
+    validas: number;
+    invalidas: number;
+    colunasIgnoradas: string[];
+    erros: ErroLinhaImportacao[];
+    livros: LivroImportacao[];
+}
+
+/**
+ * Classe responsável pela importação de livros em lote a partir de um arquivo CSV.
+ *
+ * A simulação valida todas as linhas e aponta os livros repetidos no arquivo ou já cadastrados no acervo, sem gravar nada:
+ * pelo ISBN ou, nas linhas sem ISBN, pelo título e primeiro autor.
+ * A gravação faz a mesma validação e cadastra todos os livros em uma única transação: basta uma linha inválida
+ * para que nenhum livro seja cadastrado.
+ */
+export class ImportacaoLivros {
+
+    /**
+     * Valida o arquivo CSV e, no modo de gravação, cadastra os livros
+     *
+     * @param conteudo Conteúdo do arquivo enviado
+     * @param modo Simulação (padrão) ou gravação
+     * @returns Relatório com os erros de cada linha e os livros válidos (com o ID, quando gravados)
+     * @throws ErroRegraNegocio (400) caso o arquivo não tenha as colunas obrigatórias, não tenha linhas de dados
+     * ou ultrapasse o limite de 5000 linhas de dados
+     */
+    static async importarCsv(conteudo: Buffer, modo: ModoImportacao = MODO_IMPORTACAO.SIMULACAO): Promise<RelatorioImportacaoLivros> {
+        const arquivo = Csv.ler(conteudo);
+
+        // posição de cada coluna conhecida no cabeçalho
+        const { posicoes, ignoradas: colunasIgnoradas } = Csv.mapearColunas(arquivo.cabecalho, COLUNAS);
+
+        const faltantes = (Object.keys(COLUNAS_OBRIGATORIAS) as ColunaImportacao[]).filter((coluna) => !posicoes.has(coluna));
+        if (faltantes.length > 0) {
+            throw new ErroRegraNegocio(`O arquivo não possui as colunas obrigatórias: ${faltantes.join(', ')}.`, 400, 'CSV_COLUNAS_OBRIGATORIAS', { colunasObrigatorias: faltantes });
+        }
+        if (arquivo.linhas.length === 0) {
+            throw new ErroRegraNegocio('O arquivo não possui linhas de dados.', 400, 'CSV_VAZIO');
+        }
+        if (arquivo.linhas.length > LIMITE_LINHAS) {
+            throw new ErroRegraNegocio(`O arquivo deve ter no máximo ${LIMITE_LINHAS} linhas de dados.`, 400, 'CSV_LIMITE_LINHAS');
+        }
+
+        const relatorio: RelatorioImportacaoLivros = {
+            modo,
+            gravado: false,
+            totalLinhas: arquivo.linhas.length,
+            validas: 0,
+            invalidas: 0,
+            colunasIgnoradas,
+            erros: [],
+            livros: []
+        };
+
+        // validação de cada linha
+        const validos: Array<{ item: LivroImportacao, livro: Livro }> = [];
+        for (const { linha, valores } of arquivo.linhas) {
+            const valor = (coluna: ColunaImportacao) => (posicoes.has(coluna) ? valores[posicoes.get(coluna)!] ?? '' : '').trim();
+            const resultado = ImportacaoLivros.validarLinha(linha, valor);
+
+            if (Array.isArray(resultado)) {
+                relatorio.erros.push(...resultado);
+            } else {
+                validos.push(resultado);
+            }
+        }
+
+        await ImportacaoLivros.verificarDuplicados(validos, relatorio.erros);
+
+        // livros das linhas sem nenhum erro
+        const linhasComErro = new Set(relatorio.erros.map((erro) => erro.linha));
+        const livrosValidos = validos.filter(({ item }) => !linhasComErro.has(item.linha));
+
+        relatorio.livros = livrosValidos.map(({ item }) => item);
+        relatorio.validas = livrosValidos.length;
+        relatorio.invalidas = relatorio.totalLinhas - relatorio.validas;
+
+        if (modo === MODO_IMPORTACAO.GRAVACAO && relatorio.invalidas === 0) {
+            await ImportacaoLivros.gravar(livrosValidos, relatorio);
+        }
+
+        relatorio.erros.sort((a, b) => a.linha - b.linha);
+        return relatorio;
+    }
+
+    /**
+     * Cadastra os livros em uma única transação. Caso algum livro seja recusado durante a gravação
+     * (ex.: ISBN cadastrado por outro usuário após a validação), nenhum livro é cadastrado e o erro
+     * é incluído no relatório na linha correspondente.
+     */
+    private static async gravar(livros: Array<{ item: LivroImportacao, livro: Livro }>, relatorio: RelatorioImportacaoLivros): Promise<void> {
+        let linhaAtual = 0;
+
+        try {
+            await DataBaseModel.transacao(database, async (cliente) => {
+                for (const { item, livro } of livros) {
+                    linhaAtual = item.linha;
+                    item.idLivro = await Livro.inserirLivro(cliente, livro);
+                }
+            });
+
+            relatorio.gravado = true;
+        } catch (error) {
+            // a transação foi desfeita: nenhum livro recebeu ID
+            livros.forEach(({ item }) => delete item.idLivro);
+
+            if (!(error instanceof ErroRegraNegocio)) {
+                throw error;
+            }
+
+            relatorio.erros.push({ linha: linhaAtual, codigo: error.codigo, mensagem: error.message, detalhes: error.detalhes });
+            relatorio.livros = relatorio.livros.filter((item) => item.linha !== linhaAtual);
+            relatorio.validas--;
+            relatorio.invalidas++;
+        }
+    }
+
+    /**
+     * Valida os valores de uma linha e monta o livro correspondente
+     *
+     * @returns Livro da linha ou a lista de erros encontrados
+     */
+    private static validarLinha(linha: number, valor: (coluna: ColunaImportacao) => string): { item: LivroImportacao, livro: Livro } | ErroLinhaImportacao[] {
+        const erros: ErroLinhaImportacao[] = [];
+        const erro = (coluna: ColunaImportacao, codigo: string, mensagem: string) => erros.push({ linha, coluna, valor: valor(coluna), codigo, mensagem });
+
+        // colunas de texto: obrigatórias e tamanho máximo
+        for (const [coluna, tamanho] of Object.entries(COLUNAS_OBRIGATORIAS) as Array<[ColunaImportacao, number]>) {
+            if (!valor(coluna)) {
+                erro(coluna, 'CAMPO_OBRIGATORIO', `A coluna ${coluna} é obrigatória.`);
+            } else if (valor(coluna).length > tamanho) {
+                erro(coluna, 'CAMPO_MUITO_LONGO', `A coluna ${coluna} deve ter no máximo ${tamanho} caracteres.`);
+            }
+        }
+
+        const autores = Autor.separarNomes(valor('autor'));
+        if (valor('autor') && autores.length === 0) {
+            erro('autor', 'CAMPO_OBRIGATORIO', 'Informe ao menos um autor (nomes separados por vírgula ou ponto e vírgula).');
+        }
+
+        const anoPublicacao = valor('ano_publicacao');
+        if (anoPublicacao && !/^\d{1,4}$/.test(anoPublicacao)) {
+            erro('ano_publicacao', 'ANO_INVALIDO', 'O ano de publicação deve ter até 4 dígitos.');
+        }
+
+        let isbn: string | null = null;
+        if (valor('isbn')) {
+            isbn = ISBN.normalizar(valor('isbn'));
+
+            if (!isbn) {
+                erro('isbn', 'ISBN_INVALIDO', 'ISBN inválido. Informe um ISBN-10 ou ISBN-13 com o dígito verificador correto.');
+            }
+        }
+
+        let quantTotal = QUANT_TOTAL_PADRAO;
+        if (valor('quant_total')) {
+            quantTotal = Number(valor('quant_total'));
+
+            if (!/^\d+$/.test(valor('quant_total')) || quantTotal > QUANT_MAXIMA_EXEMPLARES_CADASTRO) {
+                erro('quant_total', 'QUANTIDADE_INVALIDA', `A quantidade de exemplares deve ser um número inteiro entre 0 e ${QUANT_MAXIMA_EXEMPLARES_CADASTRO}.`);
+            }
+        }
+
+        // aceita vírgula decimal e separador de milhar (ex.: 1.234,56)
+        let valorAquisicao = 0;
+        if (valor('valor_aquisicao')) {
+            const texto = valor('valor_aquisicao').replace(/^R\$\s*/i, '');
+            const decimal = texto.includes(',') ? texto.replace(/\./g, '').replace(',', '.') : texto;
+            valorAquisicao = Number(decimal);
+
+            if (!/^\d+(\.\d{1,2})?$/.test(decimal) || valorAquisicao >= 1e8) {
+                erro('valor_aquisicao', 'VALOR_INVALIDO', 'O valor de aquisição deve ser um número maior ou igual a zero, com até 2 casas decimais.');
+            }
+        }
+
+        if (erros.length > 0) {
+            return erros;
+        }
+
+        const livro = new Livro(
+            valor('titulo'),
+            autores.join(', '),
+            valor('editora'),
+            anoPublicacao || '0',
+            isbn ?? '',
+            quantTotal,
+            quantTotal,
+            valorAquisicao,
+            'Disponível'
+        );
+
+        return { item: { linha, titulo: valor('titulo'), isbn, quantTotal }, livro };
+    }
+
+    /**
+     * Aponta os livros repetidos no próprio arquivo e os já cadastrados em livros ativos:
+     * pelo ISBN ou, nas linhas sem ISBN, pelo título e primeiro autor (sem diferenciar maiúsculas de minúsculas)
+     */
+    private static async verificarDuplicados(validos: Array<{ item: LivroImportacao, livro: Livro }>, erros: ErroLinhaImportacao[]): Promise<void> {
+        await ImportacaoLivros.verificarISBNsDuplicados(validos, erros);
+        await ImportacaoLivros.verificarTitulosDuplicados(validos, erros);
+    }
+
+    /**
+     * Aponta os ISBNs repetidos no próprio arquivo e os já cadastrados em livros ativos
+     */
+    private static async verificarISBNsDuplicados(validos: Array<{ item: LivroImportacao }>, erros: ErroLinhaImportacao[]): Promise<void> {
+        const primeiraLinha = new Map<string, number>();
+
+        for (const { item } of validos) {
+            if (!item.isbn) continue;
+
+            const anterior = primeiraLinha.get(item.isbn);
+            if (anterior !== undefined) {
+                erros.push({
+                    linha: item.linha,
+                    coluna: 'isbn',
+                    valor: item.isbn,
+                    codigo: 'ISBN_DUPLICADO_ARQUIVO',
+                    mensagem: `ISBN repetido no arquivo (linha ${anterior}).`,
+                    detalhes: { linhaOriginal: anterior }
+                });
+            } else {
+                primeiraLinha.set(item.isbn, item.linha);
+            }
+        }
+
+        if (primeiraLinha.size === 0) {
+            return;
+        }
+
+        const respostaBD = await database.query(
+            `SELECT id_livro, titulo, autor, editora, isbn, quant_total, quant_disponivel FROM Livro
+             WHERE isbn = ANY($1::text[]) AND status_livro = TRUE`,
+            [[...primeiraLinha.keys()]]
+        );
+
+        const cadastrados = new Map<string, any>(respostaBD.rows.map((livro: any) => [livro.isbn, livro]));
+        for (const { item } of validos) {
+            const livro = item.isbn ? cadastrados.get(item.isbn) : undefined;
+            if (!livro) continue;
+
+            erros.push({
+                linha: item.linha,
+                coluna: 'isbn',
+                valor: item.isbn!,
+                codigo: 'ISBN_DUPLICADO',
+                mensagem: 'Já existe um livro cadastrado com este ISBN.',
+                detalhes: { livroExistente: ImportacaoLivros.montarLivroExistente(livro) }
+            });
+        }
+    }
+
+    /**
+     * Aponta as linhas sem ISBN com o mesmo título e primeiro autor de outra linha do arquivo
+     * ou de um livro ativo (a mesma chave utilizada na importação MARC)
+     */
+    private static async verificarTitulosDuplicados(validos: Array<{ item: LivroImportacao, livro: Livro }>, erros: ErroLinhaImportacao[]): Promise<void> {
+        const chave = (titulo: string, autor: string) => `${titulo.toUpperCase()}\u0000${autor.toUpperCase()}`;
+
+        // título e primeiro autor das linhas sem ISBN
+        const semISBN = validos
+            .filter(({ item }) => !item.isbn)
+            .map(({ item, livro }) => ({ item, titulo: livro.getTitulo(), autor: Autor.separarNomes(livro.getAutor())[0] }));
+
+        if (semISBN.length === 0) {
+            return;
+        }
+
+        // primeira linha de cada título e primeiro autor no arquivo, com ou sem ISBN
+        const primeiraLinha = new Map<string, number>();
+        for (const { item, livro } of validos) {
+            const chaveLivro = chave(livro.getTitulo(), Autor.separarNomes(livro.getAutor())[0]);
+            if (!primeiraLinha.has(chaveLivro)) {
+                primeiraLinha.set(chaveLivro, item.linha);
+            }
+        }
+
+        for (const { item, titulo, autor } of semISBN) {
+            const anterior = primeiraLinha.get(chave(titulo, autor))!;
+            if (anterior === item.linha) continue;
+
+            erros.push({
+                linha: item.linha,
+                coluna: 'titulo',
+                valor: titulo,
+                codigo: 'LIVRO_DUPLICADO_ARQUIVO',
+                mensagem: `Livro sem ISBN com o mesmo título e primeiro autor da linha ${anterior}.`,
+                detalhes: { linhaOriginal: anterior }
+            });
+        }
+
+        // livro ativo correspondente a cada linha sem ISBN (posicao = índice da linha na lista, a partir de 1)
+        const respostaBD = await database.query(
+            `SELECT DISTINCT ON (t.posicao) t.posicao,
+                    l.id_livro, l.titulo, l.autor, l.editora, l.isbn, l.quant_total, l.quant_disponivel
+             FROM unnest($1::text[], $2::text[]) WITH ORDINALITY AS t(titulo, autor, posicao)
+             JOIN Livro l ON l.status_livro = TRUE AND UPPER(l.titulo) = UPPER(t.titulo)
+             JOIN Livro_Autor la ON la.id_livro = l.id_livro AND la.posicao = 1
+             JOIN Autor a ON a.id_autor = la.id_autor AND UPPER(a.nome) = UPPER(t.autor)
+             ORDER BY t.posicao, l.id_livro`,
+            [semISBN.map(({ titulo }) => titulo), semISBN.map(({ autor }) => autor)]
+        );
+
+        for (const livro of respostaBD.rows) {
+            const { item, titulo } = semISBN[Number(livro.posicao) - 1];
+
+            erros.push({
+                linha: item.linha,
+                coluna: 'titulo',
+                valor: titulo,
+                codigo: 'LIVRO_DUPLICADO',
+                mensagem: 'Já existe um livro cadastrado com o mesmo título e primeiro autor.',
+                detalhes: { livroExistente: ImportacaoLivros.montarLivroExistente(livro) }
+            });
+        }
+    }
+
+    /**
+     * Monta os dados do livro já cadastrado informados nos erros de duplicidade
+     */
+    private static montarLivroExistente(livro: any): Record<string, unknown> {
+        return {
+            idLivro: livro.id_livro,
+            titulo: livro.titulo,
+            autor: livro.autor,
+            editora: livro.editora,
+            isbn: livro.isbn,
+            quantTotal: livro.quant_total,
+            quantDisponivel: livro.quant_disponivel
+        };
+    }
+}
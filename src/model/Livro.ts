@@ -1,8 +1,81 @@
+import pg from 'pg';
 import { DataBaseModel } from "./DataBaseModel";
+import { Exemplar, SITUACAO_EXEMPLAR, SituacaoExemplar } from "./Exemplar";
+import { STATUS_EMPRESTIMO } from "./Emprestimo";
+import { STATUS_RESERVA } from "./Reserva";
+import { Autor } from "./Autor";
+import { Editora } from "./Editora";
+import { Categoria } from "./Categoria";
+import { CapaLivro } from "./CapaLivro";
+import { ErroRegraNegocio } from "../util/ErroRegraNegocio";
+import { ISBN } from "../util/ISBN";
 
 // Recupera conexão com o banco de dados
 const database = new DataBaseModel().pool;
 
+/**
+ * Campos permitidos na ordenação da listagem de livros e as colunas correspondentes
+ */
+export const ORDENACAO_LIVROS = {
+    titulo: 'titulo',
+    autor: 'autor',
+    editora: 'editora',
+    anoPublicacao: "NULLIF(regexp_replace(ano_publicacao, '[^0-9]', '', 'g'), '')::int",
+    quantDisponivel: 'quant_disponivel',
+    idLivro: 'id_livro'
+} as const;
+
+/**
+ * Sistemas de classificação utilizados na organização das estantes
+ */
+export const SISTEMA_CLASSIFICACAO = {
+    CDD: 'CDD',     // Classificação Decimal de Dewey, ex.: 869.3
+    CDU: 'CDU'      // Classificação Decimal Universal, ex.: 821.134.3-31
+} as const;
+
+export type SistemaClassificacao = typeof SISTEMA_CLASSIFICACAO[keyof typeof SISTEMA_CLASSIFICACAO];
+
+/**
+ * Formato aceito para o código de cada sistema de classificação
+ */
+const FORMATO_CLASSIFICACAO: Record<SistemaClassificacao, RegExp> = {
+    CDD: /^\d{3}(\.\d+)?$/,
+    CDU: /^\d[\d.:+\/\-"()=\[\]A-Za-z ]*$/
+};
+
+/**
+ * Interface FiltroLivros
+ * Define os filtros, a ordenação e a paginação da listagem de livros
+ */
+export interface FiltroLivros {
+    busca?: string;                                 // Procura no título, autor, editora e ISBN
+    titulo?: string;
+    autor?: string;
+    editora?: string;
+    isbn?: string;
+    idAutor?: number;                               // Somente livros do autor
+    idEditora?: number;                             // Somente livros da editora
+    idCategoria?: number;                           // Somente livros da categoria e das subcategorias
+    anoInicio?: number;                             // Ano de publicação mínimo
+    anoFim?: number;                                // Ano de publicação máximo
+    apenasDisponiveis?: boolean;                    // Somente livros com exemplares disponíveis
+    ordenarPor: keyof typeof ORDENACAO_LIVROS;
+    ordem: 'asc' | 'desc';
+    pagina: number;                                 // Página, começando em 1
+    limite: number;                                 // Quantidade de livros por página
+}
+
+/**
+ * Interface Paginacao
+ * Define as informações de paginação devolvidas junto com as listagens
+ */
+export interface Paginacao {
+    pagina: number;
+    limite: number;
+    total: number;          // Total de registros que atendem aos filtros
+    totalPaginas: number;
+}
+
 /**
  * Classe que representa um livro no sistema
  */
@@ -19,6 +92,8 @@ export class Livro {
     private statusLivroEmprestado: string; // Status do livro emprestado
     private statusLivro: boolean = true; // Status do livro no sistema
     private capa: string = '';
+    private classificacao: string | null = null; // Código de classificação (CDD ou CDU)
+    private sistemaClassificacao: SistemaClassificacao | null = null; // Sistema de classificação do código
 
     /**
     * Construtor da classe Livro
@@ -252,24 +327,127 @@ export class Livro {
         this.capa = _capa;
     }
 
+    /**
+     * Retorna o código de classificação do livro
+     * @returns classificacao: string | null
+     */
+    public getClassificacao(): string | null {
+        return this.classificacao;
+    }
+
+    /**
+     * Atribui o parâmetro ao atributo classificacao
+     * @param _classificacao : string | null
+     */
+    public setClassificacao(_classificacao: string | null): void {
+        this.classificacao = _classificacao;
+    }
+
+    /**
+     * Retorna o sistema de classificação do livro (CDD ou CDU)
+     * @returns sistemaClassificacao: SistemaClassificacao | null
+     */
+    public getSistemaClassificacao(): SistemaClassificacao | null {
+        return this.sistemaClassificacao;
+    }
+
+    /**
+     * Atribui o parâmetro ao atributo sistemaClassificacao
+     * @param _sistemaClassificacao : SistemaClassificacao | null
+     */
+    public setSistemaClassificacao(_sistemaClassificacao: SistemaClassificacao | null): void {
+        this.sistemaClassificacao = _sistemaClassificacao;
+    }
+
+    /**
+     * Verifica se o valor informado é um sistema de classificação válido
+     */
+    static sistemaClassificacaoValido(sistema: string): sistema is SistemaClassificacao {
+        return (Object.values(SISTEMA_CLASSIFICACAO) as string[]).includes(sistema);
+    }
+
+    /**
+     * Verifica se o código de classificação está no formato do sistema informado
+     */
+    static classificacaoValida(sistema: SistemaClassificacao, codigo: string): boolean {
+        return FORMATO_CLASSIFICACAO[sistema].test(codigo.trim());
+    }
+
     // MÉTODO PARA ACESSAR O BANCO DE DADOS
     // CRUD Create - READ - Update - Delete
 
     /**
-     * Retorna uma lista com todos os livros cadastrados no banco de dados
+     * Retorna uma página da lista de livros cadastrados no banco de dados, aplicando os filtros e a ordenação
+     * 
+     * As buscas por texto não diferenciam maiúsculas de minúsculas e são atendidas pelos índices
+     * trigram (pg_trgm) das colunas título, autor, editora e ISBN.
      * 
-     * @returns Lista com todos os livros cadastrados no banco de dados
+     * @param filtro Filtros, ordenação e paginação da listagem
+     * @returns Livros da página solicitada e as informações de paginação
      */
-    static async listarLivros(): Promise<Array<Livro> | null> {
+    static async listarLivros(filtro: FiltroLivros): Promise<{ dados: Array<Livro>, paginacao: Paginacao } | null> {
         // Criando lista vazia para armazenar os livros
         let listaDeLivros: Array<Livro> = [];
 
         try {
-            // Query para consulta no banco de dados
-            const querySelectLivro = `SELECT * FROM Livro WHERE status_livro = TRUE;`;
+            // Monta as condições da consulta com parâmetros, nunca concatenando os valores recebidos
+            const condicoes: string[] = ['status_livro = TRUE'];
+            const valores: any[] = [];
+
+            const adicionarCondicao = (condicao: (parametro: string) => string, valor: any) => {
+                valores.push(valor);
+                condicoes.push(condicao(`$${valores.length}`));
+            };
+
+            if (filtro.busca) {
+                adicionarCondicao((p) => `(titulo ILIKE ${p} OR autor ILIKE ${p} OR editora ILIKE ${p} OR isbn ILIKE ${p})`, Livro.padraoBusca(filtro.busca));
+            }
+            if (filtro.titulo) {
+                adicionarCondicao((p) => `titulo ILIKE ${p}`, Livro.padraoBusca(filtro.titulo));
+            }
+            if (filtro.autor) {
+                adicionarCondicao((p) => `autor ILIKE ${p}`, Livro.padraoBusca(filtro.autor));
+            }
+            if (filtro.editora) {
+                adicionarCondicao((p) => `editora ILIKE ${p}`, Livro.padraoBusca(filtro.editora));
+            }
+            if (filtro.isbn) {
+                adicionarCondicao((p) => `isbn ILIKE ${p}`, Livro.padraoBusca(ISBN.limpar(filtro.isbn)));
+            }
+            if (filtro.idAutor !== undefined) {
+                adicionarCondicao((p) => `id_livro IN (SELECT id_livro FROM Livro_Autor WHERE id_autor = ${p})`, filtro.idAutor);
+            }
+            if (filtro.idEditora !== undefined) {
+                adicionarCondicao((p) => `id_editora = ${p}`, filtro.idEditora);
+            }
+            if (filtro.idCategoria !== undefined) {
+                adicionarCondicao((p) => `id_livro IN (SELECT id_livro FROM Livro_Categoria WHERE id_categoria IN (${Categoria.consultaSubarvore(p)}))`, filtro.idCategoria);
+            }
+            if (filtro.anoInicio !== undefined) {
+                adicionarCondicao((p) => `${ORDENACAO_LIVROS.anoPublicacao} >= ${p}`, filtro.anoInicio);
+            }
+            if (filtro.anoFim !== undefined) {
+                adicionarCondicao((p) => `${ORDENACAO_LIVROS.anoPublicacao} <= ${p}`, filtro.anoFim);
+            }
+            if (filtro.apenasDisponiveis) {
+                condicoes.push('quant_disponivel > 0');
+            }
+
+            // a coluna de ordenação vem de uma lista fechada; id_livro desempata a ordem entre as páginas
+            const ordenacao = `${ORDENACAO_LIVROS[filtro.ordenarPor]} ${filtro.ordem === 'desc' ? 'DESC' : 'ASC'} NULLS LAST, id_livro`;
+
+            valores.push(filtro.limite, (filtro.pagina - 1) * filtro.limite);
+
+            // Query para consulta no banco de dados, com o total de registros na mesma consulta
+            const querySelectLivro = `
+                SELECT *, COUNT(*) OVER() AS total_registros
+                FROM Livro
+                WHERE ${condicoes.join(' AND ')}
+                ORDER BY ${ordenacao}
+                LIMIT $${valores.length - 1} OFFSET $${valores.length};`;
 
             // executa a query no banco de dados
-            const respostaBD = await database.query(querySelectLivro);
+            const respostaBD = await database.query(querySelectLivro, valores);
 
             // percorre cada resultado retornado pelo banco de dados
             // livro é o apelido que demos para cada linha retornada do banco de dados
@@ -290,13 +468,33 @@ export class Livro {
                 novoLivro.setIdLivro(livro.id_livro);
                 novoLivro.setStatusLivro(livro.status_livro);
                 novoLivro.setCapa(livro.capa);
+                novoLivro.setClassificacao(livro.classificacao);
+                novoLivro.setSistemaClassificacao(livro.sistema_classificacao);
 
                 // adicionando um livro na lista
                 listaDeLivros.push(novoLivro);
             });
 
+            // quando a página está além do último registro, o total é obtido com uma contagem separada
+            let total = respostaBD.rows.length > 0 ? parseInt(respostaBD.rows[0].total_registros) : 0;
+            if (respostaBD.rows.length === 0 && filtro.pagina > 1) {
+                const respostaTotal = await database.query(
+                    `SELECT COUNT(*) AS total FROM Livro WHERE ${condicoes.join(' AND ')}`,
+                    valores.slice(0, -2)
+                );
+                total = parseInt(respostaTotal.rows[0].total);
+            }
+
             // retornado a lista de livros para quem chamou a função
-            return listaDeLivros;
+            return {
+                dados: listaDeLivros,
+                paginacao: {
+                    pagina: filtro.pagina,
+                    limite: filtro.limite,
+                    total: total,
+                    totalPaginas: Math.ceil(total / filtro.limite)
+                }
+            };
 
             // captura qualquer erro que aconteça
         } catch (error) {
@@ -307,44 +505,258 @@ export class Livro {
         }
     }
 
+    /**
+     * Busca textual no catálogo, sem diferenciar acentos nem maiúsculas, ordenada por relevância.
+     * 
+     * Utiliza o documento de busca (tsvector) mantido pelo banco de dados a partir do título (peso maior),
+     * do autor e da editora. Cada palavra informada é procurada também como prefixo ("senh" encontra "Senhor")
+     * e os trechos encontrados são destacados com <mark></mark>.
+     * 
+     * @param termos Texto digitado pelo usuário
+     * @param pagina Página, começando em 1
+     * @param limite Quantidade de livros por página
+     * @returns Livros encontrados com a relevância e os trechos destacados, e as informações de paginação
+     */
+    static async buscarLivros(termos: string, pagina: number, limite: number): Promise<{ dados: Array<any>, paginacao: Paginacao }> {
+        // mantém apenas letras e números, assim o texto digitado não interfere na sintaxe do tsquery
+        const palavras = termos.match(/[\p{L}\p{N}]+/gu) ?? [];
+        const consulta = palavras.map((palavra) => `${palavra}:*`).join(' & ');
+
+        if (!consulta) {
+            return { dados: [], paginacao: { pagina, limite, total: 0, totalPaginas: 0 } };
+        }
+
+        const queryBusca = `
+            WITH consulta AS (SELECT to_tsquery('busca_catalogo', $1) AS q)
+            SELECT l.id_livro, l.titulo, l.autor, l.editora, l.ano_publicacao, l.isbn, l.quant_disponivel,
+                   ts_rank_cd(l.busca_documento, c.q) AS relevancia,
+                   ts_headline('busca_catalogo', l.titulo, c.q, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') AS destaque_titulo,
+                   ts_headline('busca_catalogo', l.autor, c.q, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') AS destaque_autor,
+                   ts_headline('busca_catalogo', l.editora, c.q, 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true') AS destaque_editora,
+                   COUNT(*) OVER() AS total_registros
+            FROM Livro l, consulta c
+            WHERE l.status_livro = TRUE AND l.busca_documento @@ c.q
+            ORDER BY relevancia DESC, l.titulo, l.id_livro
+            LIMIT $2 OFFSET $3;`;
+
+        const respostaBD = await database.query(queryBusca, [consulta, limite, (pagina - 1) * limite]);
+        const total = respostaBD.rows.length > 0 ? parseInt(respostaBD.rows[0].total_registros) : 0;
+
+        return {
+            dados: respostaBD.rows.map((linha: any) => ({
+                idLivro: linha.id_livro,
+                titulo: linha.titulo,
+                autor: linha.autor,
+                editora: linha.editora,
+                anoPublicacao: linha.ano_publicacao,
+                isbn: linha.isbn,
+                quantDisponivel: linha.quant_disponivel,
+                relevancia: Number(linha.relevancia),
+                destaques: {
+                    titulo: linha.destaque_titulo,
+                    autor: linha.destaque_autor,
+                    editora: linha.destaque_editora
+                }
+            })),
+            paginacao: { pagina, limite, total, totalPaginas: Math.ceil(total / limite) }
+        };
+    }
+
+    /**
+     * Retorna os detalhes de um livro do acervo: autores, editora, categorias, capa, exemplares,
+     * a disponibilidade atual (exemplares por situação e fila de reservas) e a quantidade de empréstimos.
+     *
+     * @param idLivro ID do livro
+     * @returns Detalhes do livro ou null caso o livro não exista ou tenha sido removido
+     */
+    static async consultarLivro(idLivro: number): Promise<any | null> {
+        const respostaBD = await database.query(
+            `SELECT l.*,
+                    (SELECT COUNT(*) FROM Emprestimo e
+                     WHERE e.id_livro = l.id_livro AND e.status_emprestimo_registro = TRUE) AS quant_emprestimos,
+                    (SELECT COUNT(*) FROM Emprestimo e
+                     WHERE e.id_livro = l.id_livro AND e.status_emprestimo_registro = TRUE AND e.status_emprestimo = ANY($2::text[])) AS quant_emprestimos_abertos,
+                    (SELECT COUNT(*) FROM Reserva r
+                     WHERE r.id_livro = l.id_livro AND r.status_reserva = $3) AS quant_reservas
+             FROM Livro l
+             WHERE l.id_livro = $1 AND l.status_livro = TRUE`,
+            [idLivro, [STATUS_EMPRESTIMO.ATIVO, STATUS_EMPRESTIMO.ATRASADO], STATUS_RESERVA.AGUARDANDO]
+        );
+
+        if (respostaBD.rows.length === 0) {
+            return null;
+        }
+
+        const livro = respostaBD.rows[0];
+
+        const respostaAutores = await database.query(
+            `SELECT a.id_autor, a.nome, la.posicao
+             FROM Livro_Autor la
+             JOIN Autor a ON a.id_autor = la.id_autor
+             WHERE la.id_livro = $1
+             ORDER BY la.posicao`,
+            [idLivro]
+        );
+
+        const respostaCategorias = await database.query(
+            `SELECT c.id_categoria, c.nome, c.id_categoria_pai
+             FROM Livro_Categoria lc
+             JOIN Categoria c ON c.id_categoria = lc.id_categoria
+             WHERE lc.id_livro = $1
+             ORDER BY c.nome`,
+            [idLivro]
+        );
+
+        const exemplares = await Exemplar.listarExemplares(idLivro);
+
+        // quantidade de exemplares em cada situação, inclusive as que não têm exemplares
+        const exemplaresPorSituacao = Object.fromEntries(
+            Object.values(SITUACAO_EXEMPLAR).map((situacao) => [situacao, exemplares.filter((exemplar) => exemplar.situacao === situacao).length])
+        ) as Record<SituacaoExemplar, number>;
+
+        return {
+            idLivro: livro.id_livro,
+            titulo: livro.titulo,
+            autor: livro.autor,
+            editora: livro.editora,
+            idEditora: livro.id_editora,
+            anoPublicacao: livro.ano_publicacao,
+            isbn: livro.isbn,
+            quantTotal: livro.quant_total,
+            quantDisponivel: livro.quant_disponivel,
+            valorAquisicao: livro.valor_aquisicao,
+            statusLivroEmprestado: livro.status_livro_emprestado,
+            classificacao: livro.classificacao,
+            sistemaClassificacao: livro.sistema_classificacao,
+            capa: livro.capa ? CapaLivro.montarCapa(livro.capa) : null,
+            autores: respostaAutores.rows.map((linha: any) => ({ idAutor: linha.id_autor, nome: linha.nome, posicao: linha.posicao })),
+            categorias: respostaCategorias.rows.map((linha: any) => ({ idCategoria: linha.id_categoria, nome: linha.nome, idCategoriaPai: linha.id_categoria_pai })),
+            disponibilidade: {
+                disponivel: exemplaresPorSituacao[SITUACAO_EXEMPLAR.DISPONIVEL] > 0,
+                exemplaresPorSituacao: exemplaresPorSituacao,
+                reservasAguardando: parseInt(livro.quant_reservas)
+            },
+            emprestimos: {
+                total: parseInt(livro.quant_emprestimos),
+                emAndamento: parseInt(livro.quant_emprestimos_abertos)
+            },
+            exemplares: exemplares
+        };
+    }
+
+    /**
+     * Grava o código e o sistema de classificação do livro
+     *
+     * @param cliente Conexão da transação em andamento
+     * @param idLivro ID do livro
+     * @param livro Livro com a classificação (nula quando não informada)
+     */
+    private static async gravarClassificacao(cliente: pg.PoolClient, idLivro: number, livro: Livro): Promise<void> {
+        const classificacao = livro.getClassificacao()?.trim() || null;
+
+        await cliente.query(
+            `UPDATE Livro SET classificacao = $2, sistema_classificacao = $3 WHERE id_livro = $1`,
+            [idLivro, classificacao, classificacao ? livro.getSistemaClassificacao() : null]
+        );
+    }
+
+    /**
+     * Valida o ISBN informado e o converte para ISBN-13
+     *
+     * @returns ISBN-13 ou null caso o ISBN não tenha sido informado
+     * @throws ErroRegraNegocio caso o ISBN seja inválido (400)
+     */
+    private static normalizarISBN(isbn: string): string | null {
+        if (!isbn || !isbn.trim()) {
+            return null;
+        }
+
+        const isbnNormalizado = ISBN.normalizar(isbn);
+
+        if (!isbnNormalizado) {
+            throw new ErroRegraNegocio('ISBN inválido. Informe um ISBN-10 ou ISBN-13 com o dígito verificador correto.', 400, 'ISBN_INVALIDO');
+        }
+
+        return isbnNormalizado;
+    }
+
+    /**
+     * Impede que dois livros ativos tenham o mesmo ISBN.
+     * O bloqueio por ISBN evita que cadastros simultâneos do mesmo livro passem pela verificação.
+     *
+     * @param cliente Conexão da transação em andamento
+     * @param isbn ISBN-13 do livro (null quando não informado)
+     * @param idLivroAtual ID do livro sendo alterado, que não conta como duplicado
+     * @throws ErroRegraNegocio com os dados do livro já cadastrado (409)
+     */
+    private static async verificarISBNDuplicado(cliente: pg.PoolClient, isbn: string | null, idLivroAtual?: number): Promise<void> {
+        if (!isbn) {
+            return;
+        }
+
+        await cliente.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`isbn:${isbn}`]);
+
+        const respostaBD = await cliente.query(
+            `SELECT id_livro, titulo, autor, editora, quant_total, quant_disponivel FROM Livro
+             WHERE isbn = $1 AND status_livro = TRUE AND id_livro <> $2`,
+            [isbn, idLivroAtual ?? 0]
+        );
+
+        if (respostaBD.rows.length > 0) {
+            const livro = respostaBD.rows[0];
+
+            throw new ErroRegraNegocio('Já existe um livro cadastrado com este ISBN.', 409, 'ISBN_DUPLICADO', {
+                livroExistente: {
+                    idLivro: livro.id_livro,
+                    titulo: livro.titulo,
+                    autor: livro.autor,
+                    editora: livro.editora,
+                    isbn: isbn,
+                    quantTotal: livro.quant_total,
+                    quantDisponivel: livro.quant_disponivel
+                }
+            });
+        }
+    }
+
+    /**
+     * Monta o padrão do ILIKE para buscar o texto em qualquer posição,
+     * tratando %, _ e \ digitados pelo usuário como caracteres comuns
+     */
+    private static padraoBusca(texto: string): string {
+        return `%${texto.replace(/[\\%_]/g, '\\$&')}%`;
+    }
+
     /**
      * Cadastra um novo livro no banco de dados
+     * 
+     * São criados tantos exemplares quanto a quantidade total informada, com número de tombo gerado
+     * automaticamente; as quantidades total e disponível são calculadas a partir dos exemplares.
+     * O ISBN é gravado no formato ISBN-13 e não pode repetir o de outro livro ativo.
+     * Os autores (separados por vírgula) e a editora são associados aos cadastros de autores e editoras,
+     * que são criados caso ainda não existam.
+     * 
      * @param livro Objeto Livro contendo as informações a serem cadastradas
+     * @param idsCategorias IDs das categorias (assuntos) do livro
      * @returns Boolean indicando se o cadastro foi bem-sucedido
+     * @throws ErroRegraNegocio caso o ISBN seja inválido (400), já esteja cadastrado (409)
+     * ou alguma categoria não exista (404)
      */
-    static async cadastrarLivro(livro: Livro): Promise<{ queryResult: boolean, idLivro?: number }> {
+    static async cadastrarLivro(livro: Livro, idsCategorias: number[] = []): Promise<{ queryResult: boolean, idLivro?: number }> {
         // variável de controle da execução da query
         let insertResult = false;
         let objetoResposta = { queryResult: false, idLivro: 0 };
 
         try {
-            // Cria a consulta (query) para inserir livro na tabela retornado o ID do livro
-            const queryInsertLivro = `
-                INSERT INTO Livro (titulo, autor, editora, ano_publicacao, isbn, quant_total, quant_disponivel, valor_aquisicao, status_livro_emprestado)
-                VALUES (
-                    '${livro.getTitulo().toUpperCase()}',
-                    '${livro.getAutor().toUpperCase()}',
-                    '${livro.getEditora().toUpperCase()}',
-                    '${livro.getAnoPublicacao().toUpperCase()}',
-                    '${livro.getISBN().toUpperCase()}',
-                    '${livro.getQuantTotal()}',
-                    '${livro.getQuantDisponivel()}',
-                    '${livro.getValorAquisicao()}',
-                    '${livro.getStatusLivroEmprestado().toUpperCase()}'
-                )
-                RETURNING id_livro;`;
-
-            // executa a consulta no banco e armazena o resultado
-            const result = await database.query(queryInsertLivro);
-
-            // verifica se o número de linhas alteradas no banco de dados é maior que 0
-            if (result.rows.length > 0) {
+            // executa a consulta no banco e cria os exemplares do livro na mesma transação
+            const idLivro = await DataBaseModel.transacao(database, (cliente) => Livro.inserirLivro(cliente, livro, idsCategorias));
+
+            // verifica se o livro foi gravado
+            if (idLivro) {
                 // exibe mensagem de sucesso no console
-                console.log(`Livro cadastrado com sucesso. ID: ${result.rows[0].id_livro}`);
+                console.log(`Livro cadastrado com sucesso. ID: ${idLivro}`);
                 // altera o valor da variável de controle para verdadeiro
                 insertResult = true;
-                // salva o ID do livro em uma variável
-                let idLivro = result.rows[0].id_livro;
 
                 // Montar o objeto de resposta
                 objetoResposta = { queryResult: insertResult, idLivro: idLivro }
@@ -354,47 +766,136 @@ export class Livro {
             return objetoResposta;
             // captura qualquer tipo de erro que possa acontecer
         } catch (error) {
+            // ISBN inválido ou já cadastrado
+            if (error instanceof ErroRegraNegocio) throw error;
+
             console.error(`Erro ao cadastrar livro: ${error}`);
             return { queryResult: false };
         }
     }
 
+    /**
+     * Grava um novo livro, com os exemplares, autores, editora, categorias e classificação,
+     * na transação informada. Utilizado no cadastro individual e na importação em lote.
+     *
+     * @param cliente Conexão da transação em andamento
+     * @param livro Livro a ser cadastrado
+     * @param idsCategorias IDs das categorias (assuntos) do livro
+     * @returns ID do livro cadastrado
+     * @throws ErroRegraNegocio caso o ISBN seja inválido (400), já esteja cadastrado (409)
+     * ou alguma categoria não exista (404)
+     */
+    static async inserirLivro(cliente: pg.PoolClient, livro: Livro, idsCategorias: number[] = []): Promise<number> {
+        // ISBN no formato canônico (ISBN-13) ou null quando não informado
+        const isbn = Livro.normalizarISBN(livro.getISBN());
+        livro.setISBN(isbn ?? '');
+
+        await Livro.verificarISBNDuplicado(cliente, isbn);
+
+        // os valores são enviados como parâmetros, assim títulos e nomes com apóstrofo (ex.: O'Reilly) são aceitos
+        const resultadoLivro = await cliente.query(
+            `INSERT INTO Livro (titulo, autor, editora, ano_publicacao, isbn, quant_total, quant_disponivel, valor_aquisicao, status_livro_emprestado)
+             VALUES ($1, $2, $3, $4, $5, 0, 0, $6, $7)
+             RETURNING id_livro`,
+            [
+                livro.getTitulo().toUpperCase(),
+                livro.getAutor().toUpperCase(),
+                livro.getEditora().toUpperCase(),
+                livro.getAnoPublicacao().toUpperCase(),
+                isbn,
+                livro.getValorAquisicao(),
+                livro.getStatusLivroEmprestado().toUpperCase()
+            ]
+        );
+        const idLivro: number = resultadoLivro.rows[0].id_livro;
+
+        await Exemplar.gerarExemplares(cliente, idLivro, Math.max(Number(livro.getQuantTotal()) || 0, 0));
+        await Autor.definirAutoresLivro(cliente, idLivro, Autor.separarNomes(livro.getAutor()));
+        await Editora.definirEditoraLivro(cliente, idLivro, livro.getEditora());
+        await Categoria.definirCategoriasLivro(cliente, idLivro, idsCategorias);
+        await Livro.gravarClassificacao(cliente, idLivro, livro);
+
+        return idLivro;
+    }
+
     /**
      * Remove um livro do banco de dados
+     * 
+     * Em uma única transação, com o registro do livro bloqueado, cancela as reservas ativas do livro,
+     * retira os exemplares do acervo (baixado) e desativa o livro e o histórico de empréstimos.
+     * Livros com empréstimos em andamento não podem ser removidos.
      * @param idLivro ID do livro a ser removido
      * @returns Boolean indicando se a remoção foi bem-sucedida
+     * @throws ErroRegraNegocio caso o livro tenha empréstimos em andamento (409)
     */
     static async removerLivro(id_livro: number): Promise<Boolean> {
         // variável de controle da execução da query
         let queryResult = false;
 
         try {
-            // Cria a consulta para rmeover empréstimo do banco de dados
-            const queryDeleteEmprestimoLivro = `UPDATE emprestimo
-                                                    SET status_emprestimo_registro = FALSE 
-                                                    WHERE id_livro=${id_livro}`;
-
-            // executa a query para remover empréstimo
-            await database.query(queryDeleteEmprestimoLivro);
-
-            // Construção da query SQL para deletar o Livro.
-            const queryDeleteLivro = `UPDATE livro
-                                        SET status_livro = FALSE 
-                                        WHERE id_livro=${id_livro};`;
-
-            // Executa a query de exclusão e verifica se a operação foi bem-sucedida.
-            await database.query(queryDeleteLivro)
-                .then((result) => {
-                    if (result.rowCount != 0) {
-                        queryResult = true; // Se a operação foi bem-sucedida, define queryResult como true.
-                    }
-                });
+            queryResult = await DataBaseModel.transacao(database, async (cliente) => {
+                // bloqueia o livro, a mesma trava utilizada no empréstimo, na devolução e nas reservas
+                const respostaLivro = await cliente.query(
+                    `SELECT 1 FROM Livro WHERE id_livro = $1 AND status_livro = TRUE FOR UPDATE`,
+                    [id_livro]
+                );
+
+                if (respostaLivro.rows.length === 0) {
+                    return false;
+                }
+
+                // os exemplares emprestados precisam ser devolvidos antes da remoção
+                const respostaEmprestimos = await cliente.query(
+                    `SELECT COUNT(*) AS quant_emprestimos FROM Emprestimo
+                     WHERE id_livro = $1 AND status_emprestimo_registro = TRUE AND status_emprestimo <> $2`,
+                    [id_livro, STATUS_EMPRESTIMO.DEVOLVIDO]
+                );
+
+                if (parseInt(respostaEmprestimos.rows[0].quant_emprestimos) > 0) {
+                    throw new ErroRegraNegocio(
+                        'O livro possui empréstimos em andamento e não pode ser removido. Registre as devoluções antes da remoção.',
+                        409, 'LIVRO_COM_EMPRESTIMOS'
+                    );
+                }
+
+                // encerra a fila de reservas do livro, inclusive as reservas com exemplar separado
+                await cliente.query(
+                    `UPDATE Reserva SET status_reserva = $2, data_encerramento = NOW()
+                     WHERE id_livro = $1 AND status_reserva = ANY($3::text[])`,
+                    [id_livro, STATUS_RESERVA.CANCELADA, [STATUS_RESERVA.AGUARDANDO, STATUS_RESERVA.DISPONIVEL]]
+                );
+
+                // retira os exemplares do acervo
+                await cliente.query(
+                    `UPDATE Exemplar SET situacao = $2 WHERE id_livro = $1 AND situacao <> $2`,
+                    [id_livro, SITUACAO_EXEMPLAR.BAIXADO]
+                );
+
+                // desativa o histórico de empréstimos do livro
+                await cliente.query(
+                    `UPDATE Emprestimo SET status_emprestimo_registro = FALSE WHERE id_livro = $1`,
+                    [id_livro]
+                );
+
+                await cliente.query(`UPDATE Livro SET status_livro = FALSE WHERE id_livro = $1`, [id_livro]);
+
+                return true;
+            });
+
+            // apaga os arquivos da capa do livro removido
+            if (queryResult) {
+                await CapaLivro.removerCapa(id_livro);
+            }
 
             // retorna o valor da variável de controle
             return queryResult;
 
             // captura qualquer erro que possa acontecer
         } catch (error) {
+            // livro com empréstimos em andamento
+            if (error instanceof ErroRegraNegocio) {
+                throw error;
+            }
             // Exibe detalhes do erro no console
             console.log(`Erro na consulta: ${error}`);
             // retorna o valor fa variável de controle
@@ -404,55 +905,72 @@ export class Livro {
 
     /**
      * Atualiza os dados de um livro no banco de dados.
+     * As quantidades e o status de empréstimo não são alterados: eles são calculados a partir dos exemplares.
+     * Os autores e a editora associados ao livro são substituídos pelos informados.
      * @param livro Objeto do tipo Livro com os novos dados
+     * @param idsCategorias IDs das categorias do livro (quando não informado, as categorias atuais são mantidas)
      * @returns true caso sucesso, false caso erro
+     * @throws ErroRegraNegocio caso o ISBN seja inválido (400), pertença a outro livro (409)
+     * ou alguma categoria não exista (404)
      */
-    static async atualizarCadastroLivro(livro: Livro): Promise<Boolean> {
+    static async atualizarCadastroLivro(livro: Livro, idsCategorias?: number[]): Promise<Boolean> {
         let queryResult = false; // Variável para armazenar o resultado da operação.
         try {
+            // ISBN no formato canônico (ISBN-13) ou null quando não informado
+            const isbn = Livro.normalizarISBN(livro.getISBN());
+            livro.setISBN(isbn ?? '');
+
             // Construção da query SQL para atualizar os dados do livro no banco de dados.
             const queryAtualizarLivro = `UPDATE Livro SET 
-                                            titulo = '${livro.getTitulo().toUpperCase()}', 
-                                            autor = '${livro.getAutor().toUpperCase()}',
-                                            editora = '${livro.getEditora().toUpperCase()}', 
-                                            ano_publicacao = '${livro.getAnoPublicacao().toUpperCase()}',
-                                            isbn = '${livro.getISBN().toUpperCase()}', 
-                                            quant_total = ${livro.getQuantTotal()},
-                                            quant_disponivel = ${livro.getQuantDisponivel()},
-                                            valor_aquisicao = ${livro.getValorAquisicao()},
-                                            status_livro_emprestado = '${livro.getStatusLivroEmprestado().toUpperCase()}'                                           
-                                        WHERE id_livro = ${livro.idLivro}`;
+                                            titulo = $2, 
+                                            autor = $3,
+                                            editora = $4, 
+                                            ano_publicacao = $5,
+                                            isbn = $6, 
+                                            valor_aquisicao = $7
+                                        WHERE id_livro = $1`;
+            const valoresAtualizarLivro = [
+                livro.idLivro,
+                livro.getTitulo().toUpperCase(),
+                livro.getAutor().toUpperCase(),
+                livro.getEditora().toUpperCase(),
+                livro.getAnoPublicacao().toUpperCase(),
+                isbn,
+                livro.getValorAquisicao()
+            ];
 
             // Executa a query de atualização e verifica se a operação foi bem-sucedida.
-            await database.query(queryAtualizarLivro)
-                .then((result) => {
-                    if (result.rowCount != 0) {
-                        queryResult = true; // Se a operação foi bem-sucedida, define queryResult como true.
+            await DataBaseModel.transacao(database, async (cliente) => {
+                await Livro.verificarISBNDuplicado(cliente, isbn, livro.idLivro);
+                const resultadoLivro = await cliente.query(queryAtualizarLivro, valoresAtualizarLivro);
+
+                if (resultadoLivro.rowCount != 0) {
+                    await Autor.definirAutoresLivro(cliente, livro.idLivro, Autor.separarNomes(livro.getAutor()));
+                    await Editora.definirEditoraLivro(cliente, livro.idLivro, livro.getEditora());
+                    await Livro.gravarClassificacao(cliente, livro.idLivro, livro);
+
+                    if (idsCategorias !== undefined) {
+                        await Categoria.definirCategoriasLivro(cliente, livro.idLivro, idsCategorias);
                     }
-                });
+                }
+                return resultadoLivro;
+            }).then((result) => {
+                if (result.rowCount != 0) {
+                    queryResult = true; // Se a operação foi bem-sucedida, define queryResult como true.
+                }
+            });
 
             // Retorna o resultado da operação para quem chamou a função.
             return queryResult;
             // captura qualquer erro que possa acontecer
         } catch (error) {
+            // ISBN inválido ou já cadastrado em outro livro
+            if (error instanceof ErroRegraNegocio) throw error;
+
             // exibe detalhes do erro no console
             console.log(`Erro na consulta: ${error}`);
             // retorna o valor da variável de controle
             return queryResult;
         }
     }
-
-    /**
-     * Atualiza a capa do livro
-     * 
-     * @param nomeArquivo Nome do arquivo a ser salvo no banco de dados
-     * @param idLivro ID do livro associado ao arquivo
-     */
-    static async atualizarImagemCapa(nomeArquivo: string, idLivro: number): Promise<void> {
-        // Define a query SQL que atualiza o campo capa do livro com o nome do arquivo
-        const query = `UPDATE livro SET capa = $1 WHERE id_livro = $2`;
-
-        // Executa a query passando o nome do arquivo e o id do livro como parâmetros
-        await database.query(query, [nomeArquivo, idLivro]);
-    }
 }
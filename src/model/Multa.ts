@@ -0,0 +1,223 @@
+import pg from 'pg';
+import { DataBaseModel } from "./DataBaseModel";
+import { ErroRegraNegocio } from "../util/ErroRegraNegocio";
+import { POLITICA_EMPRESTIMO } from "../config/emprestimoConfig";
+
+// Recupera conexão com o banco de dados
+const database = new DataBaseModel().pool;
+
+/**
+ * Tipos de lançamento do extrato de multas
+ */
+export const TIPO_LANCAMENTO_MULTA = {
+    COBRANCA: 'cobranca',
+    PAGAMENTO: 'pagamento',
+    ISENCAO: 'isencao'
+} as const;
+
+/**
+ * Chave utilizada para impedir que dois cálculos de multa sejam executados ao mesmo tempo
+ */
+const CHAVE_BLOQUEIO_CALCULO = 20241001;
+
+/**
+ * Classe que representa o extrato de multas por atraso dos alunos.
+ *
+ * Cada aluno possui um extrato com lançamentos de cobrança (gerados automaticamente por dia de atraso),
+ * pagamento e isenção. O saldo devedor é a soma das cobranças menos os pagamentos e as isenções.
+ */
+export class Multa {
+
+    /**
+     * Gera as cobranças de multa dos empréstimos devolvidos com atraso ou ainda em atraso.
+     *
+     * Para cada empréstimo são cobrados somente os dias de atraso que ainda não foram cobrados,
+     * com o valor diário vigente, assim a execução pode ser repetida sem duplicar cobranças.
+     *
+     * @param idEmprestimo Limita o cálculo a um empréstimo (opcional)
+     * @param cliente Conexão a ser utilizada, para executar dentro de uma transação (opcional)
+     * @returns Lista com as cobranças geradas
+     */
+    static async acumularMultas(idEmprestimo?: number, cliente?: pg.PoolClient): Promise<Array<any>> {
+        // Executa o cálculo dentro da transação informada ou em uma nova transação
+        if (!cliente) {
+            return DataBaseModel.transacao(database, (novoCliente) => Multa.acumularMultas(idEmprestimo, novoCliente));
+        }
+
+        // Bloqueio exclusivo até o fim da transação, evitando cobranças duplicadas em execuções simultâneas
+        await cliente.query('SELECT pg_advisory_xact_lock($1)', [CHAVE_BLOQUEIO_CALCULO]);
+
+        const queryCobrancas = `
+            INSERT INTO Multa_Lancamento (id_aluno, id_emprestimo, tipo, valor, dias_atraso, descricao)
+            SELECT c.id_aluno, c.id_emprestimo, $1, (c.dias_atraso - c.dias_cobrados) * $2::numeric, c.dias_atraso,
+                   'Multa por atraso: ' || (c.dias_atraso - c.dias_cobrados) || ' dia(s), de ' || (c.dias_cobrados + 1) || ' a ' || c.dias_atraso
+            FROM (
+                SELECT e.id_emprestimo, e.id_aluno,
+                       COALESCE(e.data_devolucao_real::date, CURRENT_DATE) - e.data_devolucao AS dias_atraso,
+                       COALESCE((SELECT MAX(m.dias_atraso) FROM Multa_Lancamento m
+                                 WHERE m.id_emprestimo = e.id_emprestimo AND m.tipo = $1), 0) AS dias_cobrados
+                FROM Emprestimo e
+                WHERE e.status_emprestimo_registro = TRUE
+                AND e.data_devolucao IS NOT NULL
+                AND ($3::int IS NULL OR e.id_emprestimo = $3::int)
+            ) c
+            WHERE c.dias_atraso > c.dias_cobrados
+            RETURNING id_lancamento, id_aluno, id_emprestimo, valor, dias_atraso;
+        `;
+
+        const respostaBD = await cliente.query(queryCobrancas, [
+            TIPO_LANCAMENTO_MULTA.COBRANCA, POLITICA_EMPRESTIMO.MULTA_VALOR_DIARIO, idEmprestimo ?? null
+        ]);
+
+        return respostaBD.rows.map((linha: any) => ({
+            idLancamento: linha.id_lancamento,
+            idAluno: linha.id_aluno,
+            idEmprestimo: linha.id_emprestimo,
+            valor: parseFloat(linha.valor),
+            diasAtraso: linha.dias_atraso
+        }));
+    }
+
+    /**
+     * Retorna o saldo e o extrato de multas de um aluno.
+     * As cobranças pendentes do aluno são calculadas antes da consulta.
+     *
+     * @param idAluno ID do aluno
+     * @returns Totais por tipo de lançamento, saldo devedor e lista de lançamentos
+     */
+    static async consultarSaldo(idAluno: number): Promise<any> {
+        // Atualiza as cobranças antes de consultar o saldo
+        await Multa.acumularMultas();
+
+        const respostaBD = await database.query(
+            `SELECT m.id_lancamento, m.id_emprestimo, m.tipo, m.valor, m.dias_atraso, m.descricao, m.data_lancamento,
+                    u.nome AS nome_usuario, l.titulo
+             FROM Multa_Lancamento m
+             LEFT JOIN Usuario u ON u.id_usuario = m.id_usuario
+             LEFT JOIN Emprestimo e ON e.id_emprestimo = m.id_emprestimo
+             LEFT JOIN Livro l ON l.id_livro = e.id_livro
+             WHERE m.id_aluno = $1
+             ORDER BY m.data_lancamento, m.id_lancamento`,
+            [idAluno]
+        );
+
+        // Soma os lançamentos por tipo
+        const totais = { cobrado: 0, pago: 0, isento: 0 };
+        const lancamentos = respostaBD.rows.map((linha: any) => {
+            const valor = parseFloat(linha.valor);
+
+            if (linha.tipo === TIPO_LANCAMENTO_MULTA.COBRANCA) totais.cobrado += valor;
+            if (linha.tipo === TIPO_LANCAMENTO_MULTA.PAGAMENTO) totais.pago += valor;
+            if (linha.tipo === TIPO_LANCAMENTO_MULTA.ISENCAO) totais.isento += valor;
+
+            return {
+                idLancamento: linha.id_lancamento,
+                idEmprestimo: linha.id_emprestimo,
+                tituloLivro: linha.titulo,
+                tipo: linha.tipo,
+                valor: valor,
+                diasAtraso: linha.dias_atraso,
+                descricao: linha.descricao,
+                registradoPor: linha.nome_usuario,
+                dataLancamento: linha.data_lancamento
+            };
+        });
+
+        return {
+            idAluno: idAluno,
+            totalCobrado: Multa.arredondar(totais.cobrado),
+            totalPago: Multa.arredondar(totais.pago),
+            totalIsento: Multa.arredondar(totais.isento),
+            saldo: Multa.arredondar(totais.cobrado - totais.pago - totais.isento),
+            lancamentos: lancamentos
+        };
+    }
+
+    /**
+     * Registra um pagamento ou uma isenção no extrato do aluno.
+     * O valor não pode ser maior que o saldo devedor do aluno.
+     *
+     * @param idAluno ID do aluno
+     * @param tipo Tipo do lançamento (pagamento ou isenção)
+     * @param valor Valor do lançamento
+     * @param idUsuario ID do usuário que registrou o lançamento
+     * @param descricao Descrição ou motivo do lançamento
+     * @param idEmprestimo Empréstimo relacionado ao lançamento (opcional)
+     * @returns ID do lançamento e o novo saldo do aluno
+     * @throws ErroRegraNegocio caso o aluno ou o empréstimo não existam (404), o empréstimo seja de outro aluno (409)
+     * ou o valor seja maior que o saldo (409)
+     */
+    static async registrarLancamento(
+        idAluno: number,
+        tipo: 'pagamento' | 'isencao',
+        valor: number,
+        idUsuario: number,
+        descricao: string | null,
+        idEmprestimo: number | null = null
+    ): Promise<{ idLancamento: number, saldo: number }> {
+        // Atualiza as cobranças antes de validar o saldo
+        await Multa.acumularMultas();
+
+        return DataBaseModel.transacao(database, async (cliente) => {
+            // Bloqueia o registro do aluno, evitando dois lançamentos simultâneos sobre o mesmo saldo
+            const respostaAluno = await cliente.query(`SELECT id_aluno FROM Aluno WHERE id_aluno = $1 FOR UPDATE`, [idAluno]);
+            if (respostaAluno.rows.length === 0) {
+                throw new ErroRegraNegocio('Aluno não encontrado.', 404, 'ALUNO_NAO_ENCONTRADO');
+            }
+
+            // O lançamento só pode ser vinculado a um empréstimo do próprio aluno
+            if (idEmprestimo !== null) {
+                const respostaEmprestimo = await cliente.query(
+                    `SELECT id_aluno FROM Emprestimo WHERE id_emprestimo = $1 AND status_emprestimo_registro = TRUE`,
+                    [idEmprestimo]
+                );
+                if (respostaEmprestimo.rows.length === 0) {
+                    throw new ErroRegraNegocio('Empréstimo não encontrado.', 404, 'EMPRESTIMO_NAO_ENCONTRADO');
+                }
+                if (respostaEmprestimo.rows[0].id_aluno !== Number(idAluno)) {
+                    throw new ErroRegraNegocio('O empréstimo informado não pertence ao aluno.', 409, 'EMPRESTIMO_DE_OUTRO_ALUNO');
+                }
+            }
+
+            // Calcula o saldo devedor atual
+            const saldo = await Multa.calcularSaldo(cliente, idAluno);
+            if (valor > saldo) {
+                throw new ErroRegraNegocio(`O valor informado é maior que o saldo devedor do aluno (R$ ${saldo.toFixed(2)}).`, 409, 'VALOR_EXCEDE_SALDO');
+            }
+
+            // Grava o lançamento
+            const respostaBD = await cliente.query(
+                `INSERT INTO Multa_Lancamento (id_aluno, id_emprestimo, tipo, valor, descricao, id_usuario)
+                 VALUES ($1, $2, $3, $4, $5, $6)
+                 RETURNING id_lancamento`,
+                [idAluno, idEmprestimo, tipo, valor, descricao, idUsuario]
+            );
+
+            return { idLancamento: respostaBD.rows[0].id_lancamento, saldo: Multa.arredondar(saldo - valor) };
+        });
+    }
+
+    /**
+     * Calcula o saldo devedor de multas do aluno
+     *
+     * @param cliente Conexão a ser utilizada
+     * @param idAluno ID do aluno
+     * @returns Saldo devedor (cobranças menos pagamentos e isenções)
+     */
+    static async calcularSaldo(cliente: pg.Pool | pg.PoolClient, idAluno: number): Promise<number> {
+        const respostaBD = await cliente.query(
+            `SELECT COALESCE(SUM(CASE WHEN tipo = $2 THEN valor ELSE -valor END), 0) AS saldo
+             FROM Multa_Lancamento WHERE id_aluno = $1`,
+            [idAluno, TIPO_LANCAMENTO_MULTA.COBRANCA]
+        );
+
+        return parseFloat(respostaBD.rows[0].saldo);
+    }
+
+    /**
+     * Arredonda o valor para duas casas decimais
+     */
+    private static arredondar(valor: number): number {
+        return Math.round(valor * 100) / 100;
+    }
+}
@@ -0,0 +1,114 @@
+import crypto from 'crypto'; // Módulo nativo do Node para funções criptográficas
+import { DataBaseModel } from "./DataBaseModel";
+import { Senha } from "../util/Senha";
+import { Sessao } from "./Sessao";
+
+// Recupera conexão com o banco de dados
+const database = new DataBaseModel().pool;
+
+/**
+ * Tempo de validade do token de redefinição de senha, em minutos (padrão: 30)
+ */
+const VALIDADE_TOKEN_MINUTOS = parseInt(process.env.RESET_TOKEN_EXPIRES_MIN ?? '30');
+
+/**
+ * Classe responsável pelos tokens de redefinição de senha.
+ *
+ * O token é enviado ao usuário por e-mail e somente o seu hash (SHA-256) é gravado no banco de dados.
+ * Cada token pode ser utilizado uma única vez e expira após o tempo de validade.
+ */
+export class RedefinicaoSenha {
+
+    /**
+     * Gera um novo token de redefinição de senha para o usuário.
+     * Os tokens anteriores ainda não utilizados são invalidados.
+     *
+     * @param idUsuario ID do usuário
+     * @returns Token em texto puro, que deve ser enviado ao usuário
+     */
+    static async gerarToken(idUsuario: number): Promise<string> {
+        // Gera um token aleatório de 32 bytes
+        const token = crypto.randomBytes(32).toString('base64url');
+
+        await DataBaseModel.transacao(database, async (cliente) => {
+            // Invalida os tokens anteriores do usuário que ainda não foram utilizados
+            await cliente.query(
+                `UPDATE redefinicao_senha SET data_uso = NOW() WHERE id_usuario = $1 AND data_uso IS NULL`,
+                [idUsuario]
+            );
+
+            // Grava o hash do novo token com a data de expiração
+            await cliente.query(
+                `INSERT INTO redefinicao_senha (id_usuario, token_hash, data_expiracao)
+                 VALUES ($1, $2, NOW() + ($3 || ' minutes')::interval)`,
+                [idUsuario, RedefinicaoSenha.hashToken(token), VALIDADE_TOKEN_MINUTOS]
+            );
+        });
+
+        return token;
+    }
+
+    /**
+     * Redefine a senha do usuário dono do token, caso o token seja válido.
+     * O token é marcado como utilizado na mesma transação em que a senha é alterada.
+     *
+     * @param token Token recebido pelo usuário
+     * @param novaSenha Nova senha em texto puro
+     * @returns ID do usuário que teve a senha redefinida ou null caso o token seja inválido, expirado ou já utilizado,
+     * ou o usuário esteja desativado
+     */
+    static async redefinirSenha(token: string, novaSenha: string): Promise<number | null> {
+        // Gera o hash da nova senha antes de abrir a transação
+        const hashSenha = await Senha.gerarHash(novaSenha);
+
+        return DataBaseModel.transacao(database, async (cliente) => {
+            // Recupera o token válido de um usuário ativo, bloqueando o registro para evitar uso simultâneo
+            // (um usuário desativado depois da emissão do token não pode redefinir a senha)
+            const respostaBD = await cliente.query(
+                `SELECT r.id_redefinicao, r.id_usuario FROM redefinicao_senha r
+                 JOIN usuario u ON u.id_usuario = r.id_usuario
+                 WHERE r.token_hash = $1 AND r.data_uso IS NULL AND r.data_expiracao > NOW()
+                 AND u.status_usuario = TRUE
+                 FOR UPDATE OF r`,
+                [RedefinicaoSenha.hashToken(token)]
+            );
+
+            if (respostaBD.rows.length === 0) {
+                return null;
+            }
+
+            const { id_redefinicao, id_usuario } = respostaBD.rows[0];
+
+            // Grava a nova senha do usuário
+            await cliente.query(
+                `UPDATE usuario SET senha = $1, troca_senha_obrigatoria = FALSE WHERE id_usuario = $2`,
+                [hashSenha, id_usuario]
+            );
+
+            // Encerra as sessões abertas com a senha anterior
+            await Sessao.revogarSessoesUsuario(id_usuario, 'redefinicao_senha', cliente);
+
+            // Marca o token como utilizado
+            await cliente.query(
+                `UPDATE redefinicao_senha SET data_uso = NOW() WHERE id_redefinicao = $1`,
+                [id_redefinicao]
+            );
+
+            return id_usuario as number;
+        });
+    }
+
+    /**
+     * Retorna o tempo de validade do token, em minutos
+     */
+    static getValidadeMinutos(): number {
+        return VALIDADE_TOKEN_MINUTOS;
+    }
+
+    /**
+     * Calcula o hash SHA-256 do token, que é o valor gravado no banco de dados
+     */
+    private static hashToken(token: string): string {
+        return crypto.createHash('sha256').update(token).digest('hex');
+    }
+}
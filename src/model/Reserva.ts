@@ -0,0 +1,443 @@
+import pg from 'pg';
+import { DataBaseModel } from "./DataBaseModel";
+import { ErroRegraNegocio } from "../util/ErroRegraNegocio";
+import { POLITICA_EMPRESTIMO } from "../config/emprestimoConfig";
+import { Email } from "../mail/Email";
+import { SITUACAO_EXEMPLAR } from "./Exemplar";
+
+// Recupera conexão com o banco de dados
+const database = new DataBaseModel().pool;
+
+/**
+ * Status utilizados pelas reservas
+ */
+export const STATUS_RESERVA = {
+    AGUARDANDO: 'aguardando',   // Na fila, esperando a devolução de um exemplar
+    DISPONIVEL: 'disponivel',   // Exemplar separado para o aluno, aguardando a retirada
+    ATENDIDA: 'atendida',       // Exemplar retirado (empréstimo realizado)
+    EXPIRADA: 'expirada',       // Exemplar não retirado dentro do prazo
+    CANCELADA: 'cancelada'      // Reserva cancelada pelo aluno ou pela biblioteca
+} as const;
+
+/**
+ * Interface ReservaAtribuida
+ * Define as informações da reserva que recebeu um exemplar devolvido, utilizadas na notificação do aluno
+ */
+export interface ReservaAtribuida {
+    idReserva: number;
+    idAluno: number;
+    idLivro: number;
+    idExemplar: number;
+    nomeAluno: string;
+    emailAluno: string | null;
+    titulo: string;
+    dataExpiracao: Date;
+}
+
+/**
+ * Classe que representa a fila de reservas dos livros.
+ *
+ * Quando não há exemplares disponíveis, o aluno pode entrar na fila do livro. A cada devolução,
+ * o exemplar é separado para o primeiro aluno da fila (ordem de chegada), que é notificado por e-mail
+ * e tem RESERVA_VALIDADE_DIAS para retirá-lo. Reservas não retiradas no prazo expiram e o exemplar
+ * passa para o próximo aluno da fila.
+ */
+export class Reserva {
+
+    /**
+     * Coloca o aluno na fila de reservas do livro
+     *
+     * @param idAluno ID do aluno
+     * @param idLivro ID do livro
+     * @returns ID da reserva e a posição do aluno na fila
+     * @throws ErroRegraNegocio caso o aluno ou o livro não existam (404) ou a reserva não seja permitida (409)
+     */
+    static async cadastrarReserva(idAluno: number, idLivro: number): Promise<{ idReserva: number, posicao: number }> {
+        try {
+            return await DataBaseModel.transacao(database, async (cliente) => {
+                // Recupera o livro bloqueando o registro, a mesma trava utilizada no empréstimo e na devolução
+                const respostaLivro = await cliente.query(
+                    `SELECT quant_disponivel FROM Livro WHERE id_livro = $1 AND status_livro = TRUE FOR UPDATE`,
+                    [idLivro]
+                );
+
+                if (respostaLivro.rows.length === 0) {
+                    throw new ErroRegraNegocio('Livro não encontrado.', 404, 'LIVRO_NAO_ENCONTRADO');
+                }
+
+                // a reserva só é permitida quando não há exemplares disponíveis
+                if (respostaLivro.rows[0].quant_disponivel > 0) {
+                    throw new ErroRegraNegocio('Há exemplares disponíveis deste livro, não é necessário reservar.', 409, 'LIVRO_DISPONIVEL');
+                }
+
+                const respostaAluno = await cliente.query(
+                    `SELECT 1 FROM Aluno WHERE id_aluno = $1 AND status_aluno = TRUE`,
+                    [idAluno]
+                );
+
+                if (respostaAluno.rows.length === 0) {
+                    throw new ErroRegraNegocio('Aluno não encontrado.', 404, 'ALUNO_NAO_ENCONTRADO');
+                }
+
+                // o aluno não pode reservar um livro que já está com ele
+                const respostaEmprestimo = await cliente.query(
+                    `SELECT 1 FROM Emprestimo
+                     WHERE id_aluno = $1 AND id_livro = $2 AND status_emprestimo_registro = TRUE AND data_devolucao_real IS NULL`,
+                    [idAluno, idLivro]
+                );
+
+                if (respostaEmprestimo.rows.length > 0) {
+                    throw new ErroRegraNegocio('O aluno já está com um exemplar deste livro.', 409, 'LIVRO_JA_EMPRESTADO_ALUNO');
+                }
+
+                // cada aluno pode ter apenas uma reserva ativa por livro
+                const respostaDuplicada = await cliente.query(
+                    `SELECT 1 FROM Reserva WHERE id_aluno = $1 AND id_livro = $2 AND status_reserva IN ($3, $4)`,
+                    [idAluno, idLivro, STATUS_RESERVA.AGUARDANDO, STATUS_RESERVA.DISPONIVEL]
+                );
+
+                if (respostaDuplicada.rows.length > 0) {
+                    throw new ErroRegraNegocio('O aluno já possui uma reserva ativa para este livro.', 409, 'RESERVA_DUPLICADA');
+                }
+
+                const resultado = await cliente.query(
+                    `INSERT INTO Reserva (id_aluno, id_livro, status_reserva) VALUES ($1, $2, $3) RETURNING id_reserva`,
+                    [idAluno, idLivro, STATUS_RESERVA.AGUARDANDO]
+                );
+
+                const respostaPosicao = await cliente.query(
+                    `SELECT COUNT(*)::int AS posicao FROM Reserva WHERE id_livro = $1 AND status_reserva = $2`,
+                    [idLivro, STATUS_RESERVA.AGUARDANDO]
+                );
+
+                console.log(`Reserva cadastrada com sucesso! ID: ${resultado.rows[0].id_reserva}`);
+                return { idReserva: resultado.rows[0].id_reserva, posicao: respostaPosicao.rows[0].posicao };
+            });
+        } catch (error) {
+            // erros de regra de negócio são repassados para o controlador
+            if (error instanceof ErroRegraNegocio) {
+                throw error;
+            }
+            console.error(`Erro ao cadastrar reserva: ${error}`);
+            throw new Error('Erro ao cadastrar a reserva.');
+        }
+    }
+
+    /**
+     * Retorna a fila de reservas ativas de um livro: primeiro a reserva com exemplar separado (se houver)
+     * e depois as reservas aguardando, na ordem de chegada
+     *
+     * @param idLivro ID do livro
+     * @returns Lista de reservas ativas do livro
+     */
+    static async listarFila(idLivro: number): Promise<Array<any>> {
+        const respostaBD = await database.query(
+            `SELECT r.id_reserva, r.id_aluno, r.status_reserva, r.data_reserva, r.data_disponibilidade, r.data_expiracao,
+                    a.ra, a.nome, a.sobrenome, a.email,
+                    CASE WHEN r.status_reserva = $2
+                         THEN ROW_NUMBER() OVER (PARTITION BY r.status_reserva ORDER BY r.data_reserva, r.id_reserva)
+                    END AS posicao
+             FROM Reserva r
+             JOIN Aluno a ON a.id_aluno = r.id_aluno
+             WHERE r.id_livro = $1 AND r.status_reserva IN ($2, $3)
+             ORDER BY r.status_reserva = $2, r.data_reserva, r.id_reserva`,
+            [idLivro, STATUS_RESERVA.AGUARDANDO, STATUS_RESERVA.DISPONIVEL]
+        );
+
+        return respostaBD.rows.map((linha: any) => ({
+            idReserva: linha.id_reserva,
+            idAluno: linha.id_aluno,
+            statusReserva: linha.status_reserva,
+            posicao: linha.posicao ? parseInt(linha.posicao) : null,
+            dataReserva: linha.data_reserva,
+            dataDisponibilidade: linha.data_disponibilidade,
+            dataExpiracao: linha.data_expiracao,
+            aluno: {
+                ra: linha.ra,
+                nome: linha.nome,
+                sobrenome: linha.sobrenome,
+                email: linha.email
+            }
+        }));
+    }
+
+    /**
+     * Cancela uma reserva ativa. Caso o exemplar já estivesse separado para o aluno,
+     * ele passa para o próximo da fila ou volta a ficar disponível.
+     *
+     * @param idReserva ID da reserva
+     * @param idAluno Quando informado, somente reservas deste aluno podem ser canceladas
+     * @throws ErroRegraNegocio caso a reserva não exista (404) ou não esteja ativa (409)
+     */
+    static async cancelarReserva(idReserva: number, idAluno?: number): Promise<void> {
+        let reservaAtribuida: ReservaAtribuida | null = null;
+
+        try {
+            reservaAtribuida = await DataBaseModel.transacao(database, async (cliente) => {
+                const idLivro = await Reserva.buscarLivroReserva(cliente, idReserva);
+
+                // bloqueia o livro antes da reserva, na mesma ordem do empréstimo e da devolução
+                await cliente.query(`SELECT 1 FROM Livro WHERE id_livro = $1 FOR UPDATE`, [idLivro]);
+
+                const respostaReserva = await cliente.query(
+                    `SELECT id_aluno, status_reserva, id_exemplar FROM Reserva WHERE id_reserva = $1 FOR UPDATE`,
+                    [idReserva]
+                );
+
+                const reserva = respostaReserva.rows[0];
+
+                if (idAluno !== undefined && reserva.id_aluno !== idAluno) {
+                    throw new ErroRegraNegocio('Reserva não encontrada.', 404, 'RESERVA_NAO_ENCONTRADA');
+                }
+
+                if (reserva.status_reserva !== STATUS_RESERVA.AGUARDANDO && reserva.status_reserva !== STATUS_RESERVA.DISPONIVEL) {
+                    throw new ErroRegraNegocio('Esta reserva não está mais ativa.', 409, 'RESERVA_INATIVA');
+                }
+
+                await cliente.query(
+                    `UPDATE Reserva SET status_reserva = $2, data_encerramento = NOW() WHERE id_reserva = $1`,
+                    [idReserva, STATUS_RESERVA.CANCELADA]
+                );
+
+                // libera o exemplar que estava separado para o aluno
+                if (reserva.status_reserva === STATUS_RESERVA.DISPONIVEL && reserva.id_exemplar) {
+                    return Reserva.liberarExemplar(cliente, idLivro, reserva.id_exemplar);
+                }
+
+                return null;
+            });
+        } catch (error) {
+            if (error instanceof ErroRegraNegocio) {
+                throw error;
+            }
+            console.error(`Erro ao cancelar reserva: ${error}`);
+            throw new Error('Erro ao cancelar a reserva.');
+        }
+
+        if (reservaAtribuida) {
+            await Reserva.notificarDisponibilidade(reservaAtribuida);
+        }
+    }
+
+    /**
+     * Encerra as reservas cujo prazo de retirada terminou, passando o exemplar para o próximo da fila
+     *
+     * @returns Lista com as reservas expiradas
+     */
+    static async expirarReservas(): Promise<Array<any>> {
+        const respostaBD = await database.query(
+            `SELECT id_reserva, id_livro FROM Reserva WHERE status_reserva = $1 AND data_expiracao < NOW() ORDER BY data_expiracao`,
+            [STATUS_RESERVA.DISPONIVEL]
+        );
+
+        const reservasExpiradas: Array<any> = [];
+
+        // cada reserva é encerrada em sua própria transação, com o livro bloqueado
+        for (const linha of respostaBD.rows) {
+            const resultado = await DataBaseModel.transacao(database, async (cliente) => {
+                await cliente.query(`SELECT 1 FROM Livro WHERE id_livro = $1 FOR UPDATE`, [linha.id_livro]);
+
+                // a reserva pode ter sido atendida ou cancelada depois da consulta
+                const atualizada = await cliente.query(
+                    `UPDATE Reserva SET status_reserva = $2, data_encerramento = NOW()
+                     WHERE id_reserva = $1 AND status_reserva = $3 AND data_expiracao < NOW()
+                     RETURNING id_aluno, id_exemplar`,
+                    [linha.id_reserva, STATUS_RESERVA.EXPIRADA, STATUS_RESERVA.DISPONIVEL]
+                );
+
+                if (atualizada.rows.length === 0) {
+                    return null;
+                }
+
+                const idExemplar = atualizada.rows[0].id_exemplar;
+                const proxima = idExemplar ? await Reserva.liberarExemplar(cliente, linha.id_livro, idExemplar) : null;
+
+                return {
+                    idReserva: linha.id_reserva,
+                    idAluno: atualizada.rows[0].id_aluno,
+                    idLivro: linha.id_livro,
+                    proximaReserva: proxima
+                };
+            });
+
+            if (resultado) {
+                reservasExpiradas.push({ idReserva: resultado.idReserva, idAluno: resultado.idAluno, idLivro: resultado.idLivro });
+
+                if (resultado.proximaReserva) {
+                    await Reserva.notificarDisponibilidade(resultado.proximaReserva);
+                }
+            }
+        }
+
+        return reservasExpiradas;
+    }
+
+    /**
+     * Separa o exemplar para o primeiro aluno da fila do livro, marcando o exemplar como reservado.
+     * Deve ser executado dentro da transação que bloqueou o registro do livro.
+     *
+     * @param cliente Conexão da transação em andamento
+     * @param idLivro ID do livro
+     * @param idExemplar ID do exemplar devolvido ou liberado
+     * @returns Reserva que recebeu o exemplar ou null caso a fila esteja vazia
+     */
+    static async atribuirProximaReserva(cliente: pg.PoolClient, idLivro: number, idExemplar: number): Promise<ReservaAtribuida | null> {
+        const respostaBD = await cliente.query(
+            `UPDATE Reserva r
+             SET status_reserva = $2,
+                 id_exemplar = $5,
+                 data_disponibilidade = NOW(),
+                 data_expiracao = NOW() + ($3 || ' days')::interval
+             FROM Aluno a, Livro l
+             WHERE r.id_reserva = (
+                 SELECT id_reserva FROM Reserva
+                 WHERE id_livro = $1 AND status_reserva = $4
+                 ORDER BY data_reserva, id_reserva
+                 LIMIT 1
+                 FOR UPDATE
+             )
+             AND a.id_aluno = r.id_aluno AND l.id_livro = r.id_livro
+             RETURNING r.id_reserva, r.id_aluno, r.id_livro, r.data_expiracao, a.nome, a.email, l.titulo`,
+            [idLivro, STATUS_RESERVA.DISPONIVEL, POLITICA_EMPRESTIMO.RESERVA_VALIDADE_DIAS, STATUS_RESERVA.AGUARDANDO, idExemplar]
+        );
+
+        if (respostaBD.rows.length === 0) {
+            return null;
+        }
+
+        await cliente.query(
+            `UPDATE Exemplar SET situacao = $2 WHERE id_exemplar = $1`,
+            [idExemplar, SITUACAO_EXEMPLAR.RESERVADO]
+        );
+
+        const linha = respostaBD.rows[0];
+
+        return {
+            idReserva: linha.id_reserva,
+            idAluno: linha.id_aluno,
+            idLivro: linha.id_livro,
+            idExemplar: idExemplar,
+            nomeAluno: linha.nome,
+            emailAluno: linha.email,
+            titulo: linha.titulo,
+            dataExpiracao: linha.data_expiracao
+        };
+    }
+
+    /**
+     * Marca como atendida a reserva com exemplar separado do aluno para o livro, caso exista.
+     * Deve ser executado dentro da transação do empréstimo, com o registro do livro bloqueado.
+     *
+     * @param cliente Conexão da transação em andamento
+     * @param idAluno ID do aluno
+     * @param idLivro ID do livro
+     * @param idEmprestimo ID do empréstimo que atendeu a reserva
+     * @returns **true** caso o aluno tivesse um exemplar separado
+     */
+    static async atenderReserva(cliente: pg.PoolClient, idAluno: number, idLivro: number, idEmprestimo: number): Promise<boolean> {
+        const respostaBD = await cliente.query(
+            `UPDATE Reserva SET status_reserva = $4, id_emprestimo = $3, data_encerramento = NOW()
+             WHERE id_aluno = $1 AND id_livro = $2 AND status_reserva = $5`,
+            [idAluno, idLivro, idEmprestimo, STATUS_RESERVA.ATENDIDA, STATUS_RESERVA.DISPONIVEL]
+        );
+
+        return (respostaBD.rowCount ?? 0) > 0;
+    }
+
+    /**
+     * Retorna o exemplar separado para o aluno por uma reserva do livro, bloqueando o registro do exemplar
+     *
+     * @param cliente Conexão da transação em andamento
+     * @param idAluno ID do aluno
+     * @param idLivro ID do livro
+     * @returns ID do exemplar separado ou null caso o aluno não tenha exemplar separado
+     */
+    static async buscarExemplarSeparado(cliente: pg.PoolClient, idAluno: number, idLivro: number): Promise<number | null> {
+        const respostaBD = await cliente.query(
+            `SELECT x.id_exemplar FROM Reserva r
+             JOIN Exemplar x ON x.id_exemplar = r.id_exemplar
+             WHERE r.id_aluno = $1 AND r.id_livro = $2 AND r.status_reserva = $3
+             FOR UPDATE OF x`,
+            [idAluno, idLivro, STATUS_RESERVA.DISPONIVEL]
+        );
+
+        return respostaBD.rows.length > 0 ? respostaBD.rows[0].id_exemplar : null;
+    }
+
+    /**
+     * Verifica se existem reservas ativas (aguardando ou com exemplar separado) para o livro
+     *
+     * @param cliente Conexão a ser utilizada
+     * @param idLivro ID do livro
+     */
+    static async possuiReservasPendentes(cliente: pg.Pool | pg.PoolClient, idLivro: number): Promise<boolean> {
+        const respostaBD = await cliente.query(
+            `SELECT 1 FROM Reserva WHERE id_livro = $1 AND status_reserva IN ($2, $3) LIMIT 1`,
+            [idLivro, STATUS_RESERVA.AGUARDANDO, STATUS_RESERVA.DISPONIVEL]
+        );
+
+        return respostaBD.rows.length > 0;
+    }
+
+    /**
+     * Envia ao aluno o aviso de que o exemplar reservado está disponível para retirada.
+     * Falhas no envio são apenas registradas, pois a reserva já foi atribuída.
+     *
+     * @param reserva Reserva que recebeu o exemplar
+     */
+    static async notificarDisponibilidade(reserva: ReservaAtribuida): Promise<void> {
+        if (!reserva.emailAluno) {
+            console.log(`Reserva ${reserva.idReserva}: aluno sem e-mail cadastrado, aviso de disponibilidade não enviado`);
+            return;
+        }
+
+        try {
+            await Email.enviar({
+                para: reserva.emailAluno,
+                assunto: 'Livro reservado disponível para retirada',
+                texto: `Olá, ${reserva.nomeAluno}.\n\n` +
+                    `Um exemplar do livro "${reserva.titulo}" está separado para você.\n` +
+                    `Faça a retirada na biblioteca até ${new Date(reserva.dataExpiracao).toLocaleDateString('pt-BR')}; ` +
+                    `depois dessa data a reserva expira e o exemplar passa para o próximo da fila.`
+            });
+        } catch (error) {
+            console.error(`Erro ao enviar aviso da reserva ${reserva.idReserva}: ${error}`);
+        }
+    }
+
+    /**
+     * Passa o exemplar liberado (devolvido ou de uma reserva encerrada) para o próximo da fila
+     * ou, se a fila estiver vazia, torna o exemplar disponível.
+     * Deve ser executado dentro da transação que bloqueou o registro do livro.
+     *
+     * @param cliente Conexão da transação em andamento
+     * @param idLivro ID do livro
+     * @param idExemplar ID do exemplar liberado
+     * @returns Reserva que recebeu o exemplar ou null caso a fila esteja vazia
+     */
+    static async liberarExemplar(cliente: pg.PoolClient, idLivro: number, idExemplar: number): Promise<ReservaAtribuida | null> {
+        const proxima = await Reserva.atribuirProximaReserva(cliente, idLivro, idExemplar);
+
+        if (!proxima) {
+            await cliente.query(
+                `UPDATE Exemplar SET situacao = $2 WHERE id_exemplar = $1`,
+                [idExemplar, SITUACAO_EXEMPLAR.DISPONIVEL]
+            );
+        }
+
+        return proxima;
+    }
+
+    /**
+     * Retorna o livro da reserva
+     */
+    private static async buscarLivroReserva(cliente: pg.PoolClient, idReserva: number): Promise<number> {
+        const respostaBD = await cliente.query(`SELECT id_livro FROM Reserva WHERE id_reserva = $1`, [idReserva]);
+
+        if (respostaBD.rows.length === 0) {
+            throw new ErroRegraNegocio('Reserva não encontrada.', 404, 'RESERVA_NAO_ENCONTRADA');
+        }
+
+        return respostaBD.rows[0].id_livro;
+    }
+}
@@ -0,0 +1,185 @@
+import crypto from 'crypto'; // Módulo nativo do Node para funções criptográficas
+import pg from 'pg';
+import { DataBaseModel } from "./DataBaseModel";
+
+// Recupera conexão com o banco de dados
+const database = new DataBaseModel().pool;
+
+/**
+ * Tempo de validade do refresh token, em dias (padrão: 7)
+ */
+const VALIDADE_REFRESH_TOKEN_DIAS = parseInt(process.env.REFRESH_TOKEN_EXPIRES_DAYS ?? '7');
+
+/**
+ * Interface SessaoRenovada
+ * Define as informações retornadas quando uma sessão é criada ou renovada
+ */
+export interface SessaoRenovada {
+    uuidSessao: string;     // Identificador da sessão, gravado no token de acesso
+    uuidUsuario: string;    // UUID do usuário dono da sessão
+    refreshToken: string;   // Novo refresh token em texto puro, que deve ser enviado ao cliente
+}
+
+/**
+ * Classe responsável pelas sessões dos usuários e pelos refresh tokens.
+ *
+ * Cada login cria uma sessão no servidor. O token de acesso (JWT, de curta duração) guarda o
+ * identificador da sessão e o refresh token permite obter um novo token de acesso. A cada uso
+ * o refresh token é substituído por um novo (rotação); caso um refresh token já utilizado seja
+ * apresentado novamente, a sessão inteira é revogada, pois o token provavelmente vazou.
+ */
+export class Sessao {
+
+    /**
+     * Cria uma nova sessão para o usuário
+     *
+     * @param idUsuario ID do usuário
+     * @returns Identificador da sessão e o primeiro refresh token
+     */
+    static async criarSessao(idUsuario: number): Promise<SessaoRenovada> {
+        return DataBaseModel.transacao(database, async (cliente) => {
+            // Cria a sessão retornando o seu UUID e o UUID do usuário
+            const respostaBD = await cliente.query(
+                `INSERT INTO sessao (id_usuario) VALUES ($1)
+                 RETURNING id_sessao, uuid, (SELECT uuid FROM usuario WHERE id_usuario = $1) AS uuid_usuario`,
+                [idUsuario]
+            );
+
+            const { id_sessao, uuid, uuid_usuario } = respostaBD.rows[0];
+            const refreshToken = await Sessao.gerarRefreshToken(cliente, id_sessao);
+
+            return { uuidSessao: uuid, uuidUsuario: uuid_usuario, refreshToken };
+        });
+    }
+
+    /**
+     * Troca um refresh token válido por um novo (rotação).
+     * A reutilização de um refresh token já trocado revoga toda a sessão.
+     *
+     * @param refreshToken Refresh token apresentado pelo cliente
+     * @returns Informações da sessão renovada ou null caso o token seja inválido
+     */
+    static async renovarSessao(refreshToken: string): Promise<SessaoRenovada | null> {
+        return DataBaseModel.transacao(database, async (cliente) => {
+            // Recupera o refresh token e a sessão, bloqueando os registros
+            const respostaBD = await cliente.query(
+                `SELECT r.id_refresh_token, r.data_uso, r.data_expiracao, s.id_sessao, s.uuid, s.data_revogacao,
+                        u.uuid AS uuid_usuario, u.status_usuario
+                 FROM refresh_token r
+                 JOIN sessao s ON s.id_sessao = r.id_sessao
+                 JOIN usuario u ON u.id_usuario = s.id_usuario
+                 WHERE r.token_hash = $1
+                 FOR UPDATE OF r, s`,
+                [Sessao.hashToken(refreshToken)]
+            );
+
+            if (respostaBD.rows.length === 0) {
+                return null;
+            }
+
+            const linha = respostaBD.rows[0];
+
+            // Sessão já encerrada ou usuário desativado
+            if (linha.data_revogacao || !linha.status_usuario) {
+                return null;
+            }
+
+            // Refresh token reutilizado: revoga a sessão inteira
+            if (linha.data_uso) {
+                await cliente.query(
+                    `UPDATE sessao SET data_revogacao = NOW(), motivo_revogacao = 'reutilizacao_refresh_token' WHERE id_sessao = $1`,
+                    [linha.id_sessao]
+                );
+                return null;
+            }
+
+            // Refresh token expirado
+            if (new Date(linha.data_expiracao) <= new Date()) {
+                return null;
+            }
+
+            // Marca o refresh token atual como utilizado e gera o próximo
+            await cliente.query(`UPDATE refresh_token SET data_uso = NOW() WHERE id_refresh_token = $1`, [linha.id_refresh_token]);
+            const novoRefreshToken = await Sessao.gerarRefreshToken(cliente, linha.id_sessao);
+
+            return { uuidSessao: linha.uuid, uuidUsuario: linha.uuid_usuario, refreshToken: novoRefreshToken };
+        });
+    }
+
+    /**
+     * Verifica se a sessão continua ativa (não revogada e com o usuário ativo)
+     *
+     * @param uuidSessao Identificador da sessão
+     * @returns **true** caso a sessão esteja ativa
+     */
+    static async sessaoAtiva(uuidSessao: string): Promise<boolean> {
+        try {
+            const respostaBD = await database.query(
+                `SELECT 1 FROM sessao s
+                 JOIN usuario u ON u.id_usuario = s.id_usuario
+                 WHERE s.uuid = $1 AND s.data_revogacao IS NULL AND u.status_usuario = TRUE`,
+                [uuidSessao]
+            );
+
+            return respostaBD.rows.length > 0;
+        } catch (error) {
+            console.log(`Erro ao verificar sessão: ${error}`);
+            return false;
+        }
+    }
+
+    /**
+     * Revoga (encerra) uma sessão
+     *
+     * @param uuidSessao Identificador da sessão
+     * @param motivo Motivo da revogação
+     * @returns **true** caso a sessão tenha sido revogada
+     */
+    static async revogarSessao(uuidSessao: string, motivo: string): Promise<boolean> {
+        const respostaBD = await database.query(
+            `UPDATE sessao SET data_revogacao = NOW(), motivo_revogacao = $2 WHERE uuid = $1 AND data_revogacao IS NULL`,
+            [uuidSessao, motivo]
+        );
+
+        return respostaBD.rowCount != 0;
+    }
+
+    /**
+     * Revoga todas as sessões ativas de um usuário
+     *
+     * @param idUsuario ID do usuário
+     * @param motivo Motivo da revogação
+     * @param cliente Conexão a ser utilizada, para executar dentro de uma transação (opcional)
+     * @returns Quantidade de sessões revogadas
+     */
+    static async revogarSessoesUsuario(idUsuario: number, motivo: string, cliente: pg.Pool | pg.PoolClient = database): Promise<number> {
+        const respostaBD = await cliente.query(
+            `UPDATE sessao SET data_revogacao = NOW(), motivo_revogacao = $2 WHERE id_usuario = $1 AND data_revogacao IS NULL`,
+            [idUsuario, motivo]
+        );
+
+        return respostaBD.rowCount ?? 0;
+    }
+
+    /**
+     * Gera e grava um novo refresh token para a sessão
+     */
+    private static async gerarRefreshToken(cliente: pg.PoolClient, idSessao: number): Promise<string> {
+        const refreshToken = crypto.randomBytes(32).toString('base64url');
+
+        await cliente.query(
+            `INSERT INTO refresh_token (id_sessao, token_hash, data_expiracao)
+             VALUES ($1, $2, NOW() + ($3 || ' days')::interval)`,
+            [idSessao, Sessao.hashToken(refreshToken), VALIDADE_REFRESH_TOKEN_DIAS]
+        );
+
+        return refreshToken;
+    }
+
+    /**
+     * Calcula o hash SHA-256 do refresh token, que é o valor gravado no banco de dados
+     */
+    private static hashToken(token: string): string {
+        return crypto.createHash('sha256').update(token).digest('hex');
+    }
+}
@@ -0,0 +1,187 @@
+import pg from 'pg';
+import { DataBaseModel } from "./DataBaseModel";
+import { ErroRegraNegocio } from "../util/ErroRegraNegocio";
+
+// Recupera conexão com o banco de dados
+const database = new DataBaseModel().pool;
+
+/**
+ * Interface DadosTurma
+ * Define os dados informados no cadastro e na atualização de uma turma
+ */
+export interface DadosTurma {
+    codigo: string;                 // Identificador da turma nos arquivos importados (ex.: 3A-2025-1)
+    nome?: string;                  // Nome de exibição (o código quando não informado)
+    periodo?: string | null;        // Período letivo (ex.: 2025/1)
+}
+
+/**
+ * Classe que representa uma turma.
+ *
+ * Cada aluno pertence a no máximo uma turma (Aluno.id_turma). As turmas são atribuídas na importação
+ * da lista de alunos, que também cadastra as turmas ainda não existentes a partir do código.
+ */
+export class Turma {
+
+    /**
+     * Retorna as turmas cadastradas, com a quantidade de alunos ativos de cada uma
+     *
+     * @param busca Trecho do código ou do nome da turma (opcional)
+     * @returns Lista de turmas ordenada pelo código
+     */
+    static async listarTurmas(busca?: string): Promise<Array<any>> {
+        const respostaBD = await database.query(
+            `SELECT t.id_turma, t.codigo, t.nome, t.periodo, COUNT(a.id_aluno) AS quant_alunos
+             FROM Turma t
+             LEFT JOIN Aluno a ON a.id_turma = t.id_turma AND a.status_aluno = TRUE
+             WHERE $1::text IS NULL OR t.codigo ILIKE '%' || $1 || '%' OR t.nome ILIKE '%' || $1 || '%'
+             GROUP BY t.id_turma, t.codigo, t.nome, t.periodo
+             ORDER BY t.codigo`,
+            [busca || null]
+        );
+
+        return respostaBD.rows.map((linha: any) => ({
+            idTurma: linha.id_turma,
+            codigo: linha.codigo,
+            nome: linha.nome,
+            periodo: linha.periodo,
+            quantAlunos: parseInt(linha.quant_alunos)
+        }));
+    }
+
+    /**
+     * Cadastra uma nova turma
+     *
+     * @param dados Código, nome e período da turma
+     * @returns Turma cadastrada
+     * @throws ErroRegraNegocio caso já exista uma turma com o mesmo código (409)
+     */
+    static async cadastrarTurma(dados: DadosTurma): Promise<any> {
+        try {
+            const respostaBD = await database.query(
+                `INSERT INTO Turma (codigo, nome, periodo) VALUES ($1, $2, $3) RETURNING id_turma, codigo, nome, periodo`,
+                [dados.codigo.trim(), dados.nome?.trim() || dados.codigo.trim(), dados.periodo || null]
+            );
+
+            return Turma.montarTurma(respostaBD.rows[0]);
+        } catch (error) {
+            throw Turma.tratarErro(error, 'cadastrar');
+        }
+    }
+
+    /**
+     * Altera o código, o nome ou o período da turma
+     *
+     * @param idTurma ID da turma
+     * @param dados Novos dados da turma
+     * @throws ErroRegraNegocio caso a turma não exista (404) ou o código já pertença a outra turma (409)
+     */
+    static async atualizarTurma(idTurma: number, dados: DadosTurma): Promise<void> {
+        try {
+            const respostaBD = await database.query(
+                `UPDATE Turma SET codigo = $2, nome = $3, periodo = $4 WHERE id_turma = $1`,
+                [idTurma, dados.codigo.trim(), dados.nome?.trim() || dados.codigo.trim(), dados.periodo || null]
+            );
+
+            if (respostaBD.rowCount === 0) {
+                throw new ErroRegraNegocio('Turma não encontrada.', 404, 'TURMA_NAO_ENCONTRADA');
+            }
+        } catch (error) {
+            throw Turma.tratarErro(error, 'atualizar');
+        }
+    }
+
+    /**
+     * Remove uma turma sem alunos ativos.
+     * Os alunos já desativados deixam de referenciar a turma.
+     *
+     * @param idTurma ID da turma
+     * @throws ErroRegraNegocio caso a turma não exista (404) ou tenha alunos ativos (409)
+     */
+    static async removerTurma(idTurma: number): Promise<void> {
+        try {
+            await DataBaseModel.transacao(database, async (cliente) => {
+                const respostaAlunos = await cliente.query(
+                    `SELECT COUNT(*) AS quant_alunos FROM Aluno WHERE id_turma = $1 AND status_aluno = TRUE`,
+                    [idTurma]
+                );
+
+                if (parseInt(respostaAlunos.rows[0].quant_alunos) > 0) {
+                    throw new ErroRegraNegocio('A turma possui alunos ativos e não pode ser removida.', 409, 'TURMA_COM_ALUNOS');
+                }
+
+                await cliente.query(`UPDATE Aluno SET id_turma = NULL WHERE id_turma = $1`, [idTurma]);
+                const respostaBD = await cliente.query(`DELETE FROM Turma WHERE id_turma = $1`, [idTurma]);
+
+                if (respostaBD.rowCount === 0) {
+                    throw new ErroRegraNegocio('Turma não encontrada.', 404, 'TURMA_NAO_ENCONTRADA');
+                }
+            });
+        } catch (error) {
+            throw Turma.tratarErro(error, 'remover');
+        }
+    }
+
+    /**
+     * Procura as turmas pelo código, sem diferenciar maiúsculas de minúsculas.
+     * Com o parâmetro criar, as turmas ainda não cadastradas são criadas (com o código como nome).
+     *
+     * @param cliente Conexão com o banco de dados (a da transação em andamento, ao criar as turmas)
+     * @param codigos Códigos das turmas
+     * @param criar Cadastra as turmas não encontradas
+     * @returns Turmas encontradas ou criadas, indexadas pelo código em maiúsculas
+     */
+    static async localizarTurmas(cliente: pg.Pool | pg.PoolClient, codigos: string[], criar: boolean = false): Promise<Map<string, any>> {
+        const turmas = new Map<string, any>();
+        const codigosUnicos = [...new Set(codigos.map((codigo) => codigo.trim()).filter((codigo) => codigo !== ''))];
+
+        if (codigosUnicos.length === 0) {
+            return turmas;
+        }
+
+        const respostaBD = await cliente.query(
+            `SELECT id_turma, codigo, nome, periodo FROM Turma WHERE UPPER(codigo) = ANY($1::text[])`,
+            [codigosUnicos.map((codigo) => codigo.toUpperCase())]
+        );
+        respostaBD.rows.forEach((linha: any) => turmas.set(linha.codigo.toUpperCase(), Turma.montarTurma(linha)));
+
+        if (criar) {
+            for (const codigo of codigosUnicos.filter((codigo) => !turmas.has(codigo.toUpperCase()))) {
+                // DO UPDATE sem alterar o código, apenas para que o RETURNING devolva a turma criada por outra importação
+                const respostaTurma = await cliente.query(
+                    `INSERT INTO Turma (codigo, nome) VALUES ($1, $1)
+                     ON CONFLICT ((UPPER(codigo))) DO UPDATE SET codigo = Turma.codigo
+                     RETURNING id_turma, codigo, nome, periodo`,
+                    [codigo]
+                );
+                turmas.set(codigo.toUpperCase(), Turma.montarTurma(respostaTurma.rows[0]));
+            }
+        }
+
+        return turmas;
+    }
+
+    /**
+     * Monta o objeto de resposta da turma a partir da linha do banco de dados
+     */
+    private static montarTurma(linha: any): any {
+        return { idTurma: linha.id_turma, codigo: linha.codigo, nome: linha.nome, periodo: linha.periodo };
+    }
+
+    /**
+     * Converte os erros do banco de dados em erros de regra de negócio
+     */
+    private static tratarErro(error: any, operacao: string): Error {
+        if (error instanceof ErroRegraNegocio) {
+            return error;
+        }
+
+        // violação de chave única (código já cadastrado)
+        if (error?.code === '23505') {
+            return new ErroRegraNegocio('Já existe uma turma cadastrada com este código.', 409, 'TURMA_DUPLICADA');
+        }
+
+        console.error(`Erro ao ${operacao} turma: ${error}`);
+        return new Error(`Erro ao ${operacao} a turma.`);
+    }
+}
@@ -1,4 +1,8 @@
 import { DataBaseModel } from "./DataBaseModel";
+import { Senha } from "../util/Senha";
+import { PERFIS_USUARIO, PerfilUsuario } from "../appConfig";
+import { ErroRegraNegocio } from "../util/ErroRegraNegocio";
+import { Sessao } from "./Sessao";
 
 // Recupera conexão com o banco de dados
 const database = new DataBaseModel().pool;
@@ -14,6 +18,9 @@ export class Usuario {
     private email: string; // Endereço de e-mail do usuário
     private senha: string = ''; // Senha do usuário
     private imagemPerfil: string = '' // Imagem de perfil do usuário
+    private trocaSenhaObrigatoria: boolean = false; // Indica se o usuário deve definir uma nova senha no próximo login
+    private perfil: PerfilUsuario = PERFIS_USUARIO.ALUNO; // Perfil de acesso do usuário
+    private statusUsuario: boolean = true; // Indica se o usuário está ativo no sistema
 
     /**
      * Construtor da classe Usuario
@@ -144,6 +151,63 @@ export class Usuario {
         this.imagemPerfil = imagem;
     }
 
+    /**
+     * Retorna se o usuário deve trocar a senha no próximo login
+     * @returns trocaSenhaObrigatoria **true** caso a troca seja obrigatória
+     */
+    public getTrocaSenhaObrigatoria(): boolean {
+        return this.trocaSenhaObrigatoria;
+    }
+
+    /**
+     * Atribui um valor à obrigatoriedade de troca de senha
+     * @param trocaSenhaObrigatoria **true** caso a troca seja obrigatória
+     */
+    public setTrocaSenhaObrigatoria(trocaSenhaObrigatoria: boolean): void {
+        this.trocaSenhaObrigatoria = trocaSenhaObrigatoria;
+    }
+
+    /**
+     * Retorna o perfil de acesso do usuário
+     * @returns perfil Perfil de acesso (admin, bibliotecario ou aluno)
+     */
+    public getPerfil(): PerfilUsuario {
+        return this.perfil;
+    }
+
+    /**
+     * Atribui um valor ao perfil de acesso do usuário
+     * @param perfil Perfil de acesso (admin, bibliotecario ou aluno)
+     */
+    public setPerfil(perfil: PerfilUsuario): void {
+        this.perfil = perfil;
+    }
+
+    /**
+     * Retorna o status do usuário no sistema
+     * @returns statusUsuario **true** caso o usuário esteja ativo
+     */
+    public getStatusUsuario(): boolean {
+        return this.statusUsuario;
+    }
+
+    /**
+     * Atribui um valor ao status do usuário no sistema
+     * @param statusUsuario **true** para ativo, **false** para desativado
+     */
+    public setStatusUsuario(statusUsuario: boolean): void {
+        this.statusUsuario = statusUsuario;
+    }
+
+    /**
+     * Verifica se o valor informado é um perfil de acesso válido
+     * @param perfil Valor a ser verificado
+     * @returns **true** caso seja um perfil válido
+     */
+    static perfilValido(perfil: string): perfil is PerfilUsuario {
+        return (Object.values(PERFIS_USUARIO) as string[]).includes(perfil);
+    }
+
     /**
      * Retorna uma lista com todos os usuários cadastrados no banco de dados
      * @returns Lista com todos os usuários cadastrados ou null em caso de erro
@@ -154,7 +218,7 @@ export class Usuario {
 
         try {
             // Query para recuperar todos os usuários cadastrados
-            const querySelectUsuarios = `SELECT * FROM usuario`;
+            const querySelectUsuarios = `SELECT * FROM usuario ORDER BY nome`;
 
             // Executa a query no banco de dados
             const respostaBD = await database.query(querySelectUsuarios);
@@ -171,6 +235,9 @@ export class Usuario {
                 // Atribui os valores adicionais ao objeto
                 novoUsuario.setIdUsuario(usuario.id_usuario);
                 novoUsuario.setUuidUsuario(usuario.uuid);
+                novoUsuario.setPerfil(usuario.perfil);
+                novoUsuario.setStatusUsuario(usuario.status_usuario);
+                novoUsuario.setImagemPerfil(usuario.imagem_perfil);
 
                 // Adiciona o usuário à lista
                 listaDeUsuarios.push(novoUsuario);
@@ -185,6 +252,114 @@ export class Usuario {
         }
     }
 
+    /**
+     * Busca um usuário pelo username ou pelo e-mail, utilizado no login
+     *
+     * @param login Username ou e-mail do usuário
+     * @returns Usuário encontrado (com a senha) ou null caso não exista
+     */
+    static async buscarUsuarioLogin(login: string): Promise<Usuario | null> {
+        try {
+            // Query para recuperar o usuário pelo username ou e-mail
+            const query = `SELECT * FROM usuario WHERE username = $1 OR email = $1`;
+
+            // Executa a query no banco de dados
+            const respostaBD = await database.query(query, [login]);
+
+            // Verifica se o usuário foi encontrado
+            if (respostaBD.rows.length === 0) {
+                return null;
+            }
+
+            // Cria o objeto Usuario com os dados retornados
+            const linha = respostaBD.rows[0];
+            const usuario = new Usuario(linha.nome, linha.username, linha.email);
+            usuario.setIdUsuario(linha.id_usuario);
+            usuario.setUuidUsuario(linha.uuid);
+            usuario.setSenha(linha.senha);
+            usuario.setImagemPerfil(linha.imagem_perfil);
+            usuario.setTrocaSenhaObrigatoria(linha.troca_senha_obrigatoria);
+            usuario.setPerfil(linha.perfil);
+            usuario.setStatusUsuario(linha.status_usuario);
+
+            // Retorna o usuário encontrado
+            return usuario;
+        } catch (error) {
+            // Em caso de erro, exibe uma mensagem no console e retorna null
+            console.log(`Erro ao buscar usuário. ${error}`);
+            return null;
+        }
+    }
+
+    /**
+     * Busca um usuário pelo UUID
+     *
+     * @param uuid UUID do usuário
+     * @returns Usuário encontrado (com a senha) ou null caso não exista
+     */
+    static async buscarUsuario(uuid: string): Promise<Usuario | null> {
+        try {
+            // Query para recuperar o usuário pelo UUID
+            const query = `SELECT * FROM usuario WHERE uuid = $1`;
+
+            // Executa a query no banco de dados
+            const respostaBD = await database.query(query, [uuid]);
+
+            // Verifica se o usuário foi encontrado
+            if (respostaBD.rows.length === 0) {
+                return null;
+            }
+
+            // Cria o objeto Usuario com os dados retornados
+            const linha = respostaBD.rows[0];
+            const usuario = new Usuario(linha.nome, linha.username, linha.email);
+            usuario.setIdUsuario(linha.id_usuario);
+            usuario.setUuidUsuario(linha.uuid);
+            usuario.setSenha(linha.senha);
+            usuario.setImagemPerfil(linha.imagem_perfil);
+            usuario.setTrocaSenhaObrigatoria(linha.troca_senha_obrigatoria);
+            usuario.setPerfil(linha.perfil);
+            usuario.setStatusUsuario(linha.status_usuario);
+
+            // Retorna o usuário encontrado
+            return usuario;
+        } catch (error) {
+            // Em caso de erro (inclusive UUID em formato inválido), exibe uma mensagem no console e retorna null
+            console.log(`Erro ao buscar usuário. ${error}`);
+            return null;
+        }
+    }
+
+    /**
+     * Verifica se o username ou o e-mail já estão em uso por outro usuário
+     *
+     * @param username Nome de usuário a ser verificado
+     * @param email E-mail a ser verificado
+     * @param uuidIgnorado UUID do usuário que está sendo atualizado, que não deve ser considerado
+     * @returns Nome do campo em conflito (**username** ou **email**) ou null caso não haja conflito
+     */
+    static async verificarDuplicidade(username: string, email: string, uuidIgnorado?: string): Promise<'username' | 'email' | null> {
+        // Query que procura outros usuários com o mesmo username ou e-mail
+        const query = `SELECT username, email FROM usuario
+                        WHERE (username = $1 OR email = $2)
+                        AND ($3::uuid IS NULL OR uuid <> $3::uuid)`;
+
+        // Executa a query no banco de dados
+        const respostaBD = await database.query(query, [username, email, uuidIgnorado ?? null]);
+
+        // Identifica qual campo está em conflito
+        for (const linha of respostaBD.rows) {
+            if (linha.username === username) {
+                return 'username';
+            }
+            if (linha.email === email) {
+                return 'email';
+            }
+        }
+
+        return null;
+    }
+
     /**
      * Cadastra um usuário no banco de dados
      * 
@@ -193,16 +368,19 @@ export class Usuario {
      */
     static async cadastroUsuario(usuario: Usuario): Promise<string | null> {
         try {
+            // Gera o hash da senha, o texto puro nunca é gravado no banco de dados
+            const hashSenha = await Senha.gerarHash(usuario.senha);
+
             // Define a query SQL para inserir um novo usuário com nome, username, email e senha
             // A cláusula RETURNING uuid retorna o identificador gerado automaticamente pelo banco
             const query = `
-          INSERT INTO usuario (nome, username, email, senha)
-          VALUES ($1, $2, $3, $4)
+          INSERT INTO usuario (nome, username, email, senha, troca_senha_obrigatoria, perfil)
+          VALUES ($1, $2, $3, $4, $5, $6)
           RETURNING uuid
         `;
 
             // Define os valores que serão usados na query (evita SQL Injection)
-            const valores = [usuario.nome, usuario.username, usuario.email, usuario.senha];
+            const valores = [usuario.nome, usuario.username, usuario.email, hashSenha, usuario.trocaSenhaObrigatoria, usuario.perfil];
 
             // Executa a query no banco de dados e aguarda a resposta
             const resultado = await database.query(query, valores);
@@ -216,6 +394,9 @@ export class Usuario {
             // Retorna o uuid como confirmação do cadastro
             return uuid;
         } catch (error) {
+            // Violação de chave única: username ou e-mail já cadastrados
+            Usuario.tratarDuplicidade(error);
+
             // Em caso de erro, exibe no console para ajudar na identificação do problema
             console.error('Erro ao salvar usuário:', error);
 
@@ -224,6 +405,127 @@ export class Usuario {
         }
     }
 
+    /**
+     * Atualiza o nome, username, e-mail e perfil de um usuário.
+     * Ao alterar o perfil, todas as sessões do usuário são encerradas.
+     *
+     * @param usuario Usuário com os dados atualizados (identificado pelo UUID)
+     * @returns **true** caso o usuário tenha sido atualizado, **false** caso contrário
+     * @throws ErroRegraNegocio (409) caso o username ou o e-mail já estejam em uso
+     */
+    static async atualizarUsuario(usuario: Usuario): Promise<boolean> {
+        try {
+            return await DataBaseModel.transacao(database, async (cliente) => {
+                // Busca o perfil atual, travando o registro até o fim da atualização
+                const atual = await cliente.query(
+                    `SELECT id_usuario, perfil FROM usuario WHERE uuid = $1 FOR UPDATE`,
+                    [usuario.uuidUsuario]
+                );
+                if (atual.rowCount == 0) {
+                    return false;
+                }
+
+                // Define a query SQL que atualiza os dados do usuário
+                const query = `UPDATE usuario SET nome = $1, username = $2, email = $3, perfil = $4 WHERE uuid = $5`;
+                await cliente.query(query, [usuario.nome, usuario.username, usuario.email, usuario.perfil, usuario.uuidUsuario]);
+
+                // As permissões ficam nos tokens: com o perfil alterado, o usuário precisa autenticar novamente
+                if (atual.rows[0].perfil !== usuario.perfil) {
+                    await Sessao.revogarSessoesUsuario(atual.rows[0].id_usuario, 'perfil_alterado', cliente);
+                }
+
+                return true;
+            });
+        } catch (error) {
+            // Violação de chave única: username ou e-mail já cadastrados
+            Usuario.tratarDuplicidade(error);
+
+            console.error('Erro ao atualizar usuário:', error);
+            return false;
+        }
+    }
+
+    /**
+     * Ativa ou desativa um usuário no sistema.
+     * Ao desativar, todas as sessões do usuário são encerradas.
+     *
+     * @param uuid UUID do usuário
+     * @param status **true** para reativar, **false** para desativar
+     * @returns **true** caso o status tenha sido alterado, **false** caso contrário
+     */
+    static async alterarStatusUsuario(uuid: string, status: boolean): Promise<boolean> {
+        try {
+            return await DataBaseModel.transacao(database, async (cliente) => {
+                // Define a query SQL que altera o status do usuário
+                const query = `UPDATE usuario SET status_usuario = $1 WHERE uuid = $2 RETURNING id_usuario`;
+
+                // Executa a query e verifica se algum registro foi alterado
+                const resultado = await cliente.query(query, [status, uuid]);
+                if (resultado.rowCount == 0) {
+                    return false;
+                }
+
+                // Encerra as sessões do usuário desativado
+                if (!status) {
+                    await Sessao.revogarSessoesUsuario(resultado.rows[0].id_usuario, 'usuario_desativado', cliente);
+                }
+
+                return true;
+            });
+        } catch (error) {
+            console.error('Erro ao alterar status do usuário:', error);
+            return false;
+        }
+    }
+
+    /**
+     * Atualiza a senha do usuário, gravando o hash da nova senha.
+     * Todas as sessões do usuário são encerradas.
+     *
+     * @param idUsuario ID do usuário
+     * @param novaSenha Nova senha em texto puro
+     * @param trocaSenhaObrigatoria Indica se o usuário deverá trocar a senha no próximo login (padrão: false)
+     * @returns **true** caso a senha tenha sido atualizada, **false** caso contrário
+     */
+    static async atualizarSenha(idUsuario: number, novaSenha: string, trocaSenhaObrigatoria: boolean = false): Promise<boolean> {
+        try {
+            // Gera o hash da nova senha
+            const hashSenha = await Senha.gerarHash(novaSenha);
+
+            return await DataBaseModel.transacao(database, async (cliente) => {
+                // Define a query SQL que atualiza a senha do usuário
+                const query = `UPDATE usuario SET senha = $1, troca_senha_obrigatoria = $2 WHERE id_usuario = $3`;
+
+                // Executa a query e verifica se algum registro foi alterado
+                const resultado = await cliente.query(query, [hashSenha, trocaSenhaObrigatoria, idUsuario]);
+                if (resultado.rowCount == 0) {
+                    return false;
+                }
+
+                // Encerra as sessões abertas com a senha anterior
+                await Sessao.revogarSessoesUsuario(idUsuario, 'troca_senha', cliente);
+
+                return true;
+            });
+        } catch (error) {
+            console.error('Erro ao atualizar senha do usuário:', error);
+            return false;
+        }
+    }
+
+    /**
+     * Converte a violação de chave única do banco de dados (código 23505) em um erro de conflito
+     *
+     * @param error Erro lançado pelo banco de dados
+     * @throws ErroRegraNegocio (409) caso o erro seja de username ou e-mail duplicado
+     */
+    private static tratarDuplicidade(error: any): void {
+        if (error?.code === '23505') {
+            const campo = String(error.constraint ?? '').includes('email') ? 'e-mail' : 'username';
+            throw new ErroRegraNegocio(`Já existe um usuário cadastrado com este ${campo}.`, 409, 'USUARIO_DUPLICADO');
+        }
+    }
+
     /**
      * Atualiza o caminho da imagem de perfil no cadastro do usuário
      * @param uuid UUID do usuário, que representará o nome da imagem
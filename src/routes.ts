@@ -1,37 +1,129 @@
 import express from "express";
-import { SERVER_ROUTES } from "./appConfig";
+import { SERVER_ROUTES, PERFIS_USUARIO } from "./appConfig";
 import AlunoController from "./controller/AlunoController";
 import LivroController from "./controller/LivroController";
 import EmprestimoController from "./controller/EmprestimoController";
 import UsuarioController from "./controller/UsuarioController";
+import MultaController from "./controller/MultaController";
+import ReservaController from "./controller/ReservaController";
+import ExemplarController from "./controller/ExemplarController";
+import AutorController from "./controller/AutorController";
+import EditoraController from "./controller/EditoraController";
+import CategoriaController from "./controller/CategoriaController";
+import CatalogoMarcController from "./controller/CatalogoMarcController";
+import ImportacaoLivrosController from "./controller/ImportacaoLivrosController";
+import ImportacaoAlunosController from "./controller/ImportacaoAlunosController";
+import TurmaController from "./controller/TurmaController";
 import { upload } from "./config/multerConfig"; // caminho pode variar dependendo da estrutura
-import { uploadCapa } from "./config/multerConfig";
+import { uploadCapa, uploadImportacao } from "./config/multerConfig";
+import { Auth } from "./util/Auth";
 
 const router = express.Router();
 
+// Middlewares de controle de acesso por perfil
+const apenasAdmin = [Auth.verifyToken, Auth.autorizar(PERFIS_USUARIO.ADMIN)];
+const equipeBiblioteca = [Auth.verifyToken, Auth.autorizar(PERFIS_USUARIO.ADMIN, PERFIS_USUARIO.BIBLIOTECARIO)];
+
 router.get('/', (req, res) => {
     res.json({ mensagem: "Rota padrão" })
 });
 
+// Login
+router.post(SERVER_ROUTES.LOGIN, Auth.validacaoUsuario);
+router.post(SERVER_ROUTES.RENOVAR_TOKEN, Auth.renovarToken);
+router.post(SERVER_ROUTES.LOGOUT, Auth.verifyToken, Auth.logout);
+router.post(SERVER_ROUTES.LOGOUT_TODAS, Auth.verifyToken, Auth.logoutTodas);
+
 // CRUD Aluno
-router.get(SERVER_ROUTES.LISTAR_ALUNOS, AlunoController.todos);
-router.post(SERVER_ROUTES.NOVO_ALUNO, AlunoController.cadastrar);
-router.put(SERVER_ROUTES.REMOVER_ALUNO, AlunoController.remover);
-router.put(SERVER_ROUTES.ATUALIZAR_ALUNO, AlunoController.atualizar);
+router.get(SERVER_ROUTES.LISTAR_ALUNOS, equipeBiblioteca, AlunoController.todos);
+router.get(SERVER_ROUTES.CONSULTAR_ALUNO, equipeBiblioteca, AlunoController.aluno);
+router.post(SERVER_ROUTES.NOVO_ALUNO, equipeBiblioteca, AlunoController.cadastrar);
+router.put(SERVER_ROUTES.REMOVER_ALUNO, equipeBiblioteca, AlunoController.remover);
+router.put(SERVER_ROUTES.ATUALIZAR_ALUNO, equipeBiblioteca, AlunoController.atualizar);
+
+// Turmas e importação da lista de alunos das turmas (CSV), com simulação antes da gravação
+router.get(SERVER_ROUTES.LISTAR_TURMAS, equipeBiblioteca, TurmaController.todos);
+router.post(SERVER_ROUTES.NOVA_TURMA, equipeBiblioteca, TurmaController.cadastrar);
+router.put(SERVER_ROUTES.ATUALIZAR_TURMA, equipeBiblioteca, TurmaController.atualizar);
+router.put(SERVER_ROUTES.REMOVER_TURMA, equipeBiblioteca, TurmaController.remover);
+router.post(SERVER_ROUTES.IMPORTAR_ALUNOS, equipeBiblioteca, uploadImportacao.single('arquivo'), ImportacaoAlunosController.importar);
 
 //CRUD Livro
 router.get(SERVER_ROUTES.LISTAR_LIVROS, LivroController.todos);
-router.post(SERVER_ROUTES.NOVO_LIVRO, uploadCapa.single('capa'), LivroController.cadastrar);
-router.put(SERVER_ROUTES.REMOVER_LIVRO, LivroController.remover);
-router.put(SERVER_ROUTES.ATUALIZAR_LIVRO, LivroController.atualizar);
+router.get(SERVER_ROUTES.CONSULTAR_LIVRO, LivroController.livro);
+router.get(SERVER_ROUTES.BUSCAR_LIVROS, LivroController.buscar);
+router.post(SERVER_ROUTES.NOVO_LIVRO, equipeBiblioteca, uploadCapa.single('capa'), LivroController.cadastrar);
+router.put(SERVER_ROUTES.REMOVER_LIVRO, equipeBiblioteca, LivroController.remover);
+router.put(SERVER_ROUTES.ATUALIZAR_LIVRO, equipeBiblioteca, uploadCapa.single('capa'), LivroController.atualizar);
+
+// Capas dos livros (imagem e miniaturas servidas em /uploads/cover)
+router.put(SERVER_ROUTES.ATUALIZAR_CAPA, equipeBiblioteca, uploadCapa.single('capa'), LivroController.atualizarCapa);
+router.put(SERVER_ROUTES.REMOVER_CAPA, equipeBiblioteca, LivroController.removerCapa);
+router.post(SERVER_ROUTES.LIMPAR_CAPAS, apenasAdmin, LivroController.limparCapas);
+
+// Intercâmbio do catálogo no formato MARC 21 (ISO 2709 e MARCXML)
+router.get(SERVER_ROUTES.EXPORTAR_MARC, equipeBiblioteca, CatalogoMarcController.exportar);
+router.post(SERVER_ROUTES.IMPORTAR_MARC, equipeBiblioteca, uploadImportacao.single('arquivo'), CatalogoMarcController.importar);
+
+// Importação de livros em lote (CSV), com simulação (modo=simulacao) antes da gravação (modo=gravacao)
+router.post(SERVER_ROUTES.IMPORTAR_LIVROS, equipeBiblioteca, uploadImportacao.single('arquivo'), ImportacaoLivrosController.importar);
+
+// Exemplares (cópias físicas dos livros)
+router.get(SERVER_ROUTES.LISTAR_EXEMPLARES, equipeBiblioteca, ExemplarController.todos);
+router.post(SERVER_ROUTES.NOVO_EXEMPLAR, equipeBiblioteca, ExemplarController.cadastrar);
+router.put(SERVER_ROUTES.ATUALIZAR_EXEMPLAR, equipeBiblioteca, ExemplarController.atualizar);
+
+// Autores e editoras (os livros de cada um são consultados em /lista/livros?idAutor= ou ?idEditora=)
+router.get(SERVER_ROUTES.LISTAR_AUTORES, AutorController.todos);
+router.post(SERVER_ROUTES.NOVO_AUTOR, equipeBiblioteca, AutorController.cadastrar);
+router.put(SERVER_ROUTES.ATUALIZAR_AUTOR, equipeBiblioteca, AutorController.atualizar);
+router.put(SERVER_ROUTES.REMOVER_AUTOR, equipeBiblioteca, AutorController.remover);
+router.get(SERVER_ROUTES.LISTAR_EDITORAS, EditoraController.todos);
+router.post(SERVER_ROUTES.NOVA_EDITORA, equipeBiblioteca, EditoraController.cadastrar);
+router.put(SERVER_ROUTES.ATUALIZAR_EDITORA, equipeBiblioteca, EditoraController.atualizar);
+router.put(SERVER_ROUTES.REMOVER_EDITORA, equipeBiblioteca, EditoraController.remover);
+
+// Categorias (assuntos) dos livros, em árvore (os livros de cada uma são consultados em /lista/livros?idCategoria=)
+router.get(SERVER_ROUTES.LISTAR_CATEGORIAS, CategoriaController.arvore);
+router.post(SERVER_ROUTES.NOVA_CATEGORIA, equipeBiblioteca, CategoriaController.cadastrar);
+router.put(SERVER_ROUTES.ATUALIZAR_CATEGORIA, equipeBiblioteca, CategoriaController.atualizar);
+router.put(SERVER_ROUTES.REMOVER_CATEGORIA, equipeBiblioteca, CategoriaController.remover);
 
 //CRUD Emprestimo
-router.get(SERVER_ROUTES.LISTAR_EMPRESTIMOS, EmprestimoController.todos);
-router.post(SERVER_ROUTES.NOVO_EMPRESTIMO, EmprestimoController.cadastrar);
-router.put(SERVER_ROUTES.ATUALIZAR_EMPRESTIMO, EmprestimoController.atualizar);
-router.put(SERVER_ROUTES.REMOVER_EMPRESTIMO, EmprestimoController.remover);
+router.get(SERVER_ROUTES.LISTAR_EMPRESTIMOS, equipeBiblioteca, EmprestimoController.todos);
+router.get(SERVER_ROUTES.CONSULTAR_EMPRESTIMO, equipeBiblioteca, EmprestimoController.emprestimo);
+router.post(SERVER_ROUTES.NOVO_EMPRESTIMO, equipeBiblioteca, EmprestimoController.cadastrar);
+router.put(SERVER_ROUTES.ATUALIZAR_EMPRESTIMO, equipeBiblioteca, EmprestimoController.atualizar);
+router.put(SERVER_ROUTES.REMOVER_EMPRESTIMO, equipeBiblioteca, EmprestimoController.remover);
+router.put(SERVER_ROUTES.DEVOLVER_EMPRESTIMO, equipeBiblioteca, EmprestimoController.devolver);
+router.put(SERVER_ROUTES.RENOVAR_EMPRESTIMO, equipeBiblioteca, EmprestimoController.renovar);
+router.get(SERVER_ROUTES.LISTAR_RENOVACOES, equipeBiblioteca, EmprestimoController.renovacoes);
+router.post(SERVER_ROUTES.VERIFICAR_ATRASOS, equipeBiblioteca, EmprestimoController.verificarAtrasos);
+router.get(SERVER_ROUTES.RELATORIO_ATRASOS, equipeBiblioteca, EmprestimoController.relatorioAtrasos);
+
+// Reservas (alunos reservam para si; a equipe da biblioteca gerencia a fila)
+router.post(SERVER_ROUTES.NOVA_RESERVA, Auth.verifyToken, ReservaController.cadastrar);
+router.put(SERVER_ROUTES.CANCELAR_RESERVA, Auth.verifyToken, ReservaController.cancelar);
+router.get(SERVER_ROUTES.LISTAR_RESERVAS, equipeBiblioteca, ReservaController.fila);
+
+// Multas por atraso
+router.get(SERVER_ROUTES.SALDO_MULTA, equipeBiblioteca, MultaController.saldo);
+router.post(SERVER_ROUTES.PAGAMENTO_MULTA, equipeBiblioteca, MultaController.pagar);
+router.post(SERVER_ROUTES.ISENCAO_MULTA, equipeBiblioteca, MultaController.isentar);
 
 // Cadastro de Usuário com Upload de Imagem de Perfil
-router.post(SERVER_ROUTES.NOVO_USUARIO, upload.single('imagemPerfil'), UsuarioController.cadastrar);
+router.post(SERVER_ROUTES.NOVO_USUARIO, apenasAdmin, upload.single('imagemPerfil'), UsuarioController.cadastrar);
+
+// Gerenciamento de Usuários
+router.get(SERVER_ROUTES.LISTAR_USUARIOS, apenasAdmin, UsuarioController.todos);
+router.get(SERVER_ROUTES.CONSULTAR_USUARIO, apenasAdmin, UsuarioController.usuario);
+router.put(SERVER_ROUTES.ATUALIZAR_USUARIO, apenasAdmin, UsuarioController.atualizar);
+router.put(SERVER_ROUTES.DESATIVAR_USUARIO, apenasAdmin, UsuarioController.desativar);
+router.put(SERVER_ROUTES.REATIVAR_USUARIO, apenasAdmin, UsuarioController.reativar);
+router.put(SERVER_ROUTES.ATUALIZAR_SENHA, Auth.verifyToken, UsuarioController.alterarSenha);
+
+// Redefinição de senha (rotas públicas)
+router.post(SERVER_ROUTES.SOLICITAR_REDEFINICAO_SENHA, UsuarioController.solicitarRedefinicaoSenha);
+router.post(SERVER_ROUTES.CONFIRMAR_REDEFINICAO_SENHA, UsuarioController.confirmarRedefinicaoSenha);
 
 export { router }
\ No newline at end of file
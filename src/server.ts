@@ -1,4 +1,5 @@
-import express from "express"; // Importa o framework Express
+import express, { Request, Response, NextFunction } from "express"; // Importa o framework Express
+import multer from "multer";
 import cors from "cors"; // Importa o middleware Cors
 import { router } from './routes';
 import path from 'path';
@@ -9,4 +10,16 @@ server.use(cors()); // Habilita o uso do middleware Cors para lidar com CO
 server.use(router); // Habilita o uso das rotas do arquivo routes.ts
 server.use('/uploads', express.static(path.resolve(__dirname, '..', 'uploads')));  // Serve os arquivos da pasta uploads
 
+// Erros dos envios de arquivos (ex.: arquivo maior que o limite) retornam JSON em vez da página de erro padrão
+server.use((error: any, req: Request, res: Response, next: NextFunction) => {
+    if (error instanceof multer.MulterError) {
+        const status = error.code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+        const mensagem = error.code === 'LIMIT_FILE_SIZE' ? 'O arquivo enviado ultrapassa o tamanho máximo permitido.' : `Erro no envio do arquivo: ${error.message}`;
+
+        return res.status(status).json({ mensagem, codigo: error.code });
+    }
+
+    next(error);
+});
+
 export { server }
\ No newline at end of file
@@ -0,0 +1,280 @@
+import jwt from 'jsonwebtoken'; // Biblioteca para geração e validação de tokens JWT
+import dotenv from 'dotenv';
+import { Request, Response, NextFunction } from "express"; // Request, Response e NextFunction do express
+import { Usuario } from "../model/Usuario"; // modelo do usuário
+import { Senha } from "./Senha"; // geração e verificação do hash das senhas
+import { PerfilUsuario } from "../appConfig"; // perfis de acesso dos usuários
+import { Sessao } from "../model/Sessao"; // sessões e refresh tokens
+
+dotenv.config();
+
+/**
+ * Interface UsuarioAutenticado
+ * Define as informações do usuário que são gravadas no token JWT
+ */
+export interface UsuarioAutenticado {
+    idUsuario: number;  // Identificador único do usuário
+    uuid: string;       // Identificador único universal do usuário
+    nome: string;       // Nome do usuário
+    username: string;   // Nome de usuário (login)
+    email: string;      // Endereço de e-mail do usuário
+    perfil: PerfilUsuario; // Perfil de acesso do usuário
+    sessao: string;     // Identificador da sessão no servidor
+}
+
+/**
+ * Interface LoginDTO
+ * Define os atributos esperados na requisição de login
+ */
+interface LoginDTO {
+    login: string;       // username ou e-mail do usuário
+    senha: string;       // senha de acesso
+    novaSenha?: string;  // nova senha, obrigatória quando o usuário precisa trocar a senha
+}
+
+/**
+ * Classe responsável pela autenticação dos usuários e pela proteção das rotas
+ */
+export class Auth {
+
+    /**
+     * Valida as credenciais do usuário e, caso estejam corretas, gera um token JWT.
+     *
+     * @param req Objeto de requisição HTTP contendo o login (username ou e-mail) e a senha
+     * @param res Objeto de resposta HTTP
+     * @returns Token JWT e informações do usuário em caso de sucesso, mensagem de erro caso contrário
+     */
+    static async validacaoUsuario(req: Request, res: Response): Promise<Response> {
+        try {
+            // Extrai os dados do corpo da requisição
+            const { login, senha, novaSenha }: LoginDTO = req.body;
+
+            // Verifica se os campos obrigatórios foram informados
+            if (!login || !senha) {
+                return res.status(400).json({ mensagem: 'Informe o login e a senha.' });
+            }
+
+            // Busca o usuário pelo username ou e-mail
+            const usuario = await Usuario.buscarUsuarioLogin(login);
+
+            // Verifica se o usuário existe e se a senha confere
+            if (!usuario || !(await Senha.verificar(senha, usuario.getSenha()))) {
+                return res.status(401).json({ mensagem: 'Usuário e/ou senha incorretos.' });
+            }
+
+            // Usuários desativados não podem acessar o sistema
+            if (!usuario.getStatusUsuario()) {
+                return res.status(403).json({ mensagem: 'Usuário desativado. Procure um administrador.' });
+            }
+
+            // Usuários com senha inicial ou com senha legada (sem hash) devem definir uma nova senha
+            if (usuario.getTrocaSenhaObrigatoria() || !Senha.ehHash(usuario.getSenha())) {
+                if (!novaSenha) {
+                    return res.status(403).json({
+                        mensagem: 'É necessário definir uma nova senha. Envie o campo novaSenha junto com o login.',
+                        trocaSenhaObrigatoria: true
+                    });
+                }
+
+                // Valida a nova senha informada
+                const erroSenha = Senha.validarSenha(novaSenha);
+                if (erroSenha) {
+                    return res.status(400).json({ mensagem: erroSenha, trocaSenhaObrigatoria: true });
+                }
+                if (novaSenha === senha) {
+                    return res.status(400).json({ mensagem: 'A nova senha deve ser diferente da senha atual.', trocaSenhaObrigatoria: true });
+                }
+
+                // Grava o hash da nova senha
+                if (!(await Usuario.atualizarSenha(usuario.getIdUsuario(), novaSenha))) {
+                    return res.status(500).json({ mensagem: 'Erro ao atualizar a senha.' });
+                }
+            }
+
+            // Cria a sessão no servidor e o primeiro refresh token
+            const sessao = await Sessao.criarSessao(usuario.getIdUsuario());
+
+            // Monta as informações que serão gravadas no token
+            const usuarioAutenticado = Auth.montarUsuarioAutenticado(usuario, sessao.uuidSessao);
+
+            // Gera o token JWT
+            const token = Auth.gerarToken(usuarioAutenticado);
+
+            // Retorna o token, o refresh token e as informações do usuário
+            return res.status(200).json({ auth: true, token: token, refreshToken: sessao.refreshToken, usuario: usuarioAutenticado });
+        } catch (error) {
+            // Em caso de erro, registra nos logs e retorna erro para o cliente
+            console.error('Erro ao realizar login:', error);
+            return res.status(500).json({ mensagem: 'Erro ao realizar login.' });
+        }
+    }
+
+    /**
+     * Gera um novo token de acesso a partir de um refresh token.
+     * O refresh token utilizado é invalidado e um novo é retornado (rotação).
+     *
+     * @param req Objeto de requisição HTTP contendo o refresh token
+     * @param res Objeto de resposta HTTP
+     * @returns Novo token de acesso e novo refresh token, ou mensagem de erro
+     */
+    static async renovarToken(req: Request, res: Response): Promise<Response> {
+        try {
+            const { refreshToken } = req.body;
+
+            if (!refreshToken) {
+                return res.status(400).json({ mensagem: 'Informe o refresh token.' });
+            }
+
+            // Troca o refresh token por um novo
+            const sessao = await Sessao.renovarSessao(refreshToken);
+            if (!sessao) {
+                return res.status(401).json({ auth: false, mensagem: 'Refresh token inválido, expirado ou revogado.' });
+            }
+
+            // Recupera os dados atualizados do usuário (perfil, nome, etc.)
+            const usuario = await Usuario.buscarUsuario(sessao.uuidUsuario);
+            if (!usuario) {
+                return res.status(401).json({ auth: false, mensagem: 'Refresh token inválido, expirado ou revogado.' });
+            }
+
+            // Gera o novo token de acesso
+            const usuarioAutenticado = Auth.montarUsuarioAutenticado(usuario, sessao.uuidSessao);
+            const token = Auth.gerarToken(usuarioAutenticado);
+
+            return res.status(200).json({ auth: true, token: token, refreshToken: sessao.refreshToken, usuario: usuarioAutenticado });
+        } catch (error) {
+            console.error('Erro ao renovar token:', error);
+            return res.status(500).json({ mensagem: 'Erro ao renovar token.' });
+        }
+    }
+
+    /**
+     * Encerra a sessão atual do usuário, invalidando o token de acesso e o refresh token
+     *
+     * @param req Objeto de requisição HTTP
+     * @param res Objeto de resposta HTTP
+     * @returns Mensagem de sucesso ou erro
+     */
+    static async logout(req: Request, res: Response): Promise<Response> {
+        try {
+            const usuario: UsuarioAutenticado = res.locals.usuario;
+
+            await Sessao.revogarSessao(usuario.sessao, 'logout');
+
+            return res.status(200).json({ auth: false, mensagem: 'Sessão encerrada com sucesso.' });
+        } catch (error) {
+            console.error('Erro ao realizar logout:', error);
+            return res.status(500).json({ mensagem: 'Erro ao realizar logout.' });
+        }
+    }
+
+    /**
+     * Encerra todas as sessões do usuário, em todos os dispositivos
+     *
+     * @param req Objeto de requisição HTTP
+     * @param res Objeto de resposta HTTP
+     * @returns Quantidade de sessões encerradas ou mensagem de erro
+     */
+    static async logoutTodas(req: Request, res: Response): Promise<Response> {
+        try {
+            const usuario: UsuarioAutenticado = res.locals.usuario;
+
+            const quantidade = await Sessao.revogarSessoesUsuario(usuario.idUsuario, 'logout_todas');
+
+            return res.status(200).json({ auth: false, mensagem: 'Todas as sessões foram encerradas.', sessoesEncerradas: quantidade });
+        } catch (error) {
+            console.error('Erro ao encerrar as sessões:', error);
+            return res.status(500).json({ mensagem: 'Erro ao encerrar as sessões.' });
+        }
+    }
+
+    /**
+     * Gera um token JWT assinado com as informações do usuário
+     *
+     * @param usuario Informações do usuário autenticado
+     * @returns Token JWT assinado
+     */
+    static gerarToken(usuario: UsuarioAutenticado): string {
+        // Tempo de expiração do token de acesso (padrão: 15 minutos), a sessão é mantida pelo refresh token
+        const expiracao = process.env.JWT_EXPIRES_IN ?? '15m';
+
+        return jwt.sign(usuario, process.env.JWT_SECRET as string, { expiresIn: expiracao as jwt.SignOptions['expiresIn'] });
+    }
+
+    /**
+     * Middleware que verifica se a requisição possui um token JWT válido.
+     * O token deve ser enviado no cabeçalho Authorization no formato **Bearer &lt;token&gt;**.
+     * Em caso de sucesso, as informações do usuário ficam disponíveis em **res.locals.usuario**.
+     *
+     * @param req Objeto de requisição HTTP
+     * @param res Objeto de resposta HTTP
+     * @param next Função que chama o próximo middleware
+     */
+    static async verifyToken(req: Request, res: Response, next: NextFunction) {
+        // Recupera o cabeçalho de autorização
+        const authorization = req.headers.authorization;
+
+        // Verifica se o token foi enviado no formato esperado
+        if (!authorization || !authorization.startsWith('Bearer ')) {
+            return res.status(401).json({ auth: false, mensagem: 'Token não informado.' });
+        }
+
+        // Separa o token do prefixo Bearer
+        const token = authorization.substring(7);
+
+        let usuario: UsuarioAutenticado;
+        try {
+            // Valida a assinatura e a expiração do token
+            usuario = jwt.verify(token, process.env.JWT_SECRET as string) as UsuarioAutenticado;
+        } catch (error) {
+            // Token inválido ou expirado
+            return res.status(401).json({ auth: false, mensagem: 'Token inválido ou expirado.' });
+        }
+
+        // Verifica se a sessão não foi encerrada (logout, troca de senha ou usuário desativado)
+        if (!usuario.sessao || !(await Sessao.sessaoAtiva(usuario.sessao))) {
+            return res.status(401).json({ auth: false, mensagem: 'Sessão encerrada. Realize o login novamente.' });
+        }
+
+        // Disponibiliza o usuário autenticado para os próximos middlewares
+        res.locals.usuario = usuario;
+
+        next();
+    }
+
+    /**
+     * Monta as informações do usuário que são gravadas no token de acesso
+     */
+    private static montarUsuarioAutenticado(usuario: Usuario, uuidSessao: string): UsuarioAutenticado {
+        return {
+            idUsuario: usuario.getIdUsuario(),
+            uuid: usuario.getUuidUsuario(),
+            nome: usuario.getNome(),
+            username: usuario.getUsername(),
+            email: usuario.getEmail(),
+            perfil: usuario.getPerfil(),
+            sessao: uuidSessao
+        };
+    }
+
+    /**
+     * Cria um middleware que permite o acesso somente aos usuários com um dos perfis informados.
+     * Deve ser utilizado depois de **verifyToken**, pois depende do usuário em **res.locals.usuario**.
+     *
+     * @param perfis Perfis de acesso autorizados a utilizar a rota
+     * @returns Middleware que responde 403 caso o perfil do usuário não esteja autorizado
+     */
+    static autorizar(...perfis: Array<PerfilUsuario>) {
+        return (req: Request, res: Response, next: NextFunction) => {
+            // Recupera o usuário autenticado pelo middleware verifyToken
+            const usuario: UsuarioAutenticado | undefined = res.locals.usuario;
+
+            // Verifica se o perfil do usuário está entre os perfis autorizados
+            if (!usuario || !perfis.includes(usuario.perfil)) {
+                return res.status(403).json({ auth: true, mensagem: 'Acesso negado. Seu perfil não possui permissão para este recurso.' });
+            }
+
+            next();
+        };
+    }
+}
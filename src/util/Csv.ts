@@ -0,0 +1,163 @@
+/**
+ * Separadores de coluna aceitos nos arquivos CSV
+ */
+const SEPARADORES = [',', ';'] as const;
+
+/**
+ * Interface LinhaCsv
+ * Define uma linha de dados do arquivo CSV
+ */
+export interface LinhaCsv {
+    linha: number;          // Número da linha no arquivo, começando em 1 (o cabeçalho é a linha 1)
+    valores: string[];
+}
+
+/**
+ * Interface ArquivoCsv
+ * Define o conteúdo de um arquivo CSV já separado em colunas
+ */
+export interface ArquivoCsv {
+    separador: string;
+    cabecalho: string[];
+    linhas: LinhaCsv[];
+}
+
+/**
+ * Classe responsável pela leitura dos arquivos CSV enviados nas importações.
+ *
+ * Segue a RFC 4180 (valores entre aspas podem conter separadores, quebras de linha e aspas duplicadas)
+ * e aceita vírgula ou ponto e vírgula como separador, já que planilhas em português costumam exportar com
+ * ponto e vírgula. O separador é identificado pela primeira linha do arquivo.
+ */
+export class Csv {
+
+    /**
+     * Lê o conteúdo do arquivo CSV
+     *
+     * @param conteudo Conteúdo do arquivo (UTF-8, com ou sem BOM)
+     * @returns Cabeçalho e linhas de dados, sem as linhas em branco
+     */
+    static ler(conteudo: Buffer | string): ArquivoCsv {
+        const texto = (typeof conteudo === 'string' ? conteudo : conteudo.toString('utf8')).replace(/^\uFEFF/, '');
+        const separador = Csv.identificarSeparador(texto);
+        const registros = Csv.separarRegistros(texto, separador);
+
+        const [primeiro, ...demais] = registros;
+
+        return {
+            separador,
+            cabecalho: primeiro ? primeiro.valores.map((coluna) => coluna.trim()) : [],
+            linhas: demais.filter((registro) => registro.valores.some((valor) => valor.trim() !== ''))
+        };
+    }
+
+    /**
+     * Localiza as colunas esperadas no cabeçalho. Os nomes são comparados sem acentos, maiúsculas,
+     * espaços ou sublinhados (ex.: "Ano Publicação", ano_publicacao e anoPublicacao são a mesma coluna).
+     *
+     * @param cabecalho Cabeçalho do arquivo
+     * @param colunas Nomes das colunas esperadas
+     * @returns Posição de cada coluna encontrada e os nomes das colunas não reconhecidas
+     */
+    static mapearColunas<T extends string>(cabecalho: string[], colunas: readonly T[]): { posicoes: Map<T, number>, ignoradas: string[] } {
+        const posicoes = new Map<T, number>();
+        const ignoradas: string[] = [];
+
+        cabecalho.forEach((nome, i) => {
+            const coluna = colunas.find((esperada) => Csv.normalizarNome(esperada) === Csv.normalizarNome(nome));
+
+            if (coluna && !posicoes.has(coluna)) {
+                posicoes.set(coluna, i);
+            } else if (nome) {
+                ignoradas.push(nome);
+            }
+        });
+
+        return { posicoes, ignoradas };
+    }
+
+    /**
+     * Normaliza o nome de uma coluna para comparação: sem acentos, espaços, sublinhados e maiúsculas
+     */
+    private static normalizarNome(nome: string): string {
+        return nome.normalize('NFD').replace(/\p{M}/gu, '').replace(/[^A-Za-z0-9]/g, '').toLowerCase();
+    }
+
+    /**
+     * Identifica o separador pela quantidade de ocorrências na primeira linha, fora das aspas
+     */
+    private static identificarSeparador(texto: string): string {
+        const contagem = new Map<string, number>(SEPARADORES.map((separador) => [separador, 0]));
+        let entreAspas = false;
+
+        for (const caractere of texto) {
+            if (caractere === '"') {
+                entreAspas = !entreAspas;
+            } else if (!entreAspas && (caractere === '\n' || caractere === '\r')) {
+                break;
+            } else if (!entreAspas && contagem.has(caractere)) {
+                contagem.set(caractere, contagem.get(caractere)! + 1);
+            }
+        }
+
+        return contagem.get(';')! > contagem.get(',')! ? ';' : ',';
+    }
+
+    /**
+     * Separa o texto em registros e valores, guardando a linha do arquivo em que cada registro começa
+     */
+    private static separarRegistros(texto: string, separador: string): LinhaCsv[] {
+        const registros: LinhaCsv[] = [];
+        let valores: string[] = [];
+        let valor = '';
+        let entreAspas = false;
+        let linhaAtual = 1;
+        let linhaInicio = 1;
+        let i = 0;
+
+        const fecharRegistro = () => {
+            valores.push(valor);
+            registros.push({ linha: linhaInicio, valores });
+            valores = [];
+            valor = '';
+        };
+
+        while (i < texto.length) {
+            const caractere = texto[i];
+
+            if (entreAspas) {
+                if (caractere === '"' && texto[i + 1] === '"') {
+                    valor += '"';
+                    i++;
+                } else if (caractere === '"') {
+                    entreAspas = false;
+                } else {
+                    if (caractere === '\n') linhaAtual++;
+                    valor += caractere;
+                }
+            } else if (caractere === '"') {
+                entreAspas = true;
+            } else if (caractere === separador) {
+                valores.push(valor);
+                valor = '';
+            } else if (caractere === '\r' || caractere === '\n') {
+                // \r\n conta como uma única quebra de linha
+                if (caractere === '\r' && texto[i + 1] === '\n') i++;
+                fecharRegistro();
+                linhaAtual++;
+                linhaInicio = linhaAtual;
+            } else {
+                valor += caractere;
+            }
+
+            i++;
+        }
+
+        // último registro, quando o arquivo não termina com quebra de linha
+        if (valor !== '' || valores.length > 0) {
+            fecharRegistro();
+        }
+
+        return registros;
+    }
+}
@@ -0,0 +1,28 @@
+/**
+ * Erro lançado pelos modelos quando uma operação viola uma regra de negócio
+ * (registro duplicado, livro indisponível, etc.).
+ *
+ * Os controladores utilizam o **status** como código HTTP da resposta e o **codigo**
+ * como identificador do motivo, que pode ser tratado pelo front-end.
+ */
+export class ErroRegraNegocio extends Error {
+    public status: number; // Código HTTP que deve ser retornado ao cliente
+    public codigo: string; // Identificador do motivo do erro
+    public detalhes?: Record<string, unknown>; // Informações adicionais para o cliente (ex.: registro já existente)
+
+    /**
+     * Construtor da classe ErroRegraNegocio
+     *
+     * @param mensagem Mensagem descritiva do erro
+     * @param status Código HTTP que deve ser retornado ao cliente
+     * @param codigo Identificador do motivo do erro
+     * @param detalhes Informações adicionais incluídas na resposta
+     */
+    constructor(mensagem: string, status: number, codigo: string, detalhes?: Record<string, unknown>) {
+        super(mensagem);
+        this.name = 'ErroRegraNegocio';
+        this.status = status;
+        this.codigo = codigo;
+        this.detalhes = detalhes;
+    }
+}
@@ -0,0 +1,74 @@
+/**
+ * Prefixo (EAN) utilizado na conversão de um ISBN-10 para ISBN-13
+ */
+const PREFIXO_ISBN_10 = '978';
+
+/**
+ * Classe responsável por validar e normalizar os ISBNs dos livros.
+ *
+ * São aceitos ISBN-10 e ISBN-13, com ou sem hífens e espaços (ex.: 85-359-0277-5 ou 978-85-359-0277-8).
+ * O formato canônico, que é gravado no banco de dados, é o ISBN-13 somente com os dígitos.
+ */
+export class ISBN {
+
+    /**
+     * Valida o ISBN e o converte para o formato canônico
+     *
+     * @param valor ISBN-10 ou ISBN-13 informado pelo usuário
+     * @returns ISBN-13 somente com dígitos ou null caso o ISBN seja inválido
+     */
+    static normalizar(valor: string): string | null {
+        const digitos = ISBN.limpar(valor);
+
+        if (/^\d{9}[\dX]$/.test(digitos)) {
+            if (ISBN.digitoVerificador10(digitos.slice(0, 9)) !== digitos[9]) {
+                return null;
+            }
+
+            const base = PREFIXO_ISBN_10 + digitos.slice(0, 9);
+            return base + ISBN.digitoVerificador13(base);
+        }
+
+        if (/^97[89]\d{10}$/.test(digitos)) {
+            return ISBN.digitoVerificador13(digitos.slice(0, 12)) === digitos[12] ? digitos : null;
+        }
+
+        return null;
+    }
+
+    /**
+     * Verifica se o ISBN informado é um ISBN-10 ou ISBN-13 válido
+     *
+     * @param valor ISBN informado pelo usuário
+     * @returns **true** caso o ISBN seja válido, **false** caso contrário
+     */
+    static valido(valor: string): boolean {
+        return ISBN.normalizar(valor) !== null;
+    }
+
+    /**
+     * Remove os hífens e espaços do ISBN, mantendo os demais caracteres para a validação
+     */
+    static limpar(valor: string): string {
+        return (valor ?? '').replace(/[\s-]/g, '').toUpperCase();
+    }
+
+    /**
+     * Calcula o dígito verificador do ISBN-10 (módulo 11, X representa 10)
+     */
+    private static digitoVerificador10(noveDigitos: string): string {
+        const soma = [...noveDigitos].reduce((total, digito, i) => total + Number(digito) * (10 - i), 0);
+        const digito = (11 - (soma % 11)) % 11;
+
+        return digito === 10 ? 'X' : digito.toString();
+    }
+
+    /**
+     * Calcula o dígito verificador do ISBN-13 (pesos alternados 1 e 3, módulo 10)
+     */
+    private static digitoVerificador13(dozeDigitos: string): string {
+        const soma = [...dozeDigitos].reduce((total, digito, i) => total + Number(digito) * (i % 2 === 0 ? 1 : 3), 0);
+
+        return ((10 - (soma % 10)) % 10).toString();
+    }
+}
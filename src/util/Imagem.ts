@@ -0,0 +1,44 @@
+/**
+ * Tipos de imagem aceitos nos envios de arquivos
+ */
+export const TIPO_IMAGEM = {
+    JPEG: 'image/jpeg',
+    PNG: 'image/png',
+    WEBP: 'image/webp'
+} as const;
+
+export type TipoImagem = typeof TIPO_IMAGEM[keyof typeof TIPO_IMAGEM];
+
+/**
+ * Classe responsável por identificar o tipo das imagens enviadas pelo conteúdo do arquivo.
+ *
+ * O tipo informado pelo cliente (Content-Type) e a extensão do nome do arquivo não são confiáveis:
+ * o tipo é identificado pelos primeiros bytes do arquivo (assinatura do formato).
+ */
+export class Imagem {
+
+    /**
+     * Identifica o tipo da imagem pela assinatura do arquivo
+     *
+     * @param conteudo Conteúdo do arquivo
+     * @returns Tipo da imagem ou null caso o arquivo não seja JPEG, PNG ou WebP
+     */
+    static identificarTipo(conteudo: Buffer): TipoImagem | null {
+        // JPEG: FF D8 FF
+        if (conteudo.length >= 3 && conteudo[0] === 0xFF && conteudo[1] === 0xD8 && conteudo[2] === 0xFF) {
+            return TIPO_IMAGEM.JPEG;
+        }
+
+        // PNG: 89 "PNG" 0D 0A 1A 0A
+        if (conteudo.length >= 8 && conteudo.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]))) {
+            return TIPO_IMAGEM.PNG;
+        }
+
+        // WebP: "RIFF" + tamanho (4 bytes) + "WEBP"
+        if (conteudo.length >= 12 && conteudo.toString('latin1', 0, 4) === 'RIFF' && conteudo.toString('latin1', 8, 12) === 'WEBP') {
+            return TIPO_IMAGEM.WEBP;
+        }
+
+        return null;
+    }
+}
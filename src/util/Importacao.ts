@@ -0,0 +1,35 @@
+/**
+ * Modos das importações em lote: a simulação apenas valida o arquivo; a gravação cadastra os registros
+ */
+export const MODO_IMPORTACAO = {
+    SIMULACAO: 'simulacao',
+    GRAVACAO: 'gravacao'
+} as const;
+
+export type ModoImportacao = typeof MODO_IMPORTACAO[keyof typeof MODO_IMPORTACAO];
+
+/**
+ * Interface ErroLinhaImportacao
+ * Define um problema encontrado em uma linha do arquivo
+ */
+export interface ErroLinhaImportacao {
+    linha: number;                  // Linha do arquivo (o cabeçalho é a linha 1)
+    coluna?: string;
+    valor?: string;
+    codigo: string;
+    mensagem: string;
+    detalhes?: Record<string, unknown>;
+}
+
+/**
+ * Classe com o que é comum às importações em lote (livros e alunos).
+ */
+export class Importacao {
+
+    /**
+     * Verifica se o modo informado é válido
+     */
+    static modoValido(valor: string): valor is ModoImportacao {
+        return (Object.values(MODO_IMPORTACAO) as string[]).includes(valor);
+    }
+}
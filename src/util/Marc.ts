@@ -0,0 +1,402 @@
+/**
+ * Caracteres delimitadores do formato ISO 2709
+ */
+const TERMINADOR_REGISTRO = 0x1D;
+const TERMINADOR_CAMPO = 0x1E;
+const DELIMITADOR_SUBCAMPO = 0x1F;
+
+/**
+ * Tamanho do líder e de cada entrada do diretório do registro ISO 2709
+ */
+const TAMANHO_LIDER = 24;
+const TAMANHO_ENTRADA_DIRETORIO = 12;
+
+/**
+ * Namespace dos documentos MARCXML
+ */
+const NAMESPACE_MARCXML = 'http://www.loc.gov/MARC21/slim';
+
+/**
+ * Interface SubcampoMarc
+ * Define um subcampo de um campo de dados (ex.: $a do campo 245)
+ */
+export interface SubcampoMarc {
+    codigo: string;
+    valor: string;
+}
+
+/**
+ * Interface CampoMarc
+ * Define um campo do registro: campos de controle (00X) têm apenas o valor,
+ * os campos de dados têm indicadores e subcampos
+ */
+export interface CampoMarc {
+    tag: string;
+    valor?: string;                 // Campos de controle
+    indicador1?: string;            // Campos de dados
+    indicador2?: string;
+    subcampos?: SubcampoMarc[];
+}
+
+/**
+ * Interface RegistroMarc
+ * Define um registro bibliográfico MARC 21
+ */
+export interface RegistroMarc {
+    lider: string;
+    campos: CampoMarc[];
+}
+
+/**
+ * Classe responsável por ler e gravar registros MARC 21 nos formatos ISO 2709 (arquivo .mrc) e MARCXML.
+ *
+ * Os registros ISO 2709 são gravados em UTF-8 (posição 9 do líder = "a"); registros recebidos
+ * em outra codificação são lidos como UTF-8.
+ */
+export class Marc {
+
+    /**
+     * Retorna os subcampos de um campo de dados
+     *
+     * @param registro Registro MARC
+     * @param tag Tag do campo (ex.: 245)
+     * @param codigo Código do subcampo (ex.: a)
+     * @returns Valores do subcampo em todas as ocorrências do campo
+     */
+    static subcampos(registro: RegistroMarc, tag: string, codigo: string): string[] {
+        return registro.campos
+            .filter((campo) => campo.tag === tag)
+            .flatMap((campo) => (campo.subcampos ?? []).filter((subcampo) => subcampo.codigo === codigo).map((subcampo) => subcampo.valor));
+    }
+
+    /**
+     * Retorna o valor de um campo de controle (ex.: 001, 008)
+     */
+    static campoControle(registro: RegistroMarc, tag: string): string | undefined {
+        return registro.campos.find((campo) => campo.tag === tag)?.valor;
+    }
+
+    /**
+     * Gera um arquivo ISO 2709 com os registros informados
+     *
+     * @param registros Registros MARC
+     * @returns Conteúdo do arquivo
+     */
+    static gerarISO2709(registros: RegistroMarc[]): Buffer {
+        return Buffer.concat(registros.map((registro) => Marc.gerarRegistroISO2709(registro)));
+    }
+
+    /**
+     * Lê os registros de um arquivo ISO 2709.
+     * Cada registro é lido separadamente: um registro inválido não impede a leitura dos demais.
+     *
+     * @param conteudo Conteúdo do arquivo
+     * @returns Registro lido ou o erro encontrado, na ordem do arquivo
+     */
+    static lerISO2709(conteudo: Buffer): Array<RegistroMarc | Error> {
+        const resultados: Array<RegistroMarc | Error> = [];
+        let inicio = 0;
+
+        while (inicio < conteudo.length) {
+            let fim = conteudo.indexOf(TERMINADOR_REGISTRO, inicio);
+            if (fim === -1) {
+                fim = conteudo.length;
+            }
+
+            const bytes = conteudo.subarray(inicio, fim);
+            inicio = fim + 1;
+
+            // ignora quebras de linha e espaços entre os registros
+            if (bytes.toString('latin1').trim() === '') {
+                continue;
+            }
+
+            try {
+                resultados.push(Marc.lerRegistroISO2709(bytes));
+            } catch (error) {
+                resultados.push(error instanceof Error ? error : new Error(String(error)));
+            }
+        }
+
+        return resultados;
+    }
+
+    /**
+     * Gera um documento MARCXML (collection) com os registros informados
+     *
+     * @param registros Registros MARC
+     * @returns Documento XML
+     */
+    static gerarMARCXML(registros: RegistroMarc[]): string {
+        const linhas: string[] = [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            `<collection xmlns="${NAMESPACE_MARCXML}">`
+        ];
+
+        for (const registro of registros) {
+            linhas.push('  <record>');
+            linhas.push(`    <leader>${Marc.escaparXML(Marc.montarLider(registro.lider, 0, 0))}</leader>`);
+
+            for (const campo of registro.campos) {
+                if (Marc.campoDeControle(campo.tag)) {
+                    linhas.push(`    <controlfield tag="${campo.tag}">${Marc.escaparXML(campo.valor ?? '')}</controlfield>`);
+                    continue;
+                }
+
+                linhas.push(`    <datafield tag="${campo.tag}" ind1="${Marc.escaparXML(campo.indicador1 ?? ' ')}" ind2="${Marc.escaparXML(campo.indicador2 ?? ' ')}">`);
+                for (const subcampo of campo.subcampos ?? []) {
+                    linhas.push(`      <subfield code="${Marc.escaparXML(subcampo.codigo)}">${Marc.escaparXML(subcampo.valor)}</subfield>`);
+                }
+                linhas.push('    </datafield>');
+            }
+
+            linhas.push('  </record>');
+        }
+
+        linhas.push('</collection>');
+        return linhas.join('\n') + '\n';
+    }
+
+    /**
+     * Lê os registros de um documento MARCXML (collection ou record, com ou sem prefixo de namespace)
+     *
+     * @param xml Documento MARCXML
+     * @returns Registro lido ou o erro encontrado, na ordem do documento
+     */
+    static lerMARCXML(xml: string): Array<RegistroMarc | Error> {
+        const resultados: Array<RegistroMarc | Error> = [];
+        const padraoRegistro = /<(?:[\w-]+:)?record\b[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?record\s*>/g;
+
+        for (const [, conteudo] of xml.matchAll(padraoRegistro)) {
+            try {
+                resultados.push(Marc.lerRegistroMARCXML(conteudo));
+            } catch (error) {
+                resultados.push(error instanceof Error ? error : new Error(String(error)));
+            }
+        }
+
+        return resultados;
+    }
+
+    /**
+     * Verifica se o conteúdo recebido é um documento XML
+     */
+    static ehXML(conteudo: Buffer): boolean {
+        return conteudo.toString('utf8', 0, Math.min(conteudo.length, 512)).replace(/^\uFEFF/, '').trimStart().startsWith('<');
+    }
+
+    /**
+     * Gera um registro ISO 2709: líder, diretório e campos
+     */
+    private static gerarRegistroISO2709(registro: RegistroMarc): Buffer {
+        const dados: Buffer[] = [];
+        const diretorio: string[] = [];
+        let posicao = 0;
+
+        for (const campo of registro.campos) {
+            const conteudoCampo = Marc.campoDeControle(campo.tag)
+                ? Buffer.from(campo.valor ?? '', 'utf8')
+                : Buffer.concat([
+                    Buffer.from(`${campo.indicador1 ?? ' '}${campo.indicador2 ?? ' '}`, 'utf8'),
+                    ...(campo.subcampos ?? []).map((subcampo) => Buffer.concat([
+                        Buffer.from([DELIMITADOR_SUBCAMPO]),
+                        Buffer.from(subcampo.codigo + subcampo.valor, 'utf8')
+                    ]))
+                ]);
+            const bytesCampo = Buffer.concat([conteudoCampo, Buffer.from([TERMINADOR_CAMPO])]);
+
+            diretorio.push(campo.tag + Marc.numero(bytesCampo.length, 4) + Marc.numero(posicao, 5));
+            dados.push(bytesCampo);
+            posicao += bytesCampo.length;
+        }
+
+        const bytesDiretorio = Buffer.from(diretorio.join('') + String.fromCharCode(TERMINADOR_CAMPO), 'latin1');
+        const enderecoBase = TAMANHO_LIDER + bytesDiretorio.length;
+        const tamanhoRegistro = enderecoBase + posicao + 1;
+
+        return Buffer.concat([
+            Buffer.from(Marc.montarLider(registro.lider, tamanhoRegistro, enderecoBase), 'latin1'),
+            bytesDiretorio,
+            ...dados,
+            Buffer.from([TERMINADOR_REGISTRO])
+        ]);
+    }
+
+    /**
+     * Lê um registro ISO 2709 (sem o terminador de registro)
+     */
+    private static lerRegistroISO2709(bytes: Buffer): RegistroMarc {
+        // ignora quebras de linha deixadas entre os registros por alguns sistemas
+        let inicio = 0;
+        while (inicio < bytes.length && (bytes[inicio] === 0x0A || bytes[inicio] === 0x0D)) {
+            inicio++;
+        }
+        const registro = bytes.subarray(inicio);
+
+        if (registro.length < TAMANHO_LIDER) {
+            throw new Error('Registro menor que o líder (24 caracteres).');
+        }
+
+        const lider = registro.toString('latin1', 0, TAMANHO_LIDER);
+        const enderecoBase = parseInt(lider.substring(12, 17), 10);
+
+        if (!Number.isInteger(enderecoBase) || enderecoBase <= TAMANHO_LIDER || enderecoBase > registro.length) {
+            throw new Error('Endereço base dos dados inválido no líder.');
+        }
+
+        const diretorio = registro.toString('latin1', TAMANHO_LIDER, enderecoBase - 1);
+        if (diretorio.length % TAMANHO_ENTRADA_DIRETORIO !== 0) {
+            throw new Error('Diretório do registro inválido.');
+        }
+
+        const campos: CampoMarc[] = [];
+        for (let i = 0; i < diretorio.length; i += TAMANHO_ENTRADA_DIRETORIO) {
+            const tag = diretorio.substring(i, i + 3);
+            const tamanho = parseInt(diretorio.substring(i + 3, i + 7), 10);
+            const posicao = parseInt(diretorio.substring(i + 7, i + 12), 10);
+
+            if (!Number.isInteger(tamanho) || !Number.isInteger(posicao) || enderecoBase + posicao + tamanho > registro.length) {
+                throw new Error(`Entrada do diretório inválida para o campo ${tag}.`);
+            }
+
+            // remove o terminador de campo
+            let conteudo = registro.subarray(enderecoBase + posicao, enderecoBase + posicao + tamanho);
+            if (conteudo[conteudo.length - 1] === TERMINADOR_CAMPO) {
+                conteudo = conteudo.subarray(0, conteudo.length - 1);
+            }
+
+            if (Marc.campoDeControle(tag)) {
+                campos.push({ tag, valor: conteudo.toString('utf8') });
+                continue;
+            }
+
+            const texto = conteudo.toString('utf8');
+            const [indicadores, ...subcampos] = texto.split(String.fromCharCode(DELIMITADOR_SUBCAMPO));
+
+            campos.push({
+                tag,
+                indicador1: indicadores.charAt(0) || ' ',
+                indicador2: indicadores.charAt(1) || ' ',
+                subcampos: subcampos.filter((subcampo) => subcampo.length > 0).map((subcampo) => ({
+                    codigo: subcampo.charAt(0),
+                    valor: subcampo.substring(1)
+                }))
+            });
+        }
+
+        return { lider, campos };
+    }
+
+    /**
+     * Lê o conteúdo de um elemento record do MARCXML
+     */
+    private static lerRegistroMARCXML(conteudo: string): RegistroMarc {
+        const prefixo = '(?:[\\w-]+:)?';
+        const lider = new RegExp(`<${prefixo}leader\\b[^>]*>([\\s\\S]*?)</${prefixo}leader\\s*>`).exec(conteudo)?.[1];
+        const campos: CampoMarc[] = [];
+
+        const padraoCampo = new RegExp(
+            `<${prefixo}(controlfield|datafield)\\b([^>]*)>([\\s\\S]*?)</${prefixo}(?:controlfield|datafield)\\s*>`, 'g'
+        );
+        const padraoSubcampo = new RegExp(`<${prefixo}subfield\\b([^>]*)>([\\s\\S]*?)</${prefixo}subfield\\s*>`, 'g');
+
+        for (const [, tipo, atributosTexto, conteudoCampo] of conteudo.matchAll(padraoCampo)) {
+            const atributos = Marc.lerAtributos(atributosTexto);
+            const tag = atributos.tag ?? '';
+
+            if (!/^\w{3}$/.test(tag)) {
+                throw new Error('Campo sem tag válida no MARCXML.');
+            }
+
+            if (tipo === 'controlfield') {
+                campos.push({ tag, valor: Marc.decodificarXML(conteudoCampo) });
+                continue;
+            }
+
+            campos.push({
+                tag,
+                indicador1: (atributos.ind1 ?? ' ').charAt(0) || ' ',
+                indicador2: (atributos.ind2 ?? ' ').charAt(0) || ' ',
+                subcampos: [...conteudoCampo.matchAll(padraoSubcampo)].map(([, atributosSubcampo, valor]) => ({
+                    codigo: Marc.lerAtributos(atributosSubcampo).code ?? '',
+                    valor: Marc.decodificarXML(valor)
+                }))
+            });
+        }
+
+        if (campos.length === 0) {
+            throw new Error('Registro MARCXML sem campos.');
+        }
+
+        return { lider: Marc.decodificarXML(lider ?? '').padEnd(TAMANHO_LIDER, ' '), campos };
+    }
+
+    /**
+     * Monta o líder do registro com o tamanho, o endereço base e a codificação UTF-8
+     */
+    private static montarLider(lider: string, tamanhoRegistro: number, enderecoBase: number): string {
+        const base = (lider || '').padEnd(TAMANHO_LIDER, ' ').substring(0, TAMANHO_LIDER);
+
+        return Marc.numero(tamanhoRegistro, 5) +
+            base.substring(5, 9) +
+            'a' +                       // codificação: UCS/Unicode (UTF-8)
+            '22' +                      // tamanho dos indicadores e do código de subcampo
+            Marc.numero(enderecoBase, 5) +
+            base.substring(17, 20) +
+            '4500';                     // mapa das entradas do diretório
+    }
+
+    /**
+     * Verifica se a tag é de um campo de controle (001 a 009)
+     */
+    private static campoDeControle(tag: string): boolean {
+        return /^00\d$/.test(tag);
+    }
+
+    /**
+     * Formata o número com zeros à esquerda
+     */
+    private static numero(valor: number, tamanho: number): string {
+        return valor.toString().padStart(tamanho, '0');
+    }
+
+    /**
+     * Lê os atributos de uma tag XML
+     */
+    private static lerAtributos(texto: string): Record<string, string> {
+        const atributos: Record<string, string> = {};
+
+        for (const [, nome, , valor1, valor2] of texto.matchAll(/([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+            atributos[nome.replace(/^[\w-]+:/, '')] = Marc.decodificarXML(valor1 ?? valor2 ?? '');
+        }
+
+        return atributos;
+    }
+
+    /**
+     * Substitui os caracteres reservados do XML pelas entidades correspondentes
+     */
+    private static escaparXML(texto: string): string {
+        return texto
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&apos;');
+    }
+
+    /**
+     * Substitui as entidades do XML pelos caracteres correspondentes
+     */
+    private static decodificarXML(texto: string): string {
+        return texto
+            .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+            .replace(/&#x([0-9a-fA-F]+);/g, (_, codigo) => String.fromCodePoint(parseInt(codigo, 16)))
+            .replace(/&#(\d+);/g, (_, codigo) => String.fromCodePoint(parseInt(codigo, 10)))
+            .replace(/&lt;/g, '<')
+            .replace(/&gt;/g, '>')
+            .replace(/&quot;/g, '"')
+            .replace(/&apos;/g, "'")
+            .replace(/&amp;/g, '&');
+    }
+}
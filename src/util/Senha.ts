@@ -0,0 +1,130 @@
+import crypto from 'crypto'; // Módulo nativo do Node para funções criptográficas
+
+/**
+ * Prefixo que identifica as senhas armazenadas com hash scrypt
+ */
+const PREFIXO_HASH = 'scrypt';
+
+/**
+ * Parâmetros de custo do scrypt (N, r, p) e tamanho da chave gerada em bytes
+ */
+const CUSTO = 16384;
+const BLOCO = 8;
+const PARALELISMO = 1;
+const TAMANHO_CHAVE = 64;
+
+/**
+ * Tamanho mínimo aceito para as senhas dos usuários
+ */
+const TAMANHO_MINIMO_SENHA = 8;
+
+/**
+ * Classe responsável por gerar e verificar os hashes das senhas dos usuários.
+ *
+ * O hash é armazenado no formato **scrypt$N$r$p$salt$hash**, o que permite
+ * alterar os parâmetros de custo no futuro sem invalidar as senhas já cadastradas.
+ */
+export class Senha {
+
+    /**
+     * Gera o hash de uma senha utilizando scrypt com um salt aleatório
+     *
+     * @param senha Senha em texto puro
+     * @returns Hash da senha pronto para ser salvo no banco de dados
+     */
+    static async gerarHash(senha: string): Promise<string> {
+        // Gera um salt aleatório de 16 bytes
+        const salt = crypto.randomBytes(16).toString('hex');
+
+        // Calcula o hash da senha com o salt gerado
+        const chave = await Senha.derivarChave(senha, salt, CUSTO, BLOCO, PARALELISMO);
+
+        return [PREFIXO_HASH, CUSTO, BLOCO, PARALELISMO, salt, chave.toString('hex')].join('$');
+    }
+
+    /**
+     * Verifica se a senha informada corresponde à senha armazenada.
+     * Senhas legadas (gravadas em texto puro antes da adoção do hash) também são aceitas,
+     * para que o usuário consiga entrar e definir uma nova senha.
+     *
+     * @param senha Senha em texto puro informada pelo usuário
+     * @param senhaArmazenada Hash (ou senha legada) gravado no banco de dados
+     * @returns **true** caso a senha confira, **false** caso contrário
+     */
+    static async verificar(senha: string, senhaArmazenada: string): Promise<boolean> {
+        if (!senha || !senhaArmazenada) {
+            return false;
+        }
+
+        // Senha legada, armazenada em texto puro
+        if (!Senha.ehHash(senhaArmazenada)) {
+            return Senha.compararSeguro(Buffer.from(senha), Buffer.from(senhaArmazenada));
+        }
+
+        // Separa os parâmetros gravados junto com o hash
+        const [, custo, bloco, paralelismo, salt, hash] = senhaArmazenada.split('$');
+        const chave = await Senha.derivarChave(senha, salt, parseInt(custo), parseInt(bloco), parseInt(paralelismo));
+
+        return Senha.compararSeguro(chave, Buffer.from(hash, 'hex'));
+    }
+
+    /**
+     * Verifica se o valor armazenado está no formato de hash utilizado pelo sistema
+     *
+     * @param senhaArmazenada Valor gravado no banco de dados
+     * @returns **true** caso seja um hash scrypt, **false** caso seja uma senha legada
+     */
+    static ehHash(senhaArmazenada: string): boolean {
+        return senhaArmazenada.startsWith(`${PREFIXO_HASH}$`) && senhaArmazenada.split('$').length === 6;
+    }
+
+    /**
+     * Gera uma senha aleatória, utilizada como senha inicial dos usuários
+     *
+     * @param tamanho Quantidade de caracteres da senha
+     * @returns Senha aleatória
+     */
+    static gerarSenhaAleatoria(tamanho: number = 12): string {
+        return crypto.randomBytes(tamanho).toString('base64url').substring(0, tamanho);
+    }
+
+    /**
+     * Valida se a senha atende aos requisitos mínimos
+     *
+     * @param senha Senha a ser validada
+     * @returns Mensagem com o problema encontrado ou null caso a senha seja válida
+     */
+    static validarSenha(senha: string | undefined): string | null {
+        if (!senha || senha.length < TAMANHO_MINIMO_SENHA) {
+            return `A senha deve possuir no mínimo ${TAMANHO_MINIMO_SENHA} caracteres.`;
+        }
+
+        return null;
+    }
+
+    /**
+     * Deriva a chave da senha utilizando scrypt
+     */
+    private static derivarChave(senha: string, salt: string, custo: number, bloco: number, paralelismo: number): Promise<Buffer> {
+        return new Promise((resolve, reject) => {
+            crypto.scrypt(senha, salt, TAMANHO_CHAVE, { N: custo, r: bloco, p: paralelismo }, (error, chave) => {
+                if (error) {
+                    reject(error);
+                } else {
+                    resolve(chave);
+                }
+            });
+        });
+    }
+
+    /**
+     * Compara dois valores em tempo constante, evitando ataques de temporização
+     */
+    private static compararSeguro(a: Buffer, b: Buffer): boolean {
+        if (a.length !== b.length) {
+            return false;
+        }
+
+        return crypto.timingSafeEqual(a, b);
+    }
+}